@@ -3,7 +3,12 @@
 import { useState, useEffect } from "react";
 import { useRouter } from "next/navigation";
 import { useAuth } from "../context/AuthContext";
-import axiosInstance from "../utils/axiosInstance";
+import { authApi, getErrorMessage } from "../lib/api";
+import {
+  createPasskey,
+  isPasskeyCancelled,
+  isPasskeySupported,
+} from "../lib/passkeys";
 
 export default function ChangePassword() {
   const router = useRouter();
@@ -14,6 +19,7 @@ export default function ChangePassword() {
   const [error, setError] = useState("");
   const [success, setSuccess] = useState("");
   const [loading, setLoading] = useState(false);
+  const [offerPasskey, setOfferPasskey] = useState(false);
 
   useEffect(() => {
     // If not logged in, redirect to home (which will show login)
@@ -50,29 +56,55 @@ export default function ChangePassword() {
     setLoading(true);
 
     try {
-      const response = await axiosInstance.post("/auth/change-password", {
+      const data = await authApi.changePassword({
         currentPassword,
         newPassword,
       });
 
-      if (response.data.success) {
-        setSuccess("Password changed successfully! Redirecting...");
-
+      if (data.success) {
         // Clear the mustChangePassword flag
         localStorage.removeItem("mustChangePassword");
 
+        // First sign-in is the moment to offer a passkey, before the
+        // generated credentials get lost
+        if (isPasskeySupported()) {
+          setSuccess("Password changed successfully!");
+          setOfferPasskey(true);
+          return;
+        }
+
+        setSuccess("Password changed successfully! Redirecting...");
         setTimeout(() => {
           // Redirect to home page which will show the appropriate dashboard
           router.push("/");
         }, 1500);
       }
-    } catch (error: any) {
-      setError(error.response?.data?.message || "Failed to change password");
+    } catch (error) {
+      setError(getErrorMessage(error, "Failed to change password"));
     } finally {
       setLoading(false);
     }
   };
 
+  const handleAddPasskey = async () => {
+    setError("");
+    setLoading(true);
+    try {
+      const options = await authApi.getPasskeyRegistrationOptions();
+      const credential = await createPasskey(options);
+      await authApi.registerPasskey({ credential });
+      console.log("🔑 Passkey registered");
+      setSuccess("Passkey added! Redirecting...");
+      setTimeout(() => router.push("/"), 1500);
+    } catch (error) {
+      if (!isPasskeyCancelled(error)) {
+        console.error("Passkey registration failed:", error);
+        setError(getErrorMessage(error, "Failed to add a passkey"));
+      }
+      setLoading(false);
+    }
+  };
+
   // Show loading while checking authentication
   if (isLoading || !user) {
     return (
@@ -86,104 +118,149 @@ export default function ChangePassword() {
     <div className="min-h-screen bg-gray-100 dark:bg-gray-900 flex items-center justify-center py-12 px-4 sm:px-6 lg:px-8">
       <div className="max-w-md w-full">
         <div className="bg-white dark:bg-gray-800 shadow-md rounded-lg p-8">
-          <div className="mb-6 text-center">
-            <h2 className="text-3xl font-bold text-gray-900 dark:text-gray-100">
-              🔐 Change Password
-            </h2>
-            <p className="mt-2 text-sm text-red-600 dark:text-red-400 font-semibold">
-              ⚠️ You must change your password before continuing
-            </p>
-            <p className="mt-1 text-xs text-gray-600 dark:text-gray-400">
-              This is a temporary password. Please set a new secure password.
-            </p>
-          </div>
-
-          <form onSubmit={handleSubmit} className="space-y-6">
-            {error && (
-              <div className="bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 text-red-700 dark:text-red-400 px-4 py-3 rounded-md text-sm">
-                {error}
+          {offerPasskey ? (
+            <div className="space-y-6">
+              <div className="text-center">
+                <h2 className="text-3xl font-bold text-gray-900 dark:text-gray-100">
+                  🔑 Add a Passkey
+                </h2>
+                <p className="mt-2 text-sm text-gray-600 dark:text-gray-400">
+                  Sign in next time with your fingerprint, face or device PIN
+                  instead of remembering a password. Your password keeps working
+                  as a fallback.
+                </p>
               </div>
-            )}
 
-            {success && (
-              <div className="bg-green-50 dark:bg-green-900/20 border border-green-200 dark:border-green-800 text-green-700 dark:text-green-400 px-4 py-3 rounded-md text-sm">
-                {success}
-              </div>
-            )}
+              {error && (
+                <div className="bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 text-red-700 dark:text-red-400 px-4 py-3 rounded-md text-sm">
+                  {error}
+                </div>
+              )}
 
-            <div>
-              <label
-                htmlFor="currentPassword"
-                className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2"
-              >
-                Current Password
-              </label>
-              <input
-                id="currentPassword"
-                name="currentPassword"
-                type="password"
-                required
-                value={currentPassword}
-                onChange={(e) => setCurrentPassword(e.target.value)}
-                className="appearance-none relative block w-full px-3 py-2 border border-gray-300 dark:border-gray-600 placeholder-gray-500 dark:placeholder-gray-400 text-gray-900 dark:text-gray-100 bg-white dark:bg-gray-700 rounded-md focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 focus:z-10 sm:text-sm"
-                placeholder="Enter your current password"
-              />
-            </div>
+              {success && (
+                <div className="bg-green-50 dark:bg-green-900/20 border border-green-200 dark:border-green-800 text-green-700 dark:text-green-400 px-4 py-3 rounded-md text-sm">
+                  {success}
+                </div>
+              )}
 
-            <div>
-              <label
-                htmlFor="newPassword"
-                className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2"
-              >
-                New Password
-              </label>
-              <input
-                id="newPassword"
-                name="newPassword"
-                type="password"
-                required
-                value={newPassword}
-                onChange={(e) => setNewPassword(e.target.value)}
-                className="appearance-none relative block w-full px-3 py-2 border border-gray-300 dark:border-gray-600 placeholder-gray-500 dark:placeholder-gray-400 text-gray-900 dark:text-gray-100 bg-white dark:bg-gray-700 rounded-md focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 focus:z-10 sm:text-sm"
-                placeholder="Enter new password (min 8 characters)"
-              />
-            </div>
-
-            <div>
-              <label
-                htmlFor="confirmPassword"
-                className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2"
+              <button
+                onClick={handleAddPasskey}
+                disabled={loading}
+                className="w-full flex justify-center py-2 px-4 border border-transparent text-sm font-medium rounded-md text-white bg-indigo-600 hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500 disabled:bg-gray-400 disabled:cursor-not-allowed transition duration-200"
               >
-                Confirm New Password
-              </label>
-              <input
-                id="confirmPassword"
-                name="confirmPassword"
-                type="password"
-                required
-                value={confirmPassword}
-                onChange={(e) => setConfirmPassword(e.target.value)}
-                className="appearance-none relative block w-full px-3 py-2 border border-gray-300 dark:border-gray-600 placeholder-gray-500 dark:placeholder-gray-400 text-gray-900 dark:text-gray-100 bg-white dark:bg-gray-700 rounded-md focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 focus:z-10 sm:text-sm"
-                placeholder="Confirm new password"
-              />
-            </div>
-
-            <div>
+                {loading ? "Waiting for your device..." : "Add a Passkey"}
+              </button>
               <button
-                type="submit"
+                onClick={() => router.push("/")}
                 disabled={loading}
-                className="group relative w-full flex justify-center py-2 px-4 border border-transparent text-sm font-medium rounded-md text-white bg-indigo-600 hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500 disabled:bg-gray-400 disabled:cursor-not-allowed transition duration-200"
+                className="w-full py-2 px-4 border border-gray-300 dark:border-gray-600 text-sm rounded-md text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700 disabled:opacity-50 transition duration-200"
               >
-                {loading ? "Changing Password..." : "Change Password"}
+                Not Now
               </button>
             </div>
+          ) : (
+            <>
+              <div className="mb-6 text-center">
+                <h2 className="text-3xl font-bold text-gray-900 dark:text-gray-100">
+                  🔐 Change Password
+                </h2>
+                <p className="mt-2 text-sm text-red-600 dark:text-red-400 font-semibold">
+                  ⚠️ You must change your password before continuing
+                </p>
+                <p className="mt-1 text-xs text-gray-600 dark:text-gray-400">
+                  This is a temporary password. Please set a new secure
+                  password.
+                </p>
+              </div>
 
-            <div className="text-center">
-              <p className="text-xs text-gray-500 dark:text-gray-400">
-                Password must be at least 8 characters long
-              </p>
-            </div>
-          </form>
+              <form onSubmit={handleSubmit} className="space-y-6">
+                {error && (
+                  <div className="bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 text-red-700 dark:text-red-400 px-4 py-3 rounded-md text-sm">
+                    {error}
+                  </div>
+                )}
+
+                {success && (
+                  <div className="bg-green-50 dark:bg-green-900/20 border border-green-200 dark:border-green-800 text-green-700 dark:text-green-400 px-4 py-3 rounded-md text-sm">
+                    {success}
+                  </div>
+                )}
+
+                <div>
+                  <label
+                    htmlFor="currentPassword"
+                    className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2"
+                  >
+                    Current Password
+                  </label>
+                  <input
+                    id="currentPassword"
+                    name="currentPassword"
+                    type="password"
+                    required
+                    value={currentPassword}
+                    onChange={(e) => setCurrentPassword(e.target.value)}
+                    className="appearance-none relative block w-full px-3 py-2 border border-gray-300 dark:border-gray-600 placeholder-gray-500 dark:placeholder-gray-400 text-gray-900 dark:text-gray-100 bg-white dark:bg-gray-700 rounded-md focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 focus:z-10 sm:text-sm"
+                    placeholder="Enter your current password"
+                  />
+                </div>
+
+                <div>
+                  <label
+                    htmlFor="newPassword"
+                    className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2"
+                  >
+                    New Password
+                  </label>
+                  <input
+                    id="newPassword"
+                    name="newPassword"
+                    type="password"
+                    required
+                    value={newPassword}
+                    onChange={(e) => setNewPassword(e.target.value)}
+                    className="appearance-none relative block w-full px-3 py-2 border border-gray-300 dark:border-gray-600 placeholder-gray-500 dark:placeholder-gray-400 text-gray-900 dark:text-gray-100 bg-white dark:bg-gray-700 rounded-md focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 focus:z-10 sm:text-sm"
+                    placeholder="Enter new password (min 8 characters)"
+                  />
+                </div>
+
+                <div>
+                  <label
+                    htmlFor="confirmPassword"
+                    className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2"
+                  >
+                    Confirm New Password
+                  </label>
+                  <input
+                    id="confirmPassword"
+                    name="confirmPassword"
+                    type="password"
+                    required
+                    value={confirmPassword}
+                    onChange={(e) => setConfirmPassword(e.target.value)}
+                    className="appearance-none relative block w-full px-3 py-2 border border-gray-300 dark:border-gray-600 placeholder-gray-500 dark:placeholder-gray-400 text-gray-900 dark:text-gray-100 bg-white dark:bg-gray-700 rounded-md focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 focus:z-10 sm:text-sm"
+                    placeholder="Confirm new password"
+                  />
+                </div>
+
+                <div>
+                  <button
+                    type="submit"
+                    disabled={loading}
+                    className="group relative w-full flex justify-center py-2 px-4 border border-transparent text-sm font-medium rounded-md text-white bg-indigo-600 hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500 disabled:bg-gray-400 disabled:cursor-not-allowed transition duration-200"
+                  >
+                    {loading ? "Changing Password..." : "Change Password"}
+                  </button>
+                </div>
+
+                <div className="text-center">
+                  <p className="text-xs text-gray-500 dark:text-gray-400">
+                    Password must be at least 8 characters long
+                  </p>
+                </div>
+              </form>
+            </>
+          )}
         </div>
       </div>
     </div>
@@ -1,119 +1,23 @@
 "use client";
 
-import React, { useState, useEffect, useCallback, useRef } from "react";
+import React, { useState, useRef } from "react";
 import { useAuth } from "../context/AuthContext";
-import axios from "../utils/axiosInstance";
-import { default as axiosLib } from "axios";
+import { adminApi, getErrorMessage, RestorableEntityClass } from "../lib/api";
+import {
+  AdminCollection,
+  AdminPhoto,
+  Client,
+  PendingDeletion,
+} from "../lib/models";
+import { hasThumbnail } from "../lib/thumbnails";
 import CountdownTimer from "./CountdownTimer";
+import Thumbnail from "./Thumbnail";
+import { showUndoToast } from "./UndoToast";
 import { useSSE } from "../hooks/useSSE";
-
-// Debounce utility to prevent rapid consecutive API calls
-function debounce<T extends (...args: any[]) => any>(
-  func: T,
-  wait: number
-): (...args: Parameters<T>) => void {
-  let timeout: NodeJS.Timeout | null = null;
-  return (...args: Parameters<T>) => {
-    if (timeout) clearTimeout(timeout);
-    timeout = setTimeout(() => func(...args), wait);
-  };
-}
-
-interface Photographer {
-  id: string;
-  username: string;
-  businessName: string;
-  email: string;
-  isActive: boolean;
-  createdAt: string;
-  clientCount: number;
-  collectionCount: number;
-  photoCount: number;
-}
-
-interface Client {
-  id: string;
-  username: string;
-  clientName: string;
-  email: string;
-  isActive: boolean;
-  createdAt: string;
-  photographerId: string;
-  photographerName: string;
-  guestCount: number;
-  collectionCount: number;
-}
-
-interface Guest {
-  id: string;
-  username: string;
-  guestName: string;
-  email: string;
-  isActive: boolean;
-  createdAt: string;
-  expiresAt: string;
-  clientId: string;
-  clientName: string;
-  photographerId: string;
-  photographerName: string;
-  photoAccessCount: number;
-}
-
-interface Collection {
-  id: string;
-  name: string;
-  description: string;
-  createdAt: string;
-  photographerId: string;
-  photographerName: string;
-  photoCount: number;
-  clientCount: number;
-  thumbnailDataB64?: string;
-}
-
-interface Photo {
-  id: string;
-  originalName: string;
-  thumbnailDataB64?: string;
-  size: number;
-  createdAt: string;
-  photographerId: string;
-  photographerName: string;
-}
-
-interface SystemStats {
-  totalPhotographers: number;
-  activePhotographers: number;
-  totalClients: number;
-  activeClients: number;
-  totalGuests: number;
-  activeGuests: number;
-  totalCollections: number;
-  totalPhotos: number;
-  totalStorageBytes: number;
-}
-
-interface ScheduledDeletions {
-  photographers: PendingDeletion[];
-  clients: PendingDeletion[];
-  guests: PendingDeletion[];
-  photos: PendingDeletion[];
-  collections: PendingDeletion[];
-  total: number;
-}
-
-interface PendingDeletion {
-  id: string;
-  username?: string;
-  businessName?: string;
-  clientName?: string;
-  guestName?: string;
-  originalName?: string;
-  name?: string;
-  deletedAt: string;
-  scheduledDeletionDate: string;
-  deletionReason: string;
-}
+import { useQuery } from "../hooks/useQuery";
+import { removeById } from "../lib/realtime";
+import { queryCache } from "../lib/query";
+import { Toaster } from "react-hot-toast";
 
 const AdminDashboard: React.FC = () => {
   const { user, logout } = useAuth();
@@ -127,14 +31,39 @@ const AdminDashboard: React.FC = () => {
     | "pending-deletions"
   >("overview");
 
-  const [photographers, setPhotographers] = useState<Photographer[]>([]);
-  const [clients, setClients] = useState<Client[]>([]);
+  const stats =
+    useQuery("admin/stats", async () => (await adminApi.getStats()).stats, {
+      tags: ["stats"],
+    }).data ?? null;
+  const photographers =
+    useQuery(
+      "admin/photographers",
+      async () => (await adminApi.listPhotographers()).photographers,
+      { tags: ["photographers"] }
+    ).data ?? [];
+  const clients =
+    useQuery(
+      "admin/clients",
+      async () => (await adminApi.listClients()).clients,
+      { tags: ["clients"] }
+    ).data ?? [];
   // const [guests, setGuests] = useState<Guest[]>([]); // REMOVED - Guest functionality disabled
-  const [collections, setCollections] = useState<Collection[]>([]);
-  const [photos, setPhotos] = useState<Photo[]>([]);
-  const [stats, setStats] = useState<SystemStats | null>(null);
-  const [scheduledDeletions, setScheduledDeletions] =
-    useState<ScheduledDeletions | null>(null);
+  const collections =
+    useQuery(
+      "admin/collections",
+      async () => (await adminApi.listCollections()).collections,
+      { tags: ["collections"] }
+    ).data ?? [];
+  const photos =
+    useQuery("admin/photos", async () => (await adminApi.listPhotos()).photos, {
+      tags: ["photos"],
+    }).data ?? [];
+  const scheduledDeletions =
+    useQuery(
+      "admin/deletions",
+      async () => (await adminApi.getScheduledDeletions()).scheduled,
+      { tags: ["deletions"] }
+    ).data ?? null;
 
   const [showCreateForm, setShowCreateForm] = useState(false);
   const [isLoading, setIsLoading] = useState(false);
@@ -145,25 +74,53 @@ const AdminDashboard: React.FC = () => {
   const [email, setEmail] = useState("");
   const [businessName, setBusinessName] = useState("");
 
-  const API_BASE_URL =
-    process.env.NEXT_PUBLIC_API_BASE_URL || "http://localhost:6002/api";
-
-  // Server-Sent Events for real-time updates (OPTIMIZED: minimal targeted fetches)
+  // Server-Sent Events for real-time updates. Removals are applied in
+  // place; admin rows carry owners and counts the events don't, so other
+  // changes refetch just the list concerned.
   useSSE({
-    onPhotoEvent: () => {
-      // Only fetch photos and collections (not system stats on every photo event)
-      fetchPhotos();
-      fetchCollections();
-    },
-    onCollectionEvent: () => {
-      // Only fetch collections (photos are unaffected by collection changes)
-      fetchCollections();
-    },
-    onClientEvent: () => {
-      // Only fetch clients and photographers (related entities)
-      fetchClients();
-      fetchPhotographers();
+    onEvent: (event) => {
+      switch (event.type) {
+        case "photo.deleted":
+        case "photo.expired":
+          queryCache.setData<AdminPhoto[]>(
+            "admin/photos",
+            (prev) => prev && removeById(prev, event.data.photoId)
+          );
+          queryCache.invalidate("collections");
+          break;
+        case "photo.created":
+        case "photo.updated":
+          queryCache.invalidate("photos");
+          queryCache.invalidate("collections");
+          break;
+        case "collection.deleted":
+        case "collection.expired":
+          queryCache.setData<AdminCollection[]>(
+            "admin/collections",
+            (prev) => prev && removeById(prev, event.data.collectionId)
+          );
+          queryCache.invalidate("photos");
+          break;
+        case "collection.created":
+        case "collection.updated":
+        case "collection.shared":
+          queryCache.invalidate("collections");
+          break;
+        case "client.deleted":
+          queryCache.setData<Client[]>(
+            "admin/clients",
+            (prev) => prev && removeById(prev, event.data.clientId)
+          );
+          queryCache.invalidate("photographers");
+          break;
+        case "client.created":
+        case "client.updated":
+          queryCache.invalidate("clients");
+          queryCache.invalidate("photographers");
+          break;
+      }
     },
+    onGap: () => queryCache.invalidateAll(),
     // REMOVED - Guest functionality disabled
     // onGuestEvent: () => {
     //   fetchGuests();
@@ -173,20 +130,10 @@ const AdminDashboard: React.FC = () => {
     onConnected: () => {
       console.log("✅ Admin real-time updates connected");
       // Fetch stats once on connection, not on every event
-      fetchSystemStats();
+      queryCache.invalidate("stats");
     },
   });
 
-  useEffect(() => {
-    fetchSystemStats();
-    fetchPhotographers();
-    fetchClients();
-    // fetchGuests(); // REMOVED - Guest functionality disabled
-    fetchCollections();
-    fetchPhotos();
-    fetchScheduledDeletions();
-  }, []);
-
   // REMOVED - 15-minute polling causes excessive API requests
   // SSE provides real-time updates, polling is unnecessary
   // useEffect(() => {
@@ -203,116 +150,20 @@ const AdminDashboard: React.FC = () => {
   //   return () => clearInterval(interval);
   // }, []);
 
-  // Raw fetch functions
-  const fetchSystemStatsRaw = async () => {
-    try {
-      const response = await axios.get(`${API_BASE_URL}/admin/stats`);
-      if (response.data.success) {
-        setStats(response.data.stats);
-      }
-    } catch (error) {
-      console.error("Error fetching stats:", error);
-    }
-  };
-
-  const fetchPhotographersRaw = async () => {
-    try {
-      const response = await axios.get(`${API_BASE_URL}/admin/photographers`);
-      if (response.data.success) {
-        setPhotographers(response.data.photographers);
-      }
-    } catch (error) {
-      console.error("Error fetching photographers:", error);
-    }
-  };
-
-  const fetchClientsRaw = async () => {
-    try {
-      const response = await axios.get(`${API_BASE_URL}/admin/clients`);
-      if (response.data.success) {
-        setClients(response.data.clients);
-      }
-    } catch (error) {
-      console.error("Error fetching clients:", error);
-    }
-  };
-
-  // Debounced versions (prevent rapid consecutive calls from SSE events)
-  const fetchSystemStats = useCallback(debounce(fetchSystemStatsRaw, 1000), []);
-  const fetchPhotographers = useCallback(
-    debounce(fetchPhotographersRaw, 1000),
-    []
-  );
-  const fetchClients = useCallback(debounce(fetchClientsRaw, 1000), []);
-
   // REMOVED - Guest functionality disabled
   // const fetchGuests = async () => {
   //   try {
-  //     const response = await axios.get(`${API_BASE_URL}/admin/guests`);
-  //     if (response.data.success) {
-  //       setGuests(response.data.guests);
+  //     const data = await adminApi.listGuests();
+  //     if (data.success) {
+  //       setGuests(data.guests);
   //     }
   //   } catch (error) {
   //     console.error("Error fetching guests:", error);
   //   }
   // };
 
-  const fetchCollectionsRaw = async () => {
-    try {
-      const response = await axios.get(`${API_BASE_URL}/admin/collections`);
-      if (response.data.success) {
-        setCollections(response.data.collections);
-      }
-    } catch (error) {
-      console.error("Error fetching collections:", error);
-    }
-  };
-
-  const fetchPhotosRaw = async () => {
-    try {
-      const response = await axios.get(`${API_BASE_URL}/admin/photos`);
-      if (response.data.success) {
-        setPhotos(response.data.photos);
-      }
-    } catch (error) {
-      console.error("Error fetching photos:", error);
-    }
-  };
-
-  // Create debounced versions to prevent rapid consecutive calls
-  const fetchCollections = useCallback(debounce(fetchCollectionsRaw, 1000), []);
-  const fetchPhotos = useCallback(debounce(fetchPhotosRaw, 1000), []);
-
-  const fetchScheduledDeletions = async () => {
-    try {
-      const response = await axios.get(
-        `${API_BASE_URL}/admin/scheduled-deletions`
-      );
-      if (response.data.success) {
-        setScheduledDeletions(response.data.scheduled);
-      }
-    } catch (error) {
-      console.error("Error fetching scheduled deletions:", error);
-    }
-  };
-
-  // Refresh all data
-  const refreshAll = async () => {
-    console.log("🔄 Refreshing all admin data...");
-    await Promise.all([
-      fetchSystemStats(),
-      fetchPhotographers(),
-      fetchClients(),
-      //fetchGuests(),
-      fetchCollections(),
-      fetchPhotos(),
-      fetchScheduledDeletions(),
-    ]);
-    console.log("✅ Refresh complete");
-  };
-
   const restoreEntity = async (
-    entityClass: string,
+    entityClass: RestorableEntityClass,
     entityId: string,
     displayName: string
   ) => {
@@ -321,22 +172,19 @@ const AdminDashboard: React.FC = () => {
     }
 
     try {
-      const response = await axios.post(`${API_BASE_URL}/admin/restore`, {
-        entityClass,
-        entityId,
-      });
+      const data = await adminApi.restore({ entityClass, entityId });
 
-      if (response.data.success) {
-        const photosRestored = response.data.photosRestored || 0;
+      if (data.success) {
+        const photosRestored = data.photosRestored || 0;
         const message =
           photosRestored > 0
             ? `${displayName} and ${photosRestored} photo(s) restored successfully`
             : `${displayName} restored successfully`;
         setSuccess(message);
-        await refreshAll(); // Refresh everything after restore
+        queryCache.invalidateAll(); // Refresh everything after restore
       }
-    } catch (error: any) {
-      setError(error.response?.data?.message || "Failed to restore entity");
+    } catch (error) {
+      setError(getErrorMessage(error, "Failed to restore entity"));
     }
   };
 
@@ -350,11 +198,9 @@ const AdminDashboard: React.FC = () => {
     }
 
     try {
-      const response = await axios.post(
-        `${API_BASE_URL}/admin/cleanup-deletions`
-      );
-      if (response.data.success) {
-        const count = response.data.summary.totalDeleted;
+      const data = await adminApi.cleanupDeletions();
+      if (data.success) {
+        const count = data.summary.totalDeleted;
         if (count === 0) {
           setSuccess(
             "No items ready for deletion yet. Items must wait 7 days before permanent deletion."
@@ -366,16 +212,10 @@ const AdminDashboard: React.FC = () => {
             } permanently deleted`
           );
         }
-        fetchScheduledDeletions();
-        fetchPhotographers();
-        fetchClients();
-        // fetchGuests();
-        fetchCollections();
-        fetchPhotos();
-        fetchSystemStats();
+        queryCache.invalidateAll();
       }
-    } catch (error: any) {
-      setError(error.response?.data?.message || "Failed to run cleanup");
+    } catch (error) {
+      setError(getErrorMessage(error, "Failed to run cleanup"));
     }
   };
 
@@ -398,26 +238,18 @@ const AdminDashboard: React.FC = () => {
     }
 
     try {
-      const response = await axios.post(
-        `${API_BASE_URL}/admin/nuke-all-deletions`
-      );
-      if (response.data.success) {
-        const count = response.data.summary.totalDeleted;
+      const data = await adminApi.nukeAllDeletions();
+      if (data.success) {
+        const count = data.summary.totalDeleted;
         setSuccess(
           `💥 Nuclear deletion complete: ${count} item${
             count !== 1 ? "s" : ""
           } permanently deleted immediately!`
         );
-        fetchScheduledDeletions();
-        fetchPhotographers();
-        fetchClients();
-        //fetchGuests();
-        fetchCollections();
-        fetchPhotos();
-        fetchSystemStats();
+        queryCache.invalidateAll();
       }
-    } catch (error: any) {
-      setError(error.response?.data?.message || "Failed to nuke deletions");
+    } catch (error) {
+      setError(getErrorMessage(error, "Failed to nuke deletions"));
     }
   };
 
@@ -428,28 +260,20 @@ const AdminDashboard: React.FC = () => {
     setIsLoading(true);
 
     try {
-      const response = await axios.post(
-        `${API_BASE_URL}/admin/create-photographer`,
-        {
-          email,
-          businessName,
-        }
-      );
+      const data = await adminApi.createPhotographer({ email, businessName });
 
-      if (response.data.success) {
+      if (data.success) {
         setSuccess(
           `Photographer created successfully! Credentials sent to ${email}`
         );
         setEmail("");
         setBusinessName("");
         setShowCreateForm(false);
-        fetchPhotographers();
-        fetchSystemStats();
+        queryCache.invalidate("photographers");
+        queryCache.invalidate("stats");
       }
-    } catch (error: any) {
-      setError(
-        error.response?.data?.message || "Failed to create photographer"
-      );
+    } catch (error) {
+      setError(getErrorMessage(error, "Failed to create photographer"));
     } finally {
       setIsLoading(false);
     }
@@ -457,19 +281,46 @@ const AdminDashboard: React.FC = () => {
 
   const togglePhotographerStatus = async (photographerId: string) => {
     try {
-      const encodedId = encodeURIComponent(photographerId);
-      const url = `${API_BASE_URL}/admin/photographer/${encodedId}/toggle`;
-      await axios.put(url);
-      fetchPhotographers();
-      fetchSystemStats();
+      await adminApi.togglePhotographer(photographerId);
+      queryCache.invalidate("photographers");
+      queryCache.invalidate("stats");
     } catch (error) {
       console.error("Toggle error:", error);
-      if (axiosLib.isAxiosError(error)) {
-        setError(
-          error.response?.data?.message ||
-            "Failed to update photographer status"
+      setError(getErrorMessage(error, "Failed to update photographer status"));
+    }
+  };
+
+  const revokeSessions = async (
+    kind: "photographer" | "client",
+    userId: string,
+    name: string
+  ) => {
+    if (
+      !window.confirm(
+        `Sign ${kind} "${name}" out on every device? They'll need to log in again.`
+      )
+    ) {
+      return;
+    }
+
+    try {
+      const data =
+        kind === "photographer"
+          ? await adminApi.revokePhotographerSessions(userId)
+          : await adminApi.revokeClientSessions(userId);
+
+      if (data.success) {
+        const count = data.revoked;
+        setSuccess(
+          count === undefined
+            ? `Signed "${name}" out everywhere.`
+            : `Signed "${name}" out of ${count} session${
+                count === 1 ? "" : "s"
+              }.`
         );
       }
+    } catch (error) {
+      setError(getErrorMessage(error, "Failed to revoke sessions"));
     }
   };
 
@@ -486,27 +337,21 @@ const AdminDashboard: React.FC = () => {
     }
 
     try {
-      const encodedId = encodeURIComponent(photographerId);
-      const url = `${API_BASE_URL}/admin/photographer/${encodedId}`;
-      const response = await axios.delete(url);
+      const data = await adminApi.deletePhotographer(photographerId);
 
-      if (response.data.success) {
+      if (data.success) {
         setSuccess(
           `Photographer "${businessName}" marked for deletion. Will be permanently deleted on ${new Date(
-            response.data.scheduledDeletionDate
+            data.scheduledDeletionDate ?? Date.now()
           ).toLocaleDateString()}`
         );
-        fetchPhotographers();
-        fetchSystemStats();
-        fetchScheduledDeletions();
+        queryCache.invalidate("photographers");
+        queryCache.invalidate("stats");
+        queryCache.invalidate("deletions");
       }
     } catch (error) {
       console.error("Delete error:", error);
-      if (axiosLib.isAxiosError(error)) {
-        setError(
-          error.response?.data?.message || "Failed to delete photographer"
-        );
-      }
+      setError(getErrorMessage(error, "Failed to delete photographer"));
     }
   };
 
@@ -520,19 +365,16 @@ const AdminDashboard: React.FC = () => {
     }
 
     try {
-      const encodedId = encodeURIComponent(clientId);
-      const response = await axios.delete(
-        `${API_BASE_URL}/admin/client/${encodedId}`
-      );
+      const data = await adminApi.deleteClient(clientId);
 
-      if (response.data.success) {
+      if (data.success) {
         setSuccess(`Client "${clientName}" marked for deletion.`);
-        fetchClients();
-        fetchSystemStats();
-        fetchScheduledDeletions();
+        queryCache.invalidate("clients");
+        queryCache.invalidate("stats");
+        queryCache.invalidate("deletions");
       }
-    } catch (error: any) {
-      setError(error.response?.data?.message || "Failed to delete client");
+    } catch (error) {
+      setError(getErrorMessage(error, "Failed to delete client"));
     }
   };
 
@@ -546,22 +388,37 @@ const AdminDashboard: React.FC = () => {
     }
 
     try {
-      const encodedId = encodeURIComponent(guestId);
-      const response = await axios.delete(
-        `${API_BASE_URL}/admin/guest/${encodedId}`
-      );
+      const data = await adminApi.deleteGuest(guestId);
 
-      if (response.data.success) {
+      if (data.success) {
         setSuccess(`Guest "${guestName}" marked for deletion.`);
         // fetchGuests();
-        fetchSystemStats();
-        fetchScheduledDeletions();
+        queryCache.invalidate("stats");
+        queryCache.invalidate("deletions");
       }
-    } catch (error: any) {
-      setError(error.response?.data?.message || "Failed to delete guest");
+    } catch (error) {
+      setError(getErrorMessage(error, "Failed to delete guest"));
     }
   };
 
+  // Admin deletions are only scheduled, so Undo restores through the same
+  // endpoint as the Pending Deletions tab
+  const offerRestore = (
+    entityClass: RestorableEntityClass,
+    entityId: string,
+    displayName: string
+  ) =>
+    showUndoToast(`Deleted ${displayName}`, async () => {
+      try {
+        const data = await adminApi.restore({ entityClass, entityId });
+        if (data.success) setSuccess(`${displayName} restored`);
+      } catch (error) {
+        setError(getErrorMessage(error, "Failed to restore entity"));
+      } finally {
+        queryCache.invalidateAll();
+      }
+    });
+
   const deleteCollection = async (
     collectionId: string,
     collectionName: string
@@ -575,51 +432,49 @@ const AdminDashboard: React.FC = () => {
     }
 
     try {
-      const encodedId = encodeURIComponent(collectionId);
-      const response = await axios.delete(
-        `${API_BASE_URL}/admin/collection/${encodedId}`
-      );
+      const data = await queryCache.mutate({
+        optimistic: () =>
+          queryCache.setData<AdminCollection[]>(
+            "admin/collections",
+            (prev) => prev && removeById(prev, collectionId)
+          ),
+        request: () => adminApi.deleteCollection(collectionId),
+        // Refresh photos tab since cascade delete affects photos
+        invalidates: ["collections", "photos", "stats", "deletions"],
+      });
 
-      if (response.data.success) {
-        const photosDeleted = response.data.photosDeleted || 0;
+      if (data.success) {
+        const photosDeleted = data.photosDeleted || 0;
         const message =
           photosDeleted > 0
             ? `Collection "${collectionName}" and ${photosDeleted} photo(s) marked for deletion.`
             : `Collection "${collectionName}" marked for deletion.`;
         setSuccess(message);
-        fetchCollections();
-        fetchPhotos(); // Refresh photos tab since cascade delete affects photos
-        fetchSystemStats();
-        fetchScheduledDeletions();
+        offerRestore("PhotoCollection", collectionId, `"${collectionName}"`);
       }
-    } catch (error: any) {
-      setError(error.response?.data?.message || "Failed to delete collection");
+    } catch (error) {
+      setError(getErrorMessage(error, "Failed to delete collection"));
     }
   };
 
   const deletePhoto = async (photoId: string, photoName: string) => {
-    if (
-      !window.confirm(
-        `Are you sure you want to mark photo "${photoName}" for deletion? It will be permanently deleted in 7 days.`
-      )
-    ) {
-      return;
-    }
-
     try {
-      const encodedId = encodeURIComponent(photoId);
-      const response = await axios.delete(
-        `${API_BASE_URL}/admin/photo/${encodedId}`
-      );
+      const data = await queryCache.mutate({
+        optimistic: () =>
+          queryCache.setData<AdminPhoto[]>(
+            "admin/photos",
+            (prev) => prev && removeById(prev, photoId)
+          ),
+        request: () => adminApi.deletePhoto(photoId),
+        invalidates: ["photos", "stats", "deletions"],
+      });
 
-      if (response.data.success) {
+      if (data.success) {
         setSuccess(`Photo "${photoName}" marked for deletion.`);
-        fetchPhotos();
-        fetchSystemStats();
-        fetchScheduledDeletions();
+        offerRestore("Photo", photoId, `"${photoName}"`);
       }
-    } catch (error: any) {
-      setError(error.response?.data?.message || "Failed to delete photo");
+    } catch (error) {
+      setError(getErrorMessage(error, "Failed to delete photo"));
     }
   };
 
@@ -869,6 +724,18 @@ const AdminDashboard: React.FC = () => {
                       >
                         {photographer.isActive ? "Deactivate" : "Activate"}
                       </button>
+                      <button
+                        onClick={() =>
+                          revokeSessions(
+                            "photographer",
+                            photographer.id,
+                            photographer.businessName
+                          )
+                        }
+                        className="text-gray-600 hover:text-gray-900"
+                      >
+                        Sign Out Everywhere
+                      </button>
                       <button
                         onClick={() =>
                           deletePhotographer(
@@ -977,7 +844,15 @@ const AdminDashboard: React.FC = () => {
                         {client.isActive ? "Active" : "Inactive"}
                       </span>
                     </td>
-                    <td className="px-6 py-4 whitespace-nowrap text-sm">
+                    <td className="px-6 py-4 whitespace-nowrap text-sm space-x-3">
+                      <button
+                        onClick={() =>
+                          revokeSessions("client", client.id, client.clientName)
+                        }
+                        className="text-gray-600 hover:text-gray-900 font-medium"
+                      >
+                        🔒 Sign Out Everywhere
+                      </button>
                       <button
                         onClick={() =>
                           deleteClient(client.id, client.clientName)
@@ -1060,9 +935,9 @@ const AdminDashboard: React.FC = () => {
                 key={collection.id}
                 className="border border-gray-200 rounded-lg overflow-hidden hover:shadow-lg transition-shadow"
               >
-                {collection.thumbnailDataB64 ? (
-                  <img
-                    src={`data:image/jpeg;base64,${collection.thumbnailDataB64}`}
+                {hasThumbnail(collection) ? (
+                  <Thumbnail
+                    source={collection}
                     alt={collection.name}
                     className="w-full h-48 object-cover"
                   />
@@ -1134,9 +1009,9 @@ const AdminDashboard: React.FC = () => {
                 key={photo.id}
                 className="border border-gray-200 rounded-lg overflow-hidden hover:shadow-lg transition-shadow"
               >
-                {photo.thumbnailDataB64 ? (
-                  <img
-                    src={`data:image/jpeg;base64,${photo.thumbnailDataB64}`}
+                {hasThumbnail(photo) ? (
+                  <Thumbnail
+                    source={photo}
                     alt={photo.originalName}
                     className="w-full h-48 object-cover"
                   />
@@ -1162,7 +1037,7 @@ const AdminDashboard: React.FC = () => {
                     <div className="flex items-center justify-between text-xs text-gray-500">
                       <span>{formatBytes(photo.size)}</span>
                       <span>
-                        {new Date(photo.createdAt).toLocaleDateString()}
+                        {new Date(photo.uploadedAt).toLocaleDateString()}
                       </span>
                     </div>
                     <button
@@ -1557,6 +1432,7 @@ const AdminDashboard: React.FC = () => {
 
   return (
     <div className="min-h-screen bg-gray-50 dark:bg-gray-900">
+      <Toaster position="top-right" />
       {/* Header */}
       <div className="bg-white dark:bg-gray-800 shadow">
         <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
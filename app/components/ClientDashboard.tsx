@@ -1,64 +1,77 @@
 "use client";
 
-import React, { useState, useEffect, useCallback } from "react";
+import React, { useState, useMemo } from "react";
 import { useAuth } from "../context/AuthContext";
-import axios from "axios";
+import { clientApi, getErrorMessage } from "../lib/api";
+import { Collection, markSelected, Photo } from "../lib/models";
+import {
+  assignThumbnails,
+  hasThumbnail,
+  pruneThumbnails,
+} from "../lib/thumbnails";
+import { saveBlob, savePhoto } from "../lib/download";
 import MasonryPhotoGrid from "./MasonryPhotoGrid";
+import Thumbnail from "./Thumbnail";
 import DarkModeToggle from "./DarkModeToggle";
 import CountdownTimer from "./CountdownTimer";
 import { useSSE } from "../hooks/useSSE";
+import { useQuery } from "../hooks/useQuery";
+import { applyCollectionEvent, applyPhotoEvent } from "../lib/realtime";
+import { queryCache } from "../lib/query";
+import {
+  getPin,
+  isPinned,
+  loadPins,
+  pinCollection,
+  withOfflineFallback,
+} from "../lib/offlinePins";
+import OfflinePinButton from "./OfflinePinButton";
+
+const COLLECTIONS_KEY = "client/collections";
+const photosKey = (collectionId: string) => `client/photos/${collectionId}`;
+
+// Offline, the collections kept on this device stand in for the listing
+const fetchCollections = () =>
+  withOfflineFallback(
+    async () => {
+      const { collections } = await clientApi.listCollections();
+      // Thumbnails of collections no longer shared, or expired, go
+      pruneThumbnails(collections).catch((error) =>
+        console.warn("Failed to prune thumbnails:", error)
+      );
+      return collections;
+    },
+    async () => {
+      const pins = await loadPins();
+      return pins.length > 0 ? pins.map((pin) => pin.collection) : undefined;
+    }
+  );
 
-// Debounce utility to prevent rapid consecutive API calls
-function debounce<T extends (...args: any[]) => any>(
-  func: T,
-  wait: number
-): (...args: Parameters<T>) => void {
-  let timeout: NodeJS.Timeout | null = null;
-  return (...args: Parameters<T>) => {
-    if (timeout) clearTimeout(timeout);
-    timeout = setTimeout(() => func(...args), wait);
-  };
-}
-
-interface Photo {
-  id: string;
-  filename: string;
-  originalName: string;
-  shareToken: string;
-  thumbnailDataB64: string;
-  uploadedAt: string;
-  size: number;
-  selected?: boolean;
-}
-
-interface Guest {
-  id: string;
-  username: string;
-  guestName: string;
-  isActive: boolean;
-  expiresAt: string;
-  sharedPhotoCount: number;
-}
-
-interface Collection {
-  collectionId: string;
-  name: string;
-  description: string;
-  createdAt: string;
-  photoCount?: number;
-  thumbnailDataB64?: string | null;
-  autoDeleteAt: string;
-  daysRemaining: number;
-}
+const fetchCollectionPhotos = (collectionId: string) =>
+  withOfflineFallback(
+    async () => {
+      const { photos } = await clientApi.listCollectionPhotos(collectionId);
+      // Keep the offline copy in step with the collection
+      const collection = queryCache
+        .getData<Collection[]>(COLLECTIONS_KEY)
+        ?.find((c) => c.id === collectionId);
+      if (collection) assignThumbnails(collection, photos);
+      if (collection && isPinned(collectionId)) {
+        pinCollection(collection, photos).catch((error) =>
+          console.warn("Failed to refresh offline copy:", error)
+        );
+      }
+      return photos;
+    },
+    async () => (await getPin(collectionId))?.photos
+  );
 
 const ClientDashboard: React.FC = () => {
   const { user, logout } = useAuth();
   const [activeTab, setActiveTab] = useState<"collections">(
     "collections" // REMOVED "guests" - Guest functionality disabled
   );
-  const [photos, setPhotos] = useState<Photo[]>([]);
   // const [guests, setGuests] = useState<Guest[]>([]); // REMOVED - Guest functionality disabled
-  const [collections, setCollections] = useState<Collection[]>([]);
   const [selectedCollection, setSelectedCollection] = useState<string | null>(
     null
   );
@@ -73,17 +86,53 @@ const ClientDashboard: React.FC = () => {
   const [guestName, setGuestName] = useState("");
   const [expirationDays, setExpirationDays] = useState(7);
 
-  const API_BASE_URL =
-    process.env.NEXT_PUBLIC_API_BASE_URL || "http://localhost:6002/api";
+  const collectionsQuery = useQuery(COLLECTIONS_KEY, fetchCollections, {
+    tags: ["collections"],
+  });
+  const photosQuery = useQuery(
+    photosKey(selectedCollection ?? ""),
+    () => fetchCollectionPhotos(selectedCollection ?? ""),
+    {
+      tags: ["photos", `collection:${selectedCollection}`],
+      enabled: !!selectedCollection,
+    }
+  );
+
+  const collections = collectionsQuery.data ?? [];
+  const photos = useMemo(
+    () =>
+      markSelected(photosQuery.data ?? [], (photo) =>
+        selectedPhotos.includes(photo.shareToken)
+      ),
+    [photosQuery.data, selectedPhotos]
+  );
 
-  // Server-Sent Events for real-time updates
+  // Server-Sent Events patch the cached lists in place; everything is
+  // refetched only when the stream may have skipped something
   useSSE({
-    onCollectionEvent: () => {
-      fetchCollections();
-      if (activeTab === "collections" && selectedCollection) {
-        fetchPhotos();
+    onEvent: (event) => {
+      queryCache.setData<Collection[]>(
+        COLLECTIONS_KEY,
+        (prev) => prev && applyCollectionEvent(prev, event)
+      );
+      if (selectedCollection) {
+        queryCache.setData<Photo[]>(
+          photosKey(selectedCollection),
+          (prev) =>
+            prev &&
+            applyPhotoEvent(
+              prev,
+              event,
+              (photo) => photo.collectionId === selectedCollection
+            )
+        );
+      }
+      // A newly shared collection's photos aren't in the event
+      if (event.type === "collection.shared") {
+        queryCache.invalidate(`collection:${event.data.collection.id}`);
       }
     },
+    onGap: () => queryCache.invalidateAll(),
     // REMOVED - Guest functionality disabled
     // onGuestEvent: () => {
     //   fetchGuests();
@@ -93,113 +142,25 @@ const ClientDashboard: React.FC = () => {
     },
   });
 
-  // Initial data load on mount
-  useEffect(() => {
-    fetchCollections();
-    // fetchGuests(); // REMOVED - Guest functionality disabled
-  }, []); // Run once on mount
-
-  // Fetch data when tab changes
-  useEffect(() => {
-    if (activeTab === "collections") {
-      fetchCollections();
-    }
-    // REMOVED - Guest functionality disabled
-    // else if (activeTab === "guests") {
-    //   fetchGuests();
-    // }
-  }, [activeTab]);
-
-  // REMOVED - 15-minute polling causes excessive API requests
-  // SSE provides real-time updates, polling is unnecessary
-  // useEffect(() => {
-  //   const interval = setInterval(() => {
-  //     console.log("🔄 Periodic refresh (15min fallback)...");
-  //     if (activeTab === "collections") {
-  //       fetchCollections();
-  //     }
-  //   }, 15 * 60 * 1000); // 15 minutes
-  //
-  //   return () => clearInterval(interval);
-  // }, [activeTab]);
-
-  const fetchPhotosRaw = async () => {
-    try {
-      const response = await axios.get(`${API_BASE_URL}/client/photos`);
-      if (response.data.success) {
-        setPhotos(
-          response.data.photos.map((photo: Photo) => ({
-            ...photo,
-            selected: false,
-          }))
-        );
-      }
-    } catch (error) {
-      console.error("Error fetching photos:", error);
-    }
-  };
-
   // REMOVED - Guest functionality disabled
   // const fetchGuests = async () => {
   //   try {
-  //     const response = await axios.get(`${API_BASE_URL}/client/guests`);
-  //     if (response.data.success) {
-  //       setGuests(response.data.guests);
+  //     const data = await clientApi.listGuests();
+  //     if (data.success) {
+  //       setGuests(data.guests);
   //     }
   //   } catch (error) {
   //     console.error("Error fetching guests:", error);
   //   }
   // };
 
-  const fetchCollectionsRaw = async () => {
-    try {
-      const response = await axios.get(`${API_BASE_URL}/client/collections`);
-      if (response.data.success) {
-        setCollections(response.data.collections);
-      }
-    } catch (error) {
-      console.error("Error fetching collections:", error);
-    }
-  };
-
-  // Create debounced versions to prevent rapid consecutive calls
-  const fetchPhotos = useCallback(debounce(fetchPhotosRaw, 1000), []);
-  const fetchCollections = useCallback(debounce(fetchCollectionsRaw, 1000), []);
-
-  // Refresh all data
-  const refreshAll = async () => {
-    console.log("🔄 Refreshing all client data...");
-    await Promise.all([fetchPhotos(), /* fetchGuests(), */ fetchCollections()]);
-    console.log("✅ Refresh complete");
-  };
-
-  const viewCollectionPhotos = async (collectionId: string) => {
-    try {
-      const response = await axios.get(
-        `${API_BASE_URL}/client/collections/${collectionId}/photos`
-      );
-      if (response.data.success) {
-        setPhotos(
-          response.data.photos.map((photo: Photo) => ({
-            ...photo,
-            selected: false,
-          }))
-        );
-        setSelectedCollection(collectionId);
-        // Stay on collections tab, just show the collection's photos
-      }
-    } catch (error) {
-      console.error("Error fetching collection photos:", error);
-    }
+  const viewCollectionPhotos = (collectionId: string) => {
+    setSelectedPhotos([]);
+    setSelectedCollection(collectionId);
+    // Stay on collections tab, just show the collection's photos
   };
 
   const togglePhotoSelection = (photoId: string) => {
-    setPhotos(
-      photos.map((photo) =>
-        photo.id === photoId ? { ...photo, selected: !photo.selected } : photo
-      )
-    );
-
     // Find the photo to get its shareToken
     const photo = photos.find((p) => p.id === photoId);
     if (!photo) return;
@@ -213,7 +174,6 @@ const ClientDashboard: React.FC = () => {
 
   const selectAllPhotos = () => {
     const allSelected = selectedPhotos.length === photos.length;
-    setPhotos(photos.map((photo) => ({ ...photo, selected: !allSelected })));
     setSelectedPhotos(
       allSelected ? [] : photos.map((photo) => photo.shareToken)
     );
@@ -232,26 +192,24 @@ const ClientDashboard: React.FC = () => {
     setIsLoading(true);
 
     try {
-      const response = await axios.post(`${API_BASE_URL}/client/create-guest`, {
+      const data = await clientApi.createGuest({
         email: guestEmail,
         guestName: guestName,
         photoIds: selectedPhotos,
         expirationDays: expirationDays,
       });
 
-      if (response.data.success) {
+      if (data.success) {
         setSuccess(
           `Guest created successfully! Credentials sent to ${guestEmail}`
         );
         setGuestEmail("");
         setGuestName("");
         setSelectedPhotos([]);
-        setPhotos(photos.map((photo) => ({ ...photo, selected: false })));
         setShowCreateGuestForm(false);
-        await refreshAll(); // Refresh everything after creating guest
       }
-    } catch (error: any) {
-      setError(error.response?.data?.message || "Failed to create guest");
+    } catch (error) {
+      setError(getErrorMessage(error, "Failed to create guest"));
     } finally {
       setIsLoading(false);
     }
@@ -265,24 +223,16 @@ const ClientDashboard: React.FC = () => {
       setIsLoading(true);
       console.log("Toggling guest access:", { guestId, currentStatus });
 
-      const response = await axios.patch(
-        `${API_BASE_URL}/client/guests/${encodeURIComponent(
-          guestId
-        )}/toggle-access`
-      );
+      const data = await clientApi.toggleGuestAccess(guestId);
 
-      if (response.data.success) {
+      if (data.success) {
         setSuccess(
           `Guest access ${currentStatus ? "disabled" : "enabled"} successfully`
         );
-        await refreshAll(); // Refresh everything after toggling access
       }
-    } catch (error: any) {
+    } catch (error) {
       console.error("Toggle guest access error:", error);
-      console.error("Error response:", error.response);
-      setError(
-        error.response?.data?.message || "Failed to toggle guest access"
-      );
+      setError(getErrorMessage(error, "Failed to toggle guest access"));
     } finally {
       setIsLoading(false);
     }
@@ -302,48 +252,26 @@ const ClientDashboard: React.FC = () => {
         const photo = photos.find((p) => p.shareToken === selectedPhotos[0]);
         if (!photo) return;
 
-        const response = await axios.get(
-          `${API_BASE_URL}/client/photos/${photo.shareToken}/download`,
-          { responseType: "blob" }
-        );
+        const blob = await clientApi.downloadPhoto(photo.shareToken);
 
-        const url = window.URL.createObjectURL(new Blob([response.data]));
-        const link = document.createElement("a");
-        link.href = url;
-        link.setAttribute("download", photo.originalName || "photo.jpg");
-        document.body.appendChild(link);
-        link.click();
-        link.remove();
-        window.URL.revokeObjectURL(url);
+        await savePhoto(blob, photo.originalName || "photo.jpg");
 
         setSuccess("Photo downloaded successfully!");
       } else {
         // Download multiple photos as ZIP
         // selectedPhotos already contains shareTokens
-        const response = await axios.post(
-          `${API_BASE_URL}/client/photos/download-zip`,
-          { photoTokens: selectedPhotos },
-          { responseType: "blob" }
-        );
+        const blob = await clientApi.downloadZip(selectedPhotos);
 
-        const url = window.URL.createObjectURL(new Blob([response.data]));
-        const link = document.createElement("a");
-        link.href = url;
-        link.setAttribute("download", `photos-${Date.now()}.zip`);
-        document.body.appendChild(link);
-        link.click();
-        link.remove();
-        window.URL.revokeObjectURL(url);
+        saveBlob(blob, `photos-${Date.now()}.zip`);
 
         setSuccess(`${selectedPhotos.length} photos downloaded successfully!`);
       }
 
       // Clear selection
       setSelectedPhotos([]);
-      setPhotos(photos.map((p) => ({ ...p, selected: false })));
-    } catch (error: any) {
+    } catch (error) {
       console.error("Download error:", error);
-      setError(error.response?.data?.message || "Failed to download photos");
+      setError(getErrorMessage(error, "Failed to download photos"));
     } finally {
       setIsLoading(false);
     }
@@ -453,7 +381,6 @@ const ClientDashboard: React.FC = () => {
                           <button
                             onClick={() => {
                               setSelectedCollection(null);
-                              setPhotos([]);
                               setSelectedPhotos([]);
                             }}
                             className="text-sm text-indigo-600 hover:text-indigo-700 flex items-center gap-1"
@@ -546,17 +473,15 @@ const ClientDashboard: React.FC = () => {
                       <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
                         {collections.map((collection) => (
                           <div
-                            key={collection.collectionId}
+                            key={collection.id}
                             className="bg-white border border-gray-200 rounded-lg overflow-hidden hover:shadow-lg transition-shadow cursor-pointer fade-in"
-                            onClick={() =>
-                              viewCollectionPhotos(collection.collectionId)
-                            }
+                            onClick={() => viewCollectionPhotos(collection.id)}
                           >
                             {/* Collection Thumbnail */}
                             <div className="w-full h-48 bg-gray-100 flex items-center justify-center">
-                              {collection.thumbnailDataB64 ? (
-                                <img
-                                  src={`data:image/jpeg;base64,${collection.thumbnailDataB64}`}
+                              {hasThumbnail(collection) ? (
+                                <Thumbnail
+                                  source={collection}
                                   alt={collection.name}
                                   className="w-full h-full object-cover"
                                 />
@@ -598,10 +523,26 @@ const ClientDashboard: React.FC = () => {
                                 </span>
                               </div>
 
-                              <div>
+                              <div className="space-y-2">
                                 <button className="w-full bg-indigo-600 hover:bg-indigo-700 text-white px-4 py-2 rounded-md transition-medium transform-smooth hover:-translate-y-0.5 text-sm">
                                   View Photos
                                 </button>
+                                <OfflinePinButton
+                                  collection={collection}
+                                  loadPhotos={() =>
+                                    queryCache.fetch(
+                                      photosKey(collection.id),
+                                      () =>
+                                        fetchCollectionPhotos(collection.id),
+                                      {
+                                        tags: [
+                                          "photos",
+                                          `collection:${collection.id}`,
+                                        ],
+                                      }
+                                    )
+                                  }
+                                />
                               </div>
                             </div>
                           </div>
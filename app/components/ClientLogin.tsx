@@ -1,16 +1,13 @@
 "use client";
 
 import { useState } from "react";
-import axios from "axios";
+import { clientApi, getErrorMessage } from "../lib/api";
 import toast, { Toaster } from "react-hot-toast";
 
 interface ClientLoginProps {
   onSuccess: (token: string, clientInfo: any) => void;
 }
 
-const API_BASE_URL =
-  process.env.NEXT_PUBLIC_API_BASE_URL || "http://localhost:6002/api";
-
 export default function ClientLogin({ onSuccess }: ClientLoginProps) {
   const [username, setUsername] = useState("");
   const [password, setPassword] = useState("");
@@ -27,18 +24,18 @@ export default function ClientLogin({ onSuccess }: ClientLoginProps) {
     setLoading(true);
 
     try {
-      const response = await axios.post(`${API_BASE_URL}/client/login`, {
+      const data = await clientApi.tokenLogin({
         username: username.trim(),
         password: password.trim(),
       });
 
-      if (response.data.success) {
+      if (data.success) {
         toast.success("Login successful!");
-        onSuccess(response.data.token, response.data.client);
+        onSuccess(data.token, data.client);
       }
-    } catch (error: any) {
+    } catch (error) {
       console.error("Login error:", error);
-      const message = error.response?.data?.message || "Login failed";
+      const message = getErrorMessage(error, "Login failed");
       toast.error(message);
     } finally {
       setLoading(false);
@@ -1,16 +1,13 @@
 "use client";
 
 import { useState } from "react";
-import axios from "axios";
+import { clientApi, getErrorMessage } from "../lib/api";
 import toast, { Toaster } from "react-hot-toast";
 
 interface ClientRegistrationProps {
   onSuccess: (token: string, clientInfo: any) => void;
 }
 
-const API_BASE_URL =
-  process.env.NEXT_PUBLIC_API_BASE_URL || "http://localhost:6002/api";
-
 export default function ClientRegistration({
   onSuccess,
 }: ClientRegistrationProps) {
@@ -29,26 +26,20 @@ export default function ClientRegistration({
     setLoading(true);
 
     try {
-      const response = await axios.post(
-        `${API_BASE_URL}/client/generate-credentials`,
-        {
-          email: email.trim(),
-        }
-      );
-
-      if (response.data.success) {
-        setCredentials(response.data.credentials);
+      const data = await clientApi.generateCredentials(email.trim());
+
+      if (data.success) {
+        setCredentials(data.credentials);
         toast.success("Credentials generated successfully!");
 
         // Wait a moment to show the credentials before proceeding
         setTimeout(() => {
-          onSuccess(response.data.token, response.data.credentials);
+          onSuccess(data.token, data.credentials);
         }, 3000);
       }
-    } catch (error: any) {
+    } catch (error) {
       console.error("Registration error:", error);
-      const message =
-        error.response?.data?.message || "Failed to generate credentials";
+      const message = getErrorMessage(error, "Failed to generate credentials");
       toast.error(message);
     } finally {
       setLoading(false);
@@ -0,0 +1,56 @@
+"use client";
+
+import React from "react";
+import { useRealtimeStatus } from "../context/RealtimeContext";
+import { ConnectionState } from "../lib/realtime";
+
+const BADGES: Record<
+  Exclude<ConnectionState, "idle">,
+  { label: string; title: string; className: string; dot: string }
+> = {
+  connecting: {
+    label: "Connecting",
+    title: "Connecting to live updates",
+    className: "text-gray-600 dark:text-gray-300",
+    dot: "bg-gray-400 animate-pulse",
+  },
+  live: {
+    label: "Live",
+    title: "Changes appear as soon as they happen",
+    className: "text-green-700 dark:text-green-400",
+    dot: "bg-green-500",
+  },
+  degraded: {
+    label: "Reconnecting",
+    title:
+      "Live updates are down; the page refreshes itself periodically until they're back",
+    className: "text-yellow-700 dark:text-yellow-400",
+    dot: "bg-yellow-500 animate-pulse",
+  },
+  offline: {
+    label: "Offline",
+    title: "You're offline; what you see may be out of date",
+    className: "text-red-700 dark:text-red-400",
+    dot: "bg-red-500",
+  },
+};
+
+/** Live-update status; hidden on pages that don't use live updates */
+const ConnectionBadge: React.FC = () => {
+  const { state } = useRealtimeStatus();
+  if (state === "idle") return null;
+
+  const badge = BADGES[state];
+  return (
+    <span
+      className={`flex items-center gap-1.5 text-xs font-medium px-2 py-1 rounded-full bg-gray-100 dark:bg-gray-800 ${badge.className}`}
+      title={badge.title}
+      role="status"
+    >
+      <span className={`w-2 h-2 rounded-full ${badge.dot}`} />
+      {badge.label}
+    </span>
+  );
+};
+
+export default ConnectionBadge;
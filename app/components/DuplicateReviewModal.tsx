@@ -0,0 +1,145 @@
+"use client";
+
+import React, { useEffect, useState } from "react";
+import {
+  DUPLICATE_ACTION_LABELS,
+  DuplicateAction,
+  DuplicateMatch,
+} from "../lib/duplicates";
+import { formatFileSize } from "../lib/format";
+import Thumbnail from "./Thumbnail";
+
+interface DuplicateReviewModalProps {
+  matches: DuplicateMatch[];
+  /** One action per match, in the same order */
+  onConfirm: (actions: DuplicateAction[]) => void;
+  onCancel: () => void;
+}
+
+const actions = Object.keys(DUPLICATE_ACTION_LABELS) as DuplicateAction[];
+
+// Object URL for a file that hasn't been uploaded yet
+const LocalPreview: React.FC<{ blob: Blob; alt: string }> = ({ blob, alt }) => {
+  const [src, setSrc] = useState<string | null>(null);
+
+  useEffect(() => {
+    const url = URL.createObjectURL(blob);
+    setSrc(url);
+    return () => URL.revokeObjectURL(url);
+  }, [blob]);
+
+  if (!src) return <div className="w-16 h-16 rounded bg-gray-200" />;
+  return <img src={src} alt={alt} className="w-16 h-16 object-cover rounded" />;
+};
+
+/**
+ * Review step shown before uploading files the target collection already
+ * has. Exact copies default to skip, look-alikes to keep both.
+ */
+const DuplicateReviewModal: React.FC<DuplicateReviewModalProps> = ({
+  matches,
+  onConfirm,
+  onCancel,
+}) => {
+  const [choices, setChoices] = useState<DuplicateAction[]>(() =>
+    matches.map((match) => (match.exact ? "skip" : "keep"))
+  );
+
+  const setChoice = (index: number, action: DuplicateAction) =>
+    setChoices((prev) =>
+      prev.map((choice, i) => (i === index ? action : choice))
+    );
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-lg p-6 max-w-2xl w-full mx-4">
+        <h3 className="text-xl font-bold mb-2">Possible duplicates</h3>
+        <p className="text-gray-600 mb-4">
+          {matches.length} of the selected photo(s) already seem to be in this
+          collection.
+        </p>
+
+        <div className="flex gap-2 mb-3 text-sm">
+          <span className="text-gray-500">Apply to all:</span>
+          {actions.map((action) => (
+            <button
+              key={action}
+              type="button"
+              onClick={() => setChoices(matches.map(() => action))}
+              className="text-indigo-600 hover:text-indigo-800"
+            >
+              {DUPLICATE_ACTION_LABELS[action]}
+            </button>
+          ))}
+        </div>
+
+        <ul className="max-h-96 overflow-y-auto space-y-3 mb-4">
+          {matches.map((match, index) => {
+            const { upload, photos } = match;
+            return (
+              <li
+                key={`${upload.source.name}-${index}`}
+                className="border border-gray-200 rounded-md p-3"
+              >
+                <div className="flex items-center gap-3">
+                  <LocalPreview
+                    blob={upload.thumbnail ?? upload.source}
+                    alt={upload.source.name}
+                  />
+                  <span className="text-gray-400">≈</span>
+                  <Thumbnail
+                    source={photos[0]}
+                    alt={photos[0].originalName}
+                    className="w-16 h-16 object-cover rounded"
+                  />
+                  <div className="min-w-0 flex-1 text-sm">
+                    <p className="font-medium text-gray-800 truncate">
+                      {upload.source.name}
+                    </p>
+                    <p className="text-gray-500 truncate">
+                      {match.exact ? "Exact copy of" : "Looks like"}{" "}
+                      {photos[0].originalName} ({formatFileSize(photos[0].size)}
+                      ){photos.length > 1 && ` and ${photos.length - 1} more`}
+                    </p>
+                  </div>
+                </div>
+
+                <div className="flex gap-4 mt-2 text-sm">
+                  {actions.map((action) => (
+                    <label key={action} className="flex items-center">
+                      <input
+                        type="radio"
+                        name={`duplicate-${index}`}
+                        checked={choices[index] === action}
+                        onChange={() => setChoice(index, action)}
+                        className="mr-1"
+                      />
+                      {DUPLICATE_ACTION_LABELS[action]}
+                    </label>
+                  ))}
+                </div>
+              </li>
+            );
+          })}
+        </ul>
+
+        <div className="flex justify-end gap-2">
+          <button
+            onClick={onCancel}
+            className="px-4 py-2 border border-gray-300 rounded-md hover:bg-gray-50 transition-colors"
+          >
+            Cancel upload
+          </button>
+          <button
+            onClick={() => onConfirm(choices)}
+            className="px-4 py-2 bg-indigo-600 text-white rounded-md hover:bg-indigo-700 transition-colors"
+          >
+            Continue
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default DuplicateReviewModal;
@@ -0,0 +1,168 @@
+"use client";
+
+import React, { useState } from "react";
+import { FolderPlan } from "../lib/folderDrop";
+import { Collection } from "../lib/models";
+
+/** Where one dropped folder ends up */
+export type FolderTarget =
+  | { type: "new"; name: string }
+  | { type: "existing"; collectionId: string };
+
+export interface FolderMapping {
+  plan: FolderPlan;
+  target: FolderTarget;
+}
+
+interface FolderMappingModalProps {
+  plans: FolderPlan[];
+  collections: Collection[];
+  /** Collection picked in the upload form, used for loose files */
+  defaultCollectionId?: string;
+  skipped: number;
+  onConfirm: (mappings: FolderMapping[]) => void;
+  onCancel: () => void;
+}
+
+const NEW_COLLECTION = "__new__";
+
+// Folders that share a name with an existing collection go into it
+const initialTarget = (
+  plan: FolderPlan,
+  collections: Collection[],
+  defaultCollectionId?: string
+): FolderTarget => {
+  const existing = plan.folder
+    ? collections.find((collection) => collection.name === plan.folder)
+    : collections.find((collection) => collection.id === defaultCollectionId);
+  return existing
+    ? { type: "existing", collectionId: existing.id }
+    : { type: "new", name: plan.folder ?? "Dropped photos" };
+};
+
+/**
+ * Preview of how a dropped folder tree maps onto collections and sections,
+ * with a chance to change it before anything is uploaded.
+ */
+const FolderMappingModal: React.FC<FolderMappingModalProps> = ({
+  plans,
+  collections,
+  defaultCollectionId,
+  skipped,
+  onConfirm,
+  onCancel,
+}) => {
+  const [targets, setTargets] = useState<FolderTarget[]>(() =>
+    plans.map((plan) => initialTarget(plan, collections, defaultCollectionId))
+  );
+
+  const setTarget = (index: number, target: FolderTarget) =>
+    setTargets((prev) => prev.map((t, i) => (i === index ? target : t)));
+
+  const isValid = targets.every(
+    (target) => target.type === "existing" || target.name.trim()
+  );
+  const fileCount = plans.reduce((sum, plan) => sum + plan.fileCount, 0);
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-lg p-6 max-w-2xl w-full mx-4">
+        <h3 className="text-xl font-bold mb-2">Upload folders</h3>
+        <p className="text-gray-600 mb-4">
+          {fileCount} photo(s) in {plans.length} folder(s).
+          {skipped > 0 && ` ${skipped} non-image file(s) will be left out.`}
+        </p>
+
+        <ul className="max-h-96 overflow-y-auto space-y-3 mb-4">
+          {plans.map((plan, index) => {
+            const target = targets[index];
+            return (
+              <li
+                key={plan.folder ?? ""}
+                className="border border-gray-200 rounded-md p-3"
+              >
+                <div className="flex flex-col sm:flex-row sm:items-center gap-2">
+                  <span className="font-medium text-gray-800 truncate sm:w-1/3">
+                    📁 {plan.folder ?? "Loose files"}
+                  </span>
+                  <span className="text-gray-400 hidden sm:inline">→</span>
+                  <select
+                    value={
+                      target.type === "new"
+                        ? NEW_COLLECTION
+                        : target.collectionId
+                    }
+                    onChange={(e) =>
+                      setTarget(
+                        index,
+                        e.target.value === NEW_COLLECTION
+                          ? {
+                              type: "new",
+                              name: plan.folder ?? "Dropped photos",
+                            }
+                          : { type: "existing", collectionId: e.target.value }
+                      )
+                    }
+                    className="flex-1 px-2 py-1 border border-gray-300 rounded-md text-sm"
+                  >
+                    <option value={NEW_COLLECTION}>New collection</option>
+                    {collections.map((collection) => (
+                      <option key={collection.id} value={collection.id}>
+                        {collection.name}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+
+                {target.type === "new" && (
+                  <input
+                    type="text"
+                    value={target.name}
+                    onChange={(e) =>
+                      setTarget(index, { type: "new", name: e.target.value })
+                    }
+                    placeholder="Collection name"
+                    className="w-full mt-2 px-2 py-1 border border-gray-300 rounded-md text-sm"
+                  />
+                )}
+
+                <ul className="mt-2 text-xs text-gray-600 space-y-0.5">
+                  {plan.sections.map((section) => (
+                    <li key={section.name ?? ""}>
+                      {section.name
+                        ? `Section “${section.name}”`
+                        : "No section"}
+                      : {section.files.length} photo(s)
+                    </li>
+                  ))}
+                </ul>
+              </li>
+            );
+          })}
+        </ul>
+
+        <div className="flex justify-end gap-2">
+          <button
+            onClick={onCancel}
+            className="px-4 py-2 border border-gray-300 rounded-md hover:bg-gray-50 transition-colors"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={() =>
+              onConfirm(
+                plans.map((plan, index) => ({ plan, target: targets[index] }))
+              )
+            }
+            disabled={!isValid}
+            className="px-4 py-2 bg-indigo-600 text-white rounded-md hover:bg-indigo-700 disabled:opacity-50 transition-colors"
+          >
+            Upload {fileCount} photo(s)
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default FolderMappingModal;
@@ -1,9 +1,16 @@
 "use client";
 
 import React from "react";
+import Link from "next/link";
+import { useAuth } from "../context/AuthContext";
 import DarkModeToggle from "./DarkModeToggle";
+import ConnectionBadge from "./ConnectionBadge";
 
 const GlobalHeader: React.FC = () => {
+  const { user } = useAuth();
+  // Two-factor settings are only offered to the roles that need them
+  const showSecurity = user?.role === "admin" || user?.role === "photographer";
+
   return (
     <header className="w-full site-header">
       <div className="app-container flex items-center justify-between py-2">
@@ -17,6 +24,23 @@ const GlobalHeader: React.FC = () => {
         </div>
 
         <div className="flex items-center gap-2">
+          <ConnectionBadge />
+          {user && (
+            <Link
+              href="/sessions"
+              className="px-3 py-2 rounded-lg text-sm bg-gray-200 dark:bg-gray-700 text-gray-700 dark:text-gray-200 hover:bg-gray-300 dark:hover:bg-gray-600 transition-colors duration-200"
+            >
+              💻 Sessions
+            </Link>
+          )}
+          {showSecurity && (
+            <Link
+              href="/security"
+              className="px-3 py-2 rounded-lg text-sm bg-gray-200 dark:bg-gray-700 text-gray-700 dark:text-gray-200 hover:bg-gray-300 dark:hover:bg-gray-600 transition-colors duration-200"
+            >
+              🔐 Security
+            </Link>
+          )}
           <DarkModeToggle />
         </div>
       </div>
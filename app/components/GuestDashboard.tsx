@@ -1,89 +1,66 @@
 "use client";
 
-import React, { useState, useEffect } from "react";
+import React, { useState } from "react";
 import { useAuth } from "../context/AuthContext";
-import axios from "axios";
+import { guestApi, getErrorMessage } from "../lib/api";
+import { GuestPhoto } from "../lib/models";
+import { base64ToBlob } from "../lib/blob";
+import { savePhoto } from "../lib/download";
+import { mimeTypeOfBase64 } from "../lib/imaging/format";
+import Thumbnail from "./Thumbnail";
 import { useSSE } from "../hooks/useSSE";
+import { useQuery } from "../hooks/useQuery";
+import { removeById } from "../lib/realtime";
+import { queryCache } from "../lib/query";
 
-interface Photo {
-  id: string;
-  filename: string;
-  originalName: string;
-  thumbnailDataB64: string;
-  photoDataB64: string;
-  uploadedAt: string;
-  size: number;
-  mimetype: string;
-}
+const PHOTOS_KEY = "guest/photos";
 
 const GuestDashboard: React.FC = () => {
   const { user, logout } = useAuth();
-  const [photos, setPhotos] = useState<Photo[]>([]);
-  const [selectedPhoto, setSelectedPhoto] = useState<Photo | null>(null);
-  const [isLoading, setIsLoading] = useState(false);
+  const photosQuery = useQuery(
+    PHOTOS_KEY,
+    async () => (await guestApi.listPhotos()).photos,
+    { tags: ["photos"] }
+  );
+  const photos = photosQuery.data ?? [];
+  const isLoading = photosQuery.isLoading;
+  const [selectedPhoto, setSelectedPhoto] = useState<GuestPhoto | null>(null);
   const [error, setError] = useState("");
 
-  const API_BASE_URL =
-    process.env.NEXT_PUBLIC_API_BASE_URL || "http://localhost:6002/api";
-
-  // Server-Sent Events for real-time updates
+  // Server-Sent Events for real-time updates. Removals are applied in
+  // place; new photos need a fetch since guests get the image inline.
   useSSE({
-    onPhotoEvent: () => {
-      fetchPhotos();
+    onEvent: (event) => {
+      switch (event.type) {
+        case "photo.deleted":
+        case "photo.expired":
+          queryCache.setData<GuestPhoto[]>(
+            PHOTOS_KEY,
+            (prev) => prev && removeById(prev, event.data.photoId)
+          );
+          break;
+        case "photo.created":
+        case "photo.updated":
+          queryCache.invalidate("photos");
+          break;
+      }
     },
+    onGap: () => queryCache.invalidate("photos"),
     onConnected: () => {
       console.log("✅ Guest real-time updates connected");
     },
   });
 
-  useEffect(() => {
-    fetchPhotos();
-  }, []);
-
-  // Fallback polling every 15 minutes
-  useEffect(() => {
-    const interval = setInterval(() => {
-      console.log("🔄 Periodic refresh (15min fallback)...");
-      fetchPhotos();
-    }, 15 * 60 * 1000); // 15 minutes
-
-    return () => clearInterval(interval);
-  }, []);
-
-  const fetchPhotos = async () => {
-    setIsLoading(true);
-    try {
-      const response = await axios.get(`${API_BASE_URL}/guest/photos`);
-      if (response.data.success) {
-        setPhotos(response.data.photos);
-      }
-    } catch (error: any) {
-      setError(error.response?.data?.message || "Failed to fetch photos");
-    } finally {
-      setIsLoading(false);
-    }
-  };
+  const fetchError = photosQuery.error
+    ? getErrorMessage(photosQuery.error, "Failed to fetch photos")
+    : "";
 
-  const downloadPhoto = async (photo: Photo) => {
+  const downloadPhoto = async (photo: GuestPhoto) => {
     try {
-      // Convert base64 to blob
-      const byteCharacters = atob(photo.photoDataB64);
-      const byteNumbers = new Array(byteCharacters.length);
-      for (let i = 0; i < byteCharacters.length; i++) {
-        byteNumbers[i] = byteCharacters.charCodeAt(i);
-      }
-      const byteArray = new Uint8Array(byteNumbers);
-      const blob = new Blob([byteArray], { type: photo.mimetype });
-
-      // Create download link
-      const url = window.URL.createObjectURL(blob);
-      const link = document.createElement("a");
-      link.href = url;
-      link.download = photo.originalName;
-      document.body.appendChild(link);
-      link.click();
-      document.body.removeChild(link);
-      window.URL.revokeObjectURL(url);
+      await savePhoto(
+        base64ToBlob(photo.photoDataB64, photo.mimetype),
+        photo.originalName
+      );
     } catch (error) {
       console.error("Download failed:", error);
       setError("Failed to download photo");
@@ -183,9 +160,9 @@ const GuestDashboard: React.FC = () => {
 
       <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
         {/* Error Message */}
-        {error && (
+        {(error || fetchError) && (
           <div className="mb-6 bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-md">
-            {error}
+            {error || fetchError}
           </div>
         )}
 
@@ -229,8 +206,8 @@ const GuestDashboard: React.FC = () => {
                       className="aspect-square bg-gray-200 rounded-lg overflow-hidden cursor-pointer"
                       onClick={() => setSelectedPhoto(photo)}
                     >
-                      <img
-                        src={`data:image/jpeg;base64,${photo.thumbnailDataB64}`}
+                      <Thumbnail
+                        source={photo}
                         alt={photo.originalName}
                         className="w-full h-full object-cover group-hover:scale-105 transition-transform duration-200"
                       />
@@ -306,7 +283,10 @@ const GuestDashboard: React.FC = () => {
 
             <div className="p-4 max-h-96 overflow-auto">
               <img
-                src={`data:${selectedPhoto.mimetype};base64,${selectedPhoto.photoDataB64}`}
+                src={`data:${mimeTypeOfBase64(
+                  selectedPhoto.photoDataB64,
+                  selectedPhoto.mimetype
+                )};base64,${selectedPhoto.photoDataB64}`}
                 alt={selectedPhoto.originalName}
                 className="max-w-full h-auto mx-auto"
                 onClick={(e) => e.stopPropagation()}
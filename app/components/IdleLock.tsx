@@ -0,0 +1,104 @@
+"use client";
+
+import React, { useEffect, useRef, useState } from "react";
+import { useAuth } from "../context/AuthContext";
+import { idleMonitor, IDLE_TIMEOUTS, IdleState } from "../lib/session";
+import ReauthForm from "./ReauthForm";
+
+const formatRemaining = (ms: number) => {
+  const seconds = Math.max(0, Math.ceil(ms / 1000));
+  return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, "0")}`;
+};
+
+/**
+ * Blurs the page behind a lock screen once the signed-in user has been
+ * idle for their role's timeout, and signs them out if they don't come
+ * back. Signing out clears the cached photos along with everything else.
+ * Admins and photographers sign in again to unlock; anyone at the keyboard
+ * could otherwise carry on as them.
+ */
+const IdleLock: React.FC = () => {
+  const { user, logout } = useAuth();
+  const [state, setState] = useState<IdleState>(idleMonitor.state);
+  const [now, setNow] = useState(() => Date.now());
+  const role = user?.role;
+
+  // A new function each render; the subscription below must call it once
+  const logoutRef = useRef(logout);
+  useEffect(() => {
+    logoutRef.current = logout;
+  }, [logout]);
+
+  useEffect(
+    () =>
+      idleMonitor.subscribe((next) => {
+        setState(next);
+        if (next === "expired") {
+          console.log("💤 Signing out after inactivity");
+          logoutRef.current();
+        }
+      }),
+    []
+  );
+
+  useEffect(() => {
+    if (!role) return;
+    idleMonitor.start(IDLE_TIMEOUTS[role]);
+    return () => idleMonitor.stop();
+  }, [role]);
+
+  // Count down to the sign-out while locked
+  useEffect(() => {
+    if (state !== "locked") return;
+    setNow(Date.now());
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [state]);
+
+  if (!user || state !== "locked") return null;
+
+  const logoutAt = idleMonitor.logoutAt;
+  const needsSignIn = user.role === "admin" || user.role === "photographer";
+
+  return (
+    <div className="fixed inset-0 z-[60] backdrop-blur-2xl bg-gray-900/40 flex items-center justify-center">
+      <div className="bg-white rounded-lg p-6 max-w-md w-full mx-4 text-gray-900 text-center">
+        <h3 className="text-xl font-bold mb-2">🔒 Locked for privacy</h3>
+        <p className="text-sm text-gray-600 mb-4">
+          This page was hidden after a period of inactivity.
+          {needsSignIn && " Sign in again to unlock it."}
+          {logoutAt !== null && (
+            <>
+              {" "}
+              <strong>{user.username}</strong> will be signed out in{" "}
+              <strong className="font-mono">
+                {formatRemaining(logoutAt - now)}
+              </strong>
+              .
+            </>
+          )}
+        </p>
+        {needsSignIn ? (
+          <ReauthForm onSignedIn={() => idleMonitor.unlock()} />
+        ) : (
+          <div className="flex justify-center gap-2">
+            <button
+              onClick={logout}
+              className="px-4 py-2 border border-gray-300 rounded-md hover:bg-gray-50 transition-colors"
+            >
+              Sign out now
+            </button>
+            <button
+              onClick={() => idleMonitor.unlock()}
+              className="px-4 py-2 bg-indigo-600 text-white rounded-md hover:bg-indigo-700 transition-colors"
+            >
+              I&apos;m still here
+            </button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default IdleLock;
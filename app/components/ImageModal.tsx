@@ -5,14 +5,18 @@ import { useSwipeable } from "react-swipeable";
 
 interface ImageModalProps {
   currentImage: number;
-  images: string[]; // Base64 data URLs
+  images: string[]; // Full-size object URLs, or thumbnails until loaded
   onClose: () => void;
+  onIndexChange?: (index: number) => void;
+  isImageLoading?: (index: number) => boolean;
 }
 
 const ImageModal: React.FC<ImageModalProps> = ({
   currentImage,
   images,
   onClose,
+  onIndexChange,
+  isImageLoading,
 }) => {
   const [currentIndex, setCurrentIndex] = useState(currentImage);
   const [isChanging, setIsChanging] = useState(false);
@@ -129,6 +133,11 @@ const ImageModal: React.FC<ImageModalProps> = ({
     setCurrentIndex(currentImage);
   }, [currentImage]);
 
+  // Let the parent load the new image and its neighbours
+  useEffect(() => {
+    onIndexChange?.(currentIndex);
+  }, [currentIndex]);
+
   useEffect(() => {
     const imgContainer = document.getElementById("image-container");
     imgContainer?.addEventListener("wheel", handleWheel, { passive: false });
@@ -213,6 +222,12 @@ const ImageModal: React.FC<ImageModalProps> = ({
             draggable={false}
           />
         </div>
+        {isImageLoading?.(currentIndex) && (
+          <div className="absolute top-5 left-5 flex items-center gap-2 text-white text-sm bg-black/50 px-3 py-1.5 rounded-full z-10">
+            <div className="w-4 h-4 border-2 border-white/30 border-t-white rounded-full animate-spin" />
+            Loading full size...
+          </div>
+        )}
         <div className="absolute bottom-5 text-white text-sm">
           {currentIndex + 1} / {images.length}
         </div>
@@ -0,0 +1,168 @@
+"use client";
+
+import React, { useEffect, useState } from "react";
+import {
+  inspectMetadata,
+  isStripped,
+  METADATA_GROUP_LABELS,
+  MetadataField,
+  MetadataGroup,
+  StripOptions,
+} from "../lib/metadata";
+
+interface MetadataScrubPanelProps {
+  files: File[];
+  options: StripOptions;
+  onChange: (options: StripOptions) => void;
+  disabled?: boolean;
+}
+
+interface FileReport {
+  name: string;
+  fields: MetadataField[];
+  error?: string;
+}
+
+const groups = Object.keys(METADATA_GROUP_LABELS) as MetadataGroup[];
+
+/**
+ * Field-group toggles plus a preview of the metadata found in the selected
+ * files, so the photographer can see what leaves the browser.
+ */
+const MetadataScrubPanel: React.FC<MetadataScrubPanelProps> = ({
+  files,
+  options,
+  onChange,
+  disabled = false,
+}) => {
+  const [reports, setReports] = useState<FileReport[]>([]);
+  const [isScanning, setIsScanning] = useState(false);
+  const [showDetails, setShowDetails] = useState(false);
+
+  // Scan one file at a time; large shoots shouldn't all sit in memory at once
+  useEffect(() => {
+    let cancelled = false;
+    setReports([]);
+    setIsScanning(false);
+    if (files.length === 0) return;
+
+    const scan = async () => {
+      setIsScanning(true);
+      for (const file of files) {
+        let report: FileReport;
+        try {
+          report = { name: file.name, fields: await inspectMetadata(file) };
+        } catch (error) {
+          report = {
+            name: file.name,
+            fields: [],
+            error: (error as Error).message,
+          };
+        }
+        if (cancelled) return;
+        setReports((prev) => [...prev, report]);
+      }
+      setIsScanning(false);
+    };
+
+    scan();
+    return () => {
+      cancelled = true;
+    };
+  }, [files]);
+
+  const filesWith = (group: MetadataGroup) =>
+    reports.filter((report) =>
+      report.fields.some((field) => field.group === group)
+    ).length;
+
+  const toggle = (group: MetadataGroup) =>
+    onChange({ ...options, [group]: !options[group] });
+
+  return (
+    <div className="border border-gray-200 rounded-md p-3 bg-white">
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+        {groups.map((group) => (
+          <label
+            key={group}
+            className="flex items-center justify-between text-sm text-gray-700"
+          >
+            <span className="flex items-center">
+              <input
+                type="checkbox"
+                checked={options[group]}
+                onChange={() => toggle(group)}
+                disabled={disabled}
+                className="mr-2"
+              />
+              Remove {METADATA_GROUP_LABELS[group].toLowerCase()}
+            </span>
+            {files.length > 0 && (
+              <span className="text-xs text-gray-500">
+                found in {filesWith(group)}/{files.length}
+              </span>
+            )}
+          </label>
+        ))}
+      </div>
+
+      {files.length > 0 && (
+        <div className="mt-3 text-xs">
+          {isScanning && (
+            <p className="text-gray-500">
+              Checking metadata ({reports.length}/{files.length})...
+            </p>
+          )}
+          {reports.some((report) => report.error) && (
+            <p className="text-red-600">
+              Some files couldn&apos;t be read and will block the upload while
+              stripping is on.
+            </p>
+          )}
+          <button
+            type="button"
+            onClick={() => setShowDetails(!showDetails)}
+            className="text-indigo-600 hover:text-indigo-800 mt-1"
+          >
+            {showDetails ? "Hide details" : "Show what will be removed"}
+          </button>
+
+          {showDetails && (
+            <ul className="mt-2 max-h-64 overflow-y-auto space-y-2">
+              {reports.map((report, index) => {
+                const removed = report.fields.filter((field) =>
+                  isStripped(field, options)
+                );
+                return (
+                  <li key={`${report.name}-${index}`}>
+                    <p className="font-medium text-gray-800 truncate">
+                      {report.name}
+                    </p>
+                    {report.error ? (
+                      <p className="text-red-600">{report.error}</p>
+                    ) : removed.length === 0 ? (
+                      <p className="text-gray-500">Nothing to remove</p>
+                    ) : (
+                      <ul className="text-gray-600">
+                        {removed.map((field, fieldIndex) => (
+                          <li key={fieldIndex} className="truncate">
+                            <span className="text-gray-400">
+                              {METADATA_GROUP_LABELS[field.group]} ·{" "}
+                            </span>
+                            {field.name}: {field.value}
+                          </li>
+                        ))}
+                      </ul>
+                    )}
+                  </li>
+                );
+              })}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default MetadataScrubPanel;
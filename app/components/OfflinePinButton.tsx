@@ -0,0 +1,79 @@
+"use client";
+
+import React, { useEffect, useState } from "react";
+import { getErrorMessage } from "../lib/api";
+import { Collection, Photo } from "../lib/models";
+import {
+  isPinned,
+  pinCollection,
+  PinProgress,
+  subscribeToPins,
+  unpinCollection,
+} from "../lib/offlinePins";
+
+interface OfflinePinButtonProps {
+  collection: Collection;
+  loadPhotos: () => Promise<Photo[]>;
+}
+
+/**
+ * Opt-in toggle for keeping a collection's thumbnails, and the full-size
+ * photos viewed from it, on this device until the collection expires.
+ */
+const OfflinePinButton: React.FC<OfflinePinButtonProps> = ({
+  collection,
+  loadPhotos,
+}) => {
+  const [, setVersion] = useState(0);
+  const [progress, setProgress] = useState<PinProgress | null>(null);
+  const [error, setError] = useState("");
+  const pinned = isPinned(collection.id);
+
+  useEffect(() => subscribeToPins(() => setVersion((v) => v + 1)), []);
+
+  const handleClick = async (e: React.MouseEvent) => {
+    // The card around it opens the collection
+    e.stopPropagation();
+    setError("");
+
+    if (pinned) {
+      await unpinCollection(collection.id);
+      return;
+    }
+
+    setProgress({ done: 0, total: 0 });
+    try {
+      await pinCollection(collection, await loadPhotos(), setProgress);
+    } catch (error) {
+      console.error("❌ Failed to keep collection offline:", error);
+      setError(getErrorMessage(error, "Couldn't save it for offline viewing"));
+      await unpinCollection(collection.id);
+    } finally {
+      setProgress(null);
+    }
+  };
+
+  return (
+    <div>
+      <button
+        onClick={handleClick}
+        disabled={progress !== null}
+        title={pinned ? "Remove the copy kept on this device" : undefined}
+        className={`w-full px-4 py-2 rounded-md text-sm border transition-colors disabled:opacity-50 ${
+          pinned
+            ? "border-green-300 text-green-700 hover:bg-green-50"
+            : "border-gray-300 text-gray-700 hover:bg-gray-50"
+        }`}
+      >
+        {progress
+          ? `Saving ${progress.done}/${progress.total}...`
+          : pinned
+          ? "✓ Available offline"
+          : "📥 Keep offline"}
+      </button>
+      {error && <p className="text-xs text-red-600 mt-1">{error}</p>}
+    </div>
+  );
+};
+
+export default OfflinePinButton;
@@ -0,0 +1,63 @@
+"use client";
+
+import React, { useEffect } from "react";
+import { purgeExpiredPins } from "../lib/offlinePins";
+import { pruneThumbnails } from "../lib/thumbnails";
+
+// Long timeouts overflow, and a sleeping laptop delays them anyway
+const MAX_PURGE_INTERVAL = 60 * 60 * 1000;
+
+/**
+ * Registers the app-shell service worker and deletes offline collections
+ * the moment their `autoDeleteAt` passes, sweeping cached thumbnails on
+ * the way. Renders nothing.
+ */
+const OfflineSupport: React.FC = () => {
+  useEffect(() => {
+    // The dev server rebuilds assets on the fly; caching them would go stale
+    if (
+      process.env.NODE_ENV !== "production" ||
+      !("serviceWorker" in navigator)
+    ) {
+      return;
+    }
+    navigator.serviceWorker
+      .register("/sw.js")
+      .catch((error) =>
+        console.error("Service worker registration failed:", error)
+      );
+  }, []);
+
+  useEffect(() => {
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    let cancelled = false;
+
+    const purge = async () => {
+      let next: number | null = null;
+      try {
+        next = await purgeExpiredPins();
+      } catch (error) {
+        console.error("Failed to purge offline collections:", error);
+      }
+      pruneThumbnails().catch((error) =>
+        console.warn("Failed to prune thumbnails:", error)
+      );
+      if (cancelled) return;
+      const delay =
+        next === null
+          ? MAX_PURGE_INTERVAL
+          : Math.min(Math.max(next - Date.now(), 1000), MAX_PURGE_INTERVAL);
+      timer = setTimeout(purge, delay);
+    };
+
+    purge();
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, []);
+
+  return null;
+};
+
+export default OfflineSupport;
@@ -1,24 +1,15 @@
 "use client";
 
 import { useState, useEffect } from "react";
-import axios from "axios";
+import { photosApi, getErrorMessage, SharedPhotoDto } from "../lib/api";
+import { formatFileSize } from "../lib/format";
 import toast, { Toaster } from "react-hot-toast";
 
-interface Photo {
-  id: string;
-  filename: string;
-  originalName: string;
-  size: number;
-  shareToken: string;
-  shareUrl: string;
-  uploadedAt: string;
-}
+type Photo = SharedPhotoDto;
 
 interface PhotoGalleryProps {
   token: string;
 }
-const API_BASE_URL =
-  process.env.NEXT_PUBLIC_API_BASE_URL || "http://localhost:6002/api";
 
 export default function PhotoGallery({ token }: PhotoGalleryProps) {
   const [photos, setPhotos] = useState<Photo[]>([]);
@@ -26,18 +17,14 @@ export default function PhotoGallery({ token }: PhotoGalleryProps) {
 
   const fetchPhotos = async () => {
     try {
-      const response = await axios.get(`${API_BASE_URL}/photos/my-photos`, {
-        headers: {
-          Authorization: `Bearer ${token}`,
-        },
-      });
-
-      if (response.data.success) {
-        setPhotos(response.data.photos);
+      const data = await photosApi.listMine(token);
+
+      if (data.success) {
+        setPhotos(data.photos);
       }
-    } catch (error: any) {
+    } catch (error) {
       console.error("Fetch photos error:", error);
-      const message = error.response?.data?.message || "Failed to load photos";
+      const message = getErrorMessage(error, "Failed to load photos");
       toast.error(message);
     } finally {
       setLoading(false);
@@ -50,20 +37,16 @@ export default function PhotoGallery({ token }: PhotoGalleryProps) {
     }
 
     try {
-      const response = await axios.delete(`${API_BASE_URL}/photos/${photoId}`, {
-        headers: {
-          Authorization: `Bearer ${token}`,
-        },
-      });
+      const data = await photosApi.remove(token, photoId);
 
       const message =
-        response.data.message ||
+        data.message ||
         "Photo marked for deletion. It will be permanently deleted in 7 days.";
       toast.success(message);
       setPhotos(photos.filter((photo) => photo.id !== photoId));
-    } catch (error: any) {
+    } catch (error) {
       console.error("Delete photo error:", error);
-      const message = error.response?.data?.message || "Failed to delete photo";
+      const message = getErrorMessage(error, "Failed to delete photo");
       toast.error(message);
     }
   };
@@ -73,14 +56,6 @@ export default function PhotoGallery({ token }: PhotoGalleryProps) {
     toast.success("Share link copied to clipboard!");
   };
 
-  const formatFileSize = (bytes: number): string => {
-    if (bytes === 0) return "0 Bytes";
-    const k = 1024;
-    const sizes = ["Bytes", "KB", "MB", "GB"];
-    const i = Math.floor(Math.log(bytes) / Math.log(k));
-    return parseFloat((bytes / Math.pow(k, i)).toFixed(2)) + " " + sizes[i];
-  };
-
   const formatDate = (dateString: string): string => {
     return new Date(dateString).toLocaleDateString("en-US", {
       year: "numeric",
@@ -1,29 +1,38 @@
 "use client";
 
 import { useState, useRef } from "react";
-import axios from "axios";
+import { photosApi, getErrorMessage } from "../lib/api";
+import {
+  loadStripOptions,
+  METADATA_GROUP_LABELS,
+  MetadataError,
+  stripMetadata,
+} from "../lib/metadata";
+import {
+  createRendition,
+  ImagingError,
+  isImagingSupported,
+  loadRenditionSettings,
+} from "../lib/imaging";
+import { formatFileSize } from "../lib/format";
+import { planFolderUpload, readDrop } from "../lib/folderDrop";
+import { normalizeFormat } from "../lib/prepareUpload";
 import toast, { Toaster } from "react-hot-toast";
 
+const MAX_UPLOAD_SIZE = 10 * 1024 * 1024;
+
 interface PhotoUploadProps {
   token: string;
 }
 
-const API_BASE_URL =
-  process.env.NEXT_PUBLIC_API_BASE_URL || "http://localhost:6002/api";
-
 export default function PhotoUpload({ token }: PhotoUploadProps) {
   const [uploading, setUploading] = useState(false);
   const [dragActive, setDragActive] = useState(false);
   const fileInputRef = useRef<HTMLInputElement>(null);
 
-  const handleFileUpload = async (file: File) => {
-    if (!file.type.startsWith("image/")) {
-      toast.error("Please select an image file");
-      return;
-    }
-
-    if (file.size > 10 * 1024 * 1024) {
-      // 10MB limit
+  const handleFileUpload = async (selected: File) => {
+    // Oversized photos can still go up as a resized rendition
+    if (selected.size > MAX_UPLOAD_SIZE && !isImagingSupported()) {
       toast.error("File size must be less than 10MB");
       return;
     }
@@ -31,28 +40,52 @@ export default function PhotoUpload({ token }: PhotoUploadProps) {
     setUploading(true);
 
     try {
-      const formData = new FormData();
-      formData.append("photo", file);
-
-      const response = await axios.post(
-        `${API_BASE_URL}/photos/upload`,
-        formData,
-        {
-          headers: {
-            Authorization: `Bearer ${token}`,
-            "Content-Type": "multipart/form-data",
-          },
-        }
+      // Checks the file's bytes and converts HEIC to JPEG
+      const file = await normalizeFormat(selected);
+      const { file: stripped, removed } = await stripMetadata(
+        file,
+        loadStripOptions()
       );
+      if (removed.length > 0) {
+        const groups = Array.from(
+          new Set(removed.map((field) => METADATA_GROUP_LABELS[field.group]))
+        );
+        toast(`Removed ${groups.join(", ").toLowerCase()} before upload`);
+      }
 
-      if (response.data.success) {
+      let upload = stripped;
+      if (upload.size > MAX_UPLOAD_SIZE) {
+        const rendition = await createRendition(
+          stripped,
+          loadRenditionSettings()
+        );
+        if (rendition.file.size > MAX_UPLOAD_SIZE) {
+          toast.error("File is still over 10MB after resizing");
+          return;
+        }
+        toast(
+          `Resized to ${rendition.width}×${rendition.height} (${formatFileSize(
+            rendition.file.size
+          )}) to fit the 10MB limit`
+        );
+        upload = rendition.file;
+      }
+
+      const data = await photosApi.upload(token, upload);
+
+      if (data.success) {
         toast.success("Photo uploaded successfully!");
         // Trigger refresh of photo gallery
         window.dispatchEvent(new CustomEvent("photoUploaded"));
       }
-    } catch (error: any) {
+    } catch (error) {
       console.error("Upload error:", error);
-      const message = error.response?.data?.message || "Failed to upload photo";
+      const message =
+        error instanceof MetadataError
+          ? `Couldn't strip metadata from ${error.message}`
+          : error instanceof ImagingError
+          ? `Couldn't process ${error.message}`
+          : getErrorMessage(error, "Failed to upload photo");
       toast.error(message);
     } finally {
       setUploading(false);
@@ -69,13 +102,19 @@ export default function PhotoUpload({ token }: PhotoUploadProps) {
     }
   };
 
-  const handleDrop = (e: React.DragEvent) => {
+  const handleDrop = async (e: React.DragEvent) => {
     e.preventDefault();
     e.stopPropagation();
     setDragActive(false);
 
-    if (e.dataTransfer.files && e.dataTransfer.files[0]) {
-      handleFileUpload(e.dataTransfer.files[0]);
+    // Folders are flattened; their photos go up one after another
+    const { plans } = planFolderUpload(await readDrop(e.dataTransfer));
+    for (const plan of plans) {
+      for (const section of plan.sections) {
+        for (const file of section.files) {
+          await handleFileUpload(file);
+        }
+      }
     }
   };
 
@@ -165,15 +204,17 @@ export default function PhotoUpload({ token }: PhotoUploadProps) {
         <input
           ref={fileInputRef}
           type="file"
-          accept="image/*"
+          accept="image/*,.heic,.heif"
           onChange={handleFileSelect}
           className="hidden"
         />
       </div>
 
       <div className="mt-4 text-sm text-gray-500">
-        <p className="mb-1">Supported formats: JPG, PNG, GIF, WebP</p>
-        <p>Maximum file size: 10MB</p>
+        <p className="mb-1">
+          Supported formats: JPG, PNG, GIF, WebP, AVIF, HEIC (converted to JPEG)
+        </p>
+        <p>Maximum file size: 10MB (larger photos are resized first)</p>
       </div>
     </div>
   );
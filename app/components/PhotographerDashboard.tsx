@@ -1,64 +1,80 @@
 "use client";
 
-import React, { useState, useEffect, useCallback } from "react";
+import React, { useState, useEffect, useMemo, useRef } from "react";
 import { useAuth } from "../context/AuthContext";
-import axios from "axios";
+import {
+  ApiError,
+  photographerApi,
+  getErrorMessage,
+  UploadVariant,
+} from "../lib/api";
+import {
+  Client,
+  Collection,
+  markSelected,
+  Photo,
+  Watermark,
+} from "../lib/models";
+import {
+  DEFAULT_STRIP_OPTIONS,
+  loadStripOptions,
+  MetadataError,
+  saveStripOptions,
+  StripOptions,
+} from "../lib/metadata";
+import {
+  DEFAULT_RENDITION_SETTINGS,
+  ImagingError,
+  loadRenditionSettings,
+  RenditionSettings,
+  saveRenditionSettings,
+} from "../lib/imaging";
+import { hasThumbnail, seedThumbnail } from "../lib/thumbnails";
+import { saveBlob, savePhoto } from "../lib/download";
+import { PreparedUpload, prepareUpload } from "../lib/prepareUpload";
+import { FolderPlan, planFolderUpload, readDrop } from "../lib/folderDrop";
+import {
+  DuplicateAction,
+  DuplicateMatch,
+  findDuplicates,
+} from "../lib/duplicates";
 import MasonryPhotoGrid from "./MasonryPhotoGrid";
+import Thumbnail from "./Thumbnail";
+import MetadataScrubPanel from "./MetadataScrubPanel";
+import RenditionPanel from "./RenditionPanel";
+import DuplicateReviewModal from "./DuplicateReviewModal";
+import FolderMappingModal, { FolderMapping } from "./FolderMappingModal";
+import WatermarkDesigner from "./WatermarkDesigner";
+import { showUndoToast } from "./UndoToast";
 import DarkModeToggle from "./DarkModeToggle";
 import CountdownTimer from "./CountdownTimer";
 import { useSSE } from "../hooks/useSSE";
-
-// Debounce utility to prevent rapid consecutive API calls
-function debounce<T extends (...args: any[]) => any>(
-  func: T,
-  wait: number
-): (...args: Parameters<T>) => void {
-  let timeout: NodeJS.Timeout | null = null;
-  return (...args: Parameters<T>) => {
-    if (timeout) clearTimeout(timeout);
-    timeout = setTimeout(() => func(...args), wait);
-  };
-}
-
-interface Client {
-  id: string;
-  username: string;
-  clientName: string;
-  isActive: boolean;
-  createdAt: string;
-}
-
-interface Photo {
-  id: string;
-  filename: string;
-  originalName: string;
-  shareToken: string;
-  uploadedAt: string;
-  size: number;
-  thumbnailDataB64: string;
-  collectionId?: string;
-  selected?: boolean;
-}
-
-interface Collection {
-  collectionId: string;
-  name: string;
-  description: string;
-  createdAt: string;
-  photoCount: number;
-  thumbnailDataB64?: string | null;
-  autoDeleteAt: string;
-  daysRemaining: number;
-}
+import { useQuery } from "../hooks/useQuery";
+import {
+  applyClientEvent,
+  applyCollectionEvent,
+  applyPhotoEvent,
+  removeById,
+  removeWhere,
+  upsertById,
+} from "../lib/realtime";
+import { deferMutation, queryCache } from "../lib/query";
+import { useUploadQueue } from "../context/UploadQueueContext";
+import toast, { Toaster } from "react-hot-toast";
+
+const CLIENTS_KEY = "photographer/clients";
+const COLLECTIONS_KEY = "photographer/collections";
+// "Uncategorized" is filtered from the full list on the frontend
+const photosKey = (filter: string | null) =>
+  `photographer/photos/${
+    filter && filter !== "uncategorized" ? filter : "all"
+  }`;
 
 const PhotographerDashboard: React.FC = () => {
   const { user, logout } = useAuth();
   const [activeTab, setActiveTab] = useState<
     "clients" | "photos" | "collections"
   >("clients");
-  const [clients, setClients] = useState<Client[]>([]);
-  const [photos, setPhotos] = useState<Photo[]>([]);
-  const [collections, setCollections] = useState<Collection[]>([]);
   const [selectedCollection, setSelectedCollection] = useState<string | null>(
     null
   );
@@ -74,6 +90,8 @@ const PhotographerDashboard: React.FC = () => {
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState("");
   const [success, setSuccess] = useState("");
+  // Per-file reasons for files left out of the last upload
+  const [rejectedFiles, setRejectedFiles] = useState<string[]>([]);
 
   // Client form state
   const [clientEmail, setClientEmail] = useState("");
@@ -81,7 +99,28 @@ const PhotographerDashboard: React.FC = () => {
 
   // Photo upload state
   const [selectedFiles, setSelectedFiles] = useState<FileList | null>(null);
-  const [uploadProgress, setUploadProgress] = useState(0);
+  const [stripOptions, setStripOptions] = useState<StripOptions>(
+    DEFAULT_STRIP_OPTIONS
+  );
+  const [renditionSettings, setRenditionSettings] = useState<RenditionSettings>(
+    DEFAULT_RENDITION_SETTINGS
+  );
+  // Prepared uploads waiting on the duplicate review
+  const [duplicateReview, setDuplicateReview] = useState<{
+    prepared: PreparedUpload[];
+    matches: DuplicateMatch[];
+  } | null>(null);
+  // Dropped folders waiting on the mapping preview
+  const [folderDrop, setFolderDrop] = useState<{
+    plans: FolderPlan[];
+    skipped: number;
+  } | null>(null);
+  const [isDraggingFolder, setIsDraggingFolder] = useState(false);
+  const [watermarkCollection, setWatermarkCollection] =
+    useState<Collection | null>(null);
+  // Thumbnails rendered during upload, by the file being uploaded; names
+  // repeat across the folders of a drop
+  const localThumbnails = useRef(new Map<Blob, Blob>());
   const [uploadToCollection, setUploadToCollection] = useState<string>("");
   const [shareWithClients, setShareWithClients] = useState<string[]>([]);
   const [expiryMinutes, setExpiryMinutes] = useState<number>(0); // 0 = 30 seconds default
@@ -95,52 +134,133 @@ const PhotographerDashboard: React.FC = () => {
     string[]
   >([]);
 
-  const API_BASE_URL =
-    process.env.NEXT_PUBLIC_API_BASE_URL || "http://localhost:6002/api";
+  const uploadQueue = useUploadQueue();
+
+  const clients =
+    useQuery(
+      CLIENTS_KEY,
+      async () => (await photographerApi.listClients()).clients,
+      { tags: ["clients"] }
+    ).data ?? [];
+  const collections =
+    useQuery(
+      COLLECTIONS_KEY,
+      async () => (await photographerApi.listCollections()).collections,
+      { tags: ["collections"] }
+    ).data ?? [];
+  const photosQuery = useQuery(
+    photosKey(selectedCollection),
+    async () =>
+      (selectedCollection && selectedCollection !== "uncategorized"
+        ? // Fetch photos for a specific collection
+          await photographerApi.listCollectionPhotos(selectedCollection)
+        : // Fetch all photos (we'll filter on the frontend for uncategorized)
+          await photographerApi.listPhotos()
+      ).photos,
+    {
+      tags:
+        selectedCollection && selectedCollection !== "uncategorized"
+          ? ["photos", `collection:${selectedCollection}`]
+          : ["photos"],
+    }
+  );
+  // Refetches (e.g. from SSE) don't touch the selection, which is kept
+  // apart from the cached list
+  const photos = useMemo(
+    () =>
+      markSelected(photosQuery.data ?? [], (photo) =>
+        selectedPhotosForDownload.includes(photo.id)
+      ),
+    [photosQuery.data, selectedPhotosForDownload]
+  );
+
+  // The list on screen is patched; lists for other filters refetch when
+  // they're next shown
+  const patchPhotos = (update: (photos: Photo[]) => Photo[]) => {
+    queryCache.markStale("photos");
+    queryCache.setData<Photo[]>(
+      photosKey(selectedCollection),
+      (prev) => prev && update(prev)
+    );
+  };
+
+  const adjustPhotoCount = (collectionId: string | undefined, by: number) => {
+    if (!collectionId) return;
+    queryCache.setData<Collection[]>(COLLECTIONS_KEY, (prev) =>
+      prev?.map((collection) =>
+        collection.id === collectionId
+          ? {
+              ...collection,
+              photoCount: Math.max(0, (collection.photoCount ?? 0) + by),
+            }
+          : collection
+      )
+    );
+  };
+
+  // Whether a photo belongs in the list for the current collection filter
+  const isInView = (photo: Photo) =>
+    !selectedCollection ||
+    selectedCollection === "uncategorized" ||
+    photo.collectionId === selectedCollection;
+
+  // Finished uploads, including ones restored after a reload, are merged
+  // into the list as they land instead of refetching everything
+  const subscribeToUploads = uploadQueue.subscribe;
+  useEffect(
+    () =>
+      subscribeToUploads((photo, file) => {
+        const thumbnail = localThumbnails.current.get(file);
+        if (thumbnail && photo.thumbnailUrl) {
+          seedThumbnail(photo.thumbnailUrl, thumbnail);
+        }
+
+        if (isInView(photo)) {
+          patchPhotos((prev) =>
+            prev.some((p) => p.id === photo.id) ? prev : [photo, ...prev]
+          );
+        }
+        adjustPhotoCount(photo.collectionId, 1);
+      }),
+    [subscribeToUploads, selectedCollection]
+  );
 
-  // Server-Sent Events for real-time updates (OPTIMIZED: minimal targeted fetches)
+  // Server-Sent Events patch the cached lists in place; everything is
+  // refetched only when the stream may have skipped something
   useSSE({
-    onPhotoEvent: (event) => {
-      // Only fetch photos (collections count updated separately)
-      fetchPhotos();
-    },
-    onCollectionEvent: (event) => {
-      // Only fetch collections
-      fetchCollections();
-      // Only fetch photos if collection was deleted (affects photo visibility)
+    onEvent: (event) => {
       if (
-        event.type === "collection.deleted" ||
-        event.type === "collection.expired"
+        event.type.startsWith("photo.") ||
+        event.type.startsWith("collection.")
       ) {
-        fetchPhotos();
+        patchPhotos((prev) => applyPhotoEvent(prev, event, isInView));
       }
+      queryCache.setData<Collection[]>(
+        COLLECTIONS_KEY,
+        (prev) => prev && applyCollectionEvent(prev, event)
+      );
+      queryCache.setData<Client[]>(
+        CLIENTS_KEY,
+        (prev) => prev && applyClientEvent(prev, event)
+      );
     },
-    onClientEvent: (event) => {
-      // Only fetch clients when client data changes
-      fetchClients();
-    },
+    onGap: () => queryCache.invalidateAll(),
     onConnected: () => {
       console.log("✅ Real-time updates connected");
     },
   });
 
-  // Initial data load on mount
-  useEffect(() => {
-    fetchClients();
-    fetchPhotos();
-    fetchCollections();
-  }, []); // Run once on mount
+  const selectedFileList = useMemo(
+    () => (selectedFiles ? Array.from(selectedFiles) : []),
+    [selectedFiles]
+  );
 
-  // Fetch data when tab or collection filter changes
+  // Saved upload preferences live in localStorage, so load them after
+  // hydration
   useEffect(() => {
-    if (activeTab === "clients") {
-      fetchClients();
-    } else if (activeTab === "photos") {
-      fetchPhotos();
-    } else if (activeTab === "collections") {
-      fetchCollections();
-    }
-  }, [activeTab, selectedCollection]);
+    setStripOptions(loadStripOptions());
+    setRenditionSettings(loadRenditionSettings());
+  }, []);
 
   // REMOVED - 15-minute polling causes excessive API requests
   // SSE provides real-time updates, polling is unnecessary
@@ -159,66 +279,6 @@ const PhotographerDashboard: React.FC = () => {
   //   return () => clearInterval(interval);
   // }, [activeTab, selectedCollection]);
 
-  const fetchClientsRaw = async () => {
-    try {
-      const response = await axios.get(`${API_BASE_URL}/photographer/clients`);
-      if (response.data.success) {
-        setClients(response.data.clients);
-      }
-    } catch (error) {
-      console.error("Error fetching clients:", error);
-    }
-  };
-
-  const fetchPhotosRaw = async () => {
-    try {
-      let url;
-      if (selectedCollection && selectedCollection !== "uncategorized") {
-        // Fetch photos for a specific collection
-        url = `${API_BASE_URL}/photographer/collections/${encodeURIComponent(
-          selectedCollection
-        )}/photos`;
-      } else {
-        // Fetch all photos (we'll filter on the frontend for uncategorized)
-        url = `${API_BASE_URL}/photographer/photos`;
-      }
-
-      const response = await axios.get(url);
-      if (response.data.success) {
-        setPhotos(response.data.photos);
-      }
-    } catch (error) {
-      console.error("Error fetching photos:", error);
-    }
-  };
-
-  const fetchCollectionsRaw = async () => {
-    try {
-      const response = await axios.get(
-        `${API_BASE_URL}/photographer/collections`
-      );
-      if (response.data.success) {
-        setCollections(response.data.collections);
-      }
-    } catch (error) {
-      console.error("Error fetching collections:", error);
-    }
-  };
-
-  // Create debounced versions to prevent rapid consecutive calls
-  const fetchClients = useCallback(debounce(fetchClientsRaw, 1000), []);
-  const fetchPhotos = useCallback(debounce(fetchPhotosRaw, 1000), [
-    selectedCollection,
-  ]);
-  const fetchCollections = useCallback(debounce(fetchCollectionsRaw, 1000), []);
-
-  // Refresh all data
-  const refreshAll = async () => {
-    console.log("🔄 Refreshing all data...");
-    await Promise.all([fetchClients(), fetchPhotos(), fetchCollections()]);
-    console.log("✅ Refresh complete");
-  };
-
   const handleCreateClient = async (e: React.FormEvent) => {
     e.preventDefault();
     setError("");
@@ -226,30 +286,81 @@ const PhotographerDashboard: React.FC = () => {
     setIsLoading(true);
 
     try {
-      const response = await axios.post(
-        `${API_BASE_URL}/photographer/create-client`,
-        {
-          email: clientEmail,
-          clientName: clientName,
-        }
-      );
+      const data = await photographerApi.createClient({
+        email: clientEmail,
+        clientName: clientName,
+      });
 
-      if (response.data.success) {
+      if (data.success) {
         setSuccess(
           `Client created successfully! Credentials sent to ${clientEmail}`
         );
         setClientEmail("");
         setClientName("");
         setShowCreateClientForm(false);
-        await refreshAll(); // Refresh everything after creating client
+        queryCache.invalidate("clients");
       }
-    } catch (error: any) {
-      setError(error.response?.data?.message || "Failed to create client");
+    } catch (error) {
+      setError(getErrorMessage(error, "Failed to create client"));
     } finally {
       setIsLoading(false);
     }
   };
 
+  const uploadErrorMessage = (error: unknown) =>
+    error instanceof MetadataError
+      ? `Couldn't strip metadata from ${error.message}`
+      : error instanceof ImagingError
+      ? `Couldn't process ${error.message}`
+      : getErrorMessage(error, "Failed to upload photos");
+
+  // Files that can't be prepared are reported and left out of the batch;
+  // anything else still stops the upload
+  const tryPrepare = async (
+    file: File,
+    rejected: string[],
+    watermark: Watermark | null
+  ) => {
+    try {
+      return await prepareUpload(
+        file,
+        stripOptions,
+        renditionSettings,
+        watermark
+      );
+    } catch (error) {
+      if (!(error instanceof MetadataError || error instanceof ImagingError)) {
+        throw error;
+      }
+      console.warn("⚠️ Leaving out", file.name, error);
+      rejected.push(uploadErrorMessage(error));
+      return null;
+    }
+  };
+
+  // Compare against what the target collection already holds; a failed
+  // check shouldn't block the upload
+  const checkDuplicates = async (
+    prepared: PreparedUpload[],
+    collectionId: string
+  ) => {
+    if (!collectionId) return [];
+    try {
+      const data = await photographerApi.listCollectionPhotos(collectionId);
+      return data.success ? await findDuplicates(prepared, data.photos) : [];
+    } catch (error) {
+      console.warn("Duplicate check failed, uploading anyway:", error);
+      return [];
+    }
+  };
+
+  // A failed lookup stops the upload rather than sending unmarked proofs
+  const fetchWatermark = async (collectionId: string) => {
+    if (!collectionId) return null;
+    const { watermark } = await photographerApi.getWatermark(collectionId);
+    return watermark?.enabled ? watermark : null;
+  };
+
   const handlePhotoUpload = async (e: React.FormEvent) => {
     e.preventDefault();
     if (!selectedFiles || selectedFiles.length === 0) {
@@ -259,31 +370,18 @@ const PhotographerDashboard: React.FC = () => {
 
     setError("");
     setSuccess("");
+    setRejectedFiles([]);
     setIsLoading(true);
-    setUploadProgress(0);
 
     try {
-      const formData = new FormData();
-      Array.from(selectedFiles).forEach((file) => {
-        formData.append("photos", file);
-      });
-
-      if (uploadToCollection) {
-        formData.append("collectionId", uploadToCollection);
-      }
-
-      // Add expiry duration
       if (expiryMinutes > 0) {
-        formData.append("expiryMinutes", expiryMinutes.toString());
         console.log("⏱️ Setting expiry:", expiryMinutes, "minutes");
       } else {
         console.log("⏱️ Using default expiry (30 seconds)");
       }
 
       if (shareWithClients.length > 0) {
-        formData.append("clientIds", JSON.stringify(shareWithClients));
         console.log("📤 Uploading with clients:", shareWithClients);
-        console.log("📤 Client IDs JSON:", JSON.stringify(shareWithClients));
       } else {
         console.log("📤 No clients selected for sharing");
       }
@@ -291,158 +389,401 @@ const PhotographerDashboard: React.FC = () => {
       console.log("📤 Collection ID:", uploadToCollection);
       console.log("📤 Files count:", selectedFiles.length);
 
-      const response = await axios.post(
-        `${API_BASE_URL}/photographer/upload-photos`,
-        formData,
-        {
-          headers: {
-            "Content-Type": "multipart/form-data",
-          },
-          onUploadProgress: (progressEvent) => {
-            const progress = Math.round(
-              (progressEvent.loaded * 100) / progressEvent.total!
-            );
-            setUploadProgress(progress);
-          },
-        }
-      );
+      const watermark = await fetchWatermark(uploadToCollection);
+      if (watermark) console.log("💧 Watermarking previews");
 
-      if (response.data.success) {
-        const clientsShared = shareWithClients.length;
-        let successMessage = `${selectedFiles.length} photo(s) uploaded successfully!`;
+      // Prepare one file at a time to keep memory flat on big shoots
+      const prepared: PreparedUpload[] = [];
+      const rejected: string[] = [];
+      for (const file of Array.from(selectedFiles)) {
+        const upload = await tryPrepare(file, rejected, watermark);
+        if (upload) prepared.push(upload);
+      }
+      setRejectedFiles(rejected);
+      if (prepared.length === 0) {
+        setError("None of the selected files could be uploaded");
+        return;
+      }
 
-        // Share collection with selected clients using the same endpoint as the Share button
-        if (clientsShared > 0 && uploadToCollection) {
-          console.log(
-            `🔗 Sharing collection ${uploadToCollection} with ${clientsShared} client(s)`
-          );
+      const matches = await checkDuplicates(prepared, uploadToCollection);
+      if (matches.length > 0) {
+        console.log(`🔍 ${matches.length} possible duplicate(s) found`);
+        setDuplicateReview({ prepared, matches });
+        return;
+      }
+
+      sendUploads(prepared, new Map(), uploadToCollection);
+    } catch (error) {
+      setError(uploadErrorMessage(error));
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleDuplicateReview = async (actions: DuplicateAction[]) => {
+    if (!duplicateReview) return;
+    const { prepared, matches } = duplicateReview;
+    setDuplicateReview(null);
+
+    const skipped = new Set<PreparedUpload>();
+    const replacements = new Map<PreparedUpload, Photo[]>();
+    matches.forEach((match, index) => {
+      if (actions[index] === "skip") skipped.add(match.upload);
+      if (actions[index] === "replace") {
+        replacements.set(match.upload, match.photos);
+      }
+    });
+
+    const remaining = prepared.filter((upload) => !skipped.has(upload));
+    if (remaining.length === 0) {
+      setSuccess("All selected photos were already in the collection");
+      setSelectedFiles(null);
+      setShowUploadForm(false);
+      return;
+    }
+
+    sendUploads(remaining, replacements, uploadToCollection);
+  };
+
+  /**
+   * Hand prepared files to the upload queue and free the form straight
+   * away. Once the batch settles, replaced photos are deleted and the
+   * collection is shared.
+   */
+  const sendUploads = (
+    prepared: PreparedUpload[],
+    replacements: Map<PreparedUpload, Photo[]>,
+    collectionId: string,
+    sections?: Map<PreparedUpload, string>
+  ) => {
+    const { mode } = renditionSettings;
+    // The form is reset below; the follow-up needs this batch's values
+    const clientIds = shareWithClients;
+
+    const byFile = new Map<File, PreparedUpload>();
+    prepared.forEach((upload) => {
+      if (upload.original) byFile.set(upload.original, upload);
+      if (upload.rendition) byFile.set(upload.rendition, upload);
+      if (upload.preview) byFile.set(upload.preview, upload);
+      const { thumbnail } = upload;
+      if (thumbnail) {
+        const keys = [upload.original, upload.rendition].flatMap((file) =>
+          file ? [file] : []
+        );
+        keys.forEach((key) => localThumbnails.current.set(key, thumbnail));
+      }
+    });
+
+    const originals = prepared.flatMap(({ original }) =>
+      original ? [original] : []
+    );
+    const renditions = prepared.flatMap(({ rendition }) =>
+      rendition ? [rendition] : []
+    );
+    const previews = prepared.flatMap(({ preview }) =>
+      preview ? [preview] : []
+    );
+    // The original stands for the photo; without one, the rendition does
+    const optionsFor = (variant: UploadVariant) => (file: File) => ({
+      collectionId: collectionId || undefined,
+      expiryMinutes,
+      clientIds,
+      variant,
+      primary: variant === (byFile.get(file)?.original ? "original" : "web"),
+      section: sections?.get(byFile.get(file)!),
+      contentHash: byFile.get(file)?.contentHash,
+      perceptualHash: byFile.get(file)?.perceptualHash,
+    });
+
+    // A file's thumbnail is let go as soon as that file is done or
+    // cancelled, once the uploaded listener has used it
+    const enqueue = (files: File[], variant: UploadVariant) =>
+      Promise.all(
+        files.map((file) =>
+          uploadQueue
+            .enqueue([file], optionsFor(variant))
+            .then(([photo]) => photo)
+            .finally(() => localThumbnails.current.delete(file))
+        )
+      );
 
-          for (const clientId of shareWithClients) {
+    // Resolves once every file is done or cancelled; failed files wait
+    // in the tray for a retry
+    const settled = Promise.all([
+      enqueue(originals, "original"),
+      enqueue(renditions, "web"),
+      enqueue(previews, "preview"),
+    ]);
+
+    setSuccess(`${prepared.length} photo(s) added to the upload queue`);
+    setSelectedFiles(null);
+    setUploadToCollection("");
+    setShareWithClients([]);
+    setShowUploadForm(false);
+
+    settled
+      .then(async ([originalResults, renditionResults]) => {
+        const uploaded = new Map<File, Photo | null>([
+          ...originals.map((file, i) => [file, originalResults[i]] as const),
+          ...renditions.map((file, i) => [file, renditionResults[i]] as const),
+        ]);
+        const uploadedCount = (
+          mode === "rendition" ? renditionResults : originalResults
+        ).filter(Boolean).length;
+
+        // Replaced photos only go once their replacement is in
+        for (const [upload, photos] of Array.from(replacements)) {
+          const replacement = upload.original ?? upload.rendition;
+          if (!replacement || !uploaded.get(replacement)) continue;
+          for (const photo of photos) {
             try {
-              // Find client username from ID
-              const client = clients.find((c) => c.id === clientId);
-              if (client) {
-                console.log(`🔗 Sharing with client: ${client.username}`);
-                const encodedCollectionId =
-                  encodeURIComponent(uploadToCollection);
-                const shareUrl = `${API_BASE_URL}/photographer/collections/${encodedCollectionId}/share`;
-
-                await axios.post(shareUrl, { clientUsername: client.username });
-                console.log(`✅ Shared collection with ${client.username}`);
+              await photographerApi.deletePhoto(photo.id);
+              console.log(`♻️ Replaced ${photo.originalName}`);
+              patchPhotos((prev) => removeById(prev, photo.id));
+              adjustPhotoCount(photo.collectionId, -1);
+            } catch (deleteError) {
+              console.error(
+                `❌ Failed to remove replaced photo ${photo.originalName}:`,
+                deleteError
+              );
+            }
+          }
+        }
+
+        if (uploadedCount > 0) {
+          const clientsShared = clientIds.length;
+          let successMessage = `${uploadedCount} photo(s) uploaded successfully!`;
+
+          // Share collection with selected clients using the same endpoint as the Share button
+          if (clientsShared > 0 && collectionId) {
+            console.log(
+              `🔗 Sharing collection ${collectionId} with ${clientsShared} client(s)`
+            );
+
+            for (const clientId of clientIds) {
+              try {
+                // Find client username from ID
+                const client = clients.find((c) => c.id === clientId);
+                if (client) {
+                  console.log(`🔗 Sharing with client: ${client.username}`);
+                  await photographerApi.shareCollection(collectionId, {
+                    clientUsername: client.username,
+                  });
+                  console.log(`✅ Shared collection with ${client.username}`);
+                }
+              } catch (shareError) {
+                console.error(`❌ Failed to share with client:`, shareError);
+                // Don't fail the whole upload if sharing fails
               }
-            } catch (shareError: any) {
-              console.error(`❌ Failed to share with client:`, shareError);
-              // Don't fail the whole upload if sharing fails
             }
+
+            successMessage += ` Collection shared with ${clientsShared} client${
+              clientsShared !== 1 ? "s" : ""
+            }.`;
           }
 
-          successMessage += ` Collection shared with ${clientsShared} client${
-            clientsShared !== 1 ? "s" : ""
-          }.`;
+          setSuccess(successMessage);
         }
+      })
+      .catch((error) => {
+        console.error("❌ Upload follow-up failed:", error);
+        setError(getErrorMessage(error, "Failed to finish the upload"));
+      });
+  };
 
-        setSuccess(successMessage);
-        setSelectedFiles(null);
-        setUploadToCollection("");
-        setShareWithClients([]);
-        setShowUploadForm(false);
-        await refreshAll(); // Refresh everything after upload
+  const handleFolderDrop = async (e: React.DragEvent) => {
+    e.preventDefault();
+    setIsDraggingFolder(false);
+    if (isLoading) return;
+
+    try {
+      const { plans, skipped } = planFolderUpload(
+        await readDrop(e.dataTransfer)
+      );
+      if (plans.length === 0) {
+        setError("No photos found in what was dropped");
+        return;
       }
-    } catch (error: any) {
-      setError(error.response?.data?.message || "Failed to upload photos");
-    } finally {
-      setIsLoading(false);
-      setUploadProgress(0);
+      setFolderDrop({ plans, skipped });
+    } catch (error) {
+      console.error("❌ Failed to read dropped folders:", error);
+      setError("Could not read the dropped folders");
     }
   };
 
-  const handleDeletePhoto = async (photoId: string) => {
-    // Check if there are selected photos - if so, delete all selected instead
-    const selectedPhotos = photos.filter((p) => p.selected);
+  const handleFolderMapping = async (mappings: FolderMapping[]) => {
+    setFolderDrop(null);
+    setError("");
+    setSuccess("");
+    setRejectedFiles([]);
+    setIsLoading(true);
 
-    if (selectedPhotos.length > 1) {
-      return handleBulkDeletePhotos();
-    }
+    const rejected: string[] = [];
+    try {
+      for (const { plan, target } of mappings) {
+        let collectionId: string;
+        if (target.type === "new") {
+          const data = await photographerApi.createCollection({
+            name: target.name.trim(),
+            description: "",
+          });
+          collectionId = data.collection.id;
+          queryCache.setData<Collection[]>(
+            COLLECTIONS_KEY,
+            (prev) => prev && upsertById(prev, data.collection, "end")
+          );
+          console.log(`📁 Created collection "${data.collection.name}"`);
+        } else {
+          collectionId = target.collectionId;
+        }
 
-    if (
-      !confirm(
-        "Are you sure you want to delete this photo? It will be marked for deletion and removed after 7 days."
-      )
-    ) {
-      return;
-    }
+        // A collection created just now can't have a watermark yet
+        const watermark =
+          target.type === "existing"
+            ? await fetchWatermark(collectionId)
+            : null;
+
+        const prepared: PreparedUpload[] = [];
+        const sections = new Map<PreparedUpload, string>();
+        for (const section of plan.sections) {
+          for (const file of section.files) {
+            const upload = await tryPrepare(file, rejected, watermark);
+            if (!upload) continue;
+            prepared.push(upload);
+            if (section.name) sections.set(upload, section.name);
+          }
+        }
 
-    try {
-      const response = await axios.delete(
-        `${API_BASE_URL}/photographer/photos/${encodeURIComponent(photoId)}`
-      );
+        // New collections have nothing to clash with; for existing ones,
+        // leave out exact copies rather than stopping for a review
+        const exact = new Set(
+          target.type === "existing"
+            ? (await checkDuplicates(prepared, collectionId))
+                .filter((match) => match.exact)
+                .map((match) => match.upload)
+            : []
+        );
+        if (exact.size > 0) {
+          console.log(`🔍 Skipping ${exact.size} exact duplicate(s)`);
+        }
 
-      if (response.data.success) {
-        const message =
-          response.data.message ||
-          "Photo marked for deletion. It will be permanently deleted in 7 days.";
-        setSuccess(message);
-        await refreshAll(); // Refresh everything after delete
+        const remaining = prepared.filter((upload) => !exact.has(upload));
+        if (remaining.length > 0) {
+          sendUploads(remaining, new Map(), collectionId, sections);
+        }
       }
-    } catch (error: any) {
-      setError(error.response?.data?.message || "Failed to delete photo");
+    } catch (error) {
+      setError(
+        error instanceof ApiError
+          ? getErrorMessage(error, "Failed to create collection")
+          : uploadErrorMessage(error)
+      );
+    } finally {
+      setRejectedFiles(rejected);
+      setIsLoading(false);
     }
   };
 
-  const handleBulkDeletePhotos = async () => {
-    const selectedPhotos = photos.filter((p) => p.selected);
+  const handleRenditionSettingsChange = (settings: RenditionSettings) => {
+    setRenditionSettings(settings);
+    saveRenditionSettings(settings);
+  };
 
-    if (selectedPhotos.length === 0) {
-      setError("Please select at least one photo to delete");
-      return;
-    }
+  const handleStripOptionsChange = (options: StripOptions) => {
+    setStripOptions(options);
+    saveStripOptions(options);
+  };
 
-    if (
-      !confirm(
-        `Are you sure you want to delete ${selectedPhotos.length} photo(s)? They will be marked for deletion and removed after 7 days.`
+  // Pending deletions are patched into every list the photos could be in,
+  // so switching the filter during the undo window doesn't bring them back
+  const removePhotos = (
+    collectionIds: (string | undefined)[],
+    removes: (photo: Photo) => boolean
+  ) =>
+    new Set([null, ...collectionIds.map((id) => id ?? null)]).forEach((id) =>
+      queryCache.setData<Photo[]>(
+        photosKey(id),
+        (prev) => prev && removeWhere(prev, removes)
       )
-    ) {
-      return;
-    }
+    );
 
-    try {
-      setIsLoading(true);
-      setError("");
-      setSuccess("");
+  // Photos disappear straight away; the request waits out the undo window
+  // and a failure puts them back
+  const deletePhotos = (targets: Photo[]) => {
+    const ids = new Set(targets.map((photo) => photo.id));
+    setError("");
+    setSuccess("");
+    setSelectedPhotosForDownload((prev) => prev.filter((id) => !ids.has(id)));
 
-      console.log(
-        `🗑️ Bulk deleting ${selectedPhotos.length} photos:`,
-        selectedPhotos.map((p) => p.id)
-      );
+    const deletion = deferMutation({
+      optimistic: () => {
+        removePhotos(
+          targets.map((photo) => photo.collectionId),
+          (photo) => ids.has(photo.id)
+        );
+        targets.forEach((photo) => adjustPhotoCount(photo.collectionId, -1));
+      },
+      request: () =>
+        Promise.all(
+          targets.map((photo) => photographerApi.deletePhoto(photo.id))
+        ),
+      sendOnUnload: () =>
+        targets.forEach((photo) =>
+          photographerApi.deletePhotoOnUnload(photo.id)
+        ),
+      invalidates: ["photos", "collections"],
+    });
+
+    const toastId = showUndoToast(
+      targets.length === 1
+        ? `Deleted ${targets[0].originalName}`
+        : `Deleted ${targets.length} photos`,
+      deletion.undo
+    );
 
-      // Delete all selected photos
-      const deletePromises = selectedPhotos.map((photo) => {
-        console.log(`Deleting photo ID: ${photo.id}`);
-        return axios.delete(
-          `${API_BASE_URL}/photographer/photos/${encodeURIComponent(photo.id)}`
+    deletion.settled
+      .then((results) => {
+        if (results) {
+          console.log(`🗑️ Deleted ${results.length} photo(s)`);
+        } else {
+          console.log(`↩️ Kept ${targets.length} photo(s)`);
+        }
+      })
+      .catch((error) => {
+        console.error("❌ Delete error:", error);
+        toast.dismiss(toastId);
+        setError(
+          getErrorMessage(
+            error,
+            targets.length === 1
+              ? "Failed to delete photo"
+              : "Failed to delete photos"
+          )
         );
       });
+  };
 
-      const results = await Promise.all(deletePromises);
+  const handleDeletePhoto = (photoId: string) => {
+    // Check if there are selected photos - if so, delete all selected instead
+    const selectedPhotos = photos.filter((p) => p.selected);
 
-      console.log(`✅ Successfully deleted ${results.length} photos`);
+    if (selectedPhotos.length > 1) {
+      return handleBulkDeletePhotos();
+    }
 
-      setSuccess(
-        `${selectedPhotos.length} photo(s) marked for deletion. They will be permanently deleted in 7 days.`
-      );
+    const photo = photos.find((p) => p.id === photoId);
+    if (photo) deletePhotos([photo]);
+  };
 
-      // Clear selections
-      setSelectedPhotosForDownload([]);
-      setPhotos(photos.map((p) => ({ ...p, selected: false })));
+  const handleBulkDeletePhotos = () => {
+    const selectedPhotos = photos.filter((p) => p.selected);
 
-      // Refresh data
-      await refreshAll(); // Refresh everything after bulk delete
-    } catch (error: any) {
-      console.error("❌ Bulk delete error:", error);
-      setError(error.response?.data?.message || "Failed to delete photos");
-    } finally {
-      setIsLoading(false);
+    if (selectedPhotos.length === 0) {
+      setError("Please select at least one photo to delete");
+      return;
     }
+
+    deletePhotos(selectedPhotos);
   };
 
   const handleCreateCollection = async (e: React.FormEvent) => {
@@ -452,30 +793,29 @@ const PhotographerDashboard: React.FC = () => {
     setIsLoading(true);
 
     try {
-      const response = await axios.post(
-        `${API_BASE_URL}/photographer/collections`,
-        {
-          name: collectionName,
-          description: collectionDescription,
-        }
-      );
+      const data = await photographerApi.createCollection({
+        name: collectionName,
+        description: collectionDescription,
+      });
 
-      if (response.data.success) {
+      if (data.success) {
         setSuccess("Collection created successfully!");
         setCollectionName("");
         setCollectionDescription("");
         setShowCreateCollectionForm(false);
-        await refreshAll(); // Refresh everything after creating collection
+        queryCache.invalidate("collections");
       }
-    } catch (error: any) {
-      setError(error.response?.data?.message || "Failed to create collection");
+    } catch (error) {
+      setError(getErrorMessage(error, "Failed to create collection"));
     } finally {
       setIsLoading(false);
     }
   };
 
-  const handleDeleteCollection = async (collectionId: string) => {
+  const handleDeleteCollection = (collectionId: string) => {
+    const collection = collections.find((c) => c.id === collectionId);
     if (
+      !collection ||
       !confirm(
         "Are you sure you want to delete this collection? The collection and all its photos will be marked for deletion and removed after 7 days."
       )
@@ -483,26 +823,44 @@ const PhotographerDashboard: React.FC = () => {
       return;
     }
 
-    try {
-      const response = await axios.delete(
-        `${API_BASE_URL}/photographer/collections/${encodeURIComponent(
-          collectionId
-        )}`
-      );
+    setError("");
+    setSuccess("");
+    if (selectedCollection === collectionId) {
+      setSelectedCollection(null);
+    }
+
+    const deletion = deferMutation({
+      optimistic: () => {
+        queryCache.setData<Collection[]>(
+          COLLECTIONS_KEY,
+          (prev) => prev && removeById(prev, collectionId)
+        );
+        removePhotos(
+          [collectionId],
+          (photo) => photo.collectionId === collectionId
+        );
+      },
+      request: () => photographerApi.deleteCollection(collectionId),
+      sendOnUnload: () =>
+        photographerApi.deleteCollectionOnUnload(collectionId),
+      invalidates: [`collection:${collectionId}`, "collections", "photos"],
+    });
+
+    const toastId = showUndoToast(
+      `Deleted “${collection.name}”`,
+      deletion.undo
+    );
 
-      if (response.data.success) {
-        const message =
-          response.data.message ||
-          "Collection and photos marked for deletion. They will be permanently deleted in 7 days.";
-        setSuccess(message);
-        if (selectedCollection === collectionId) {
-          setSelectedCollection(null);
+    deletion.settled
+      .then((data) => {
+        if (data) {
+          console.log(`🗑️ Deleted collection "${collection.name}"`);
         }
-        await refreshAll(); // Refresh everything after deleting collection
-      }
-    } catch (error: any) {
-      setError(error.response?.data?.message || "Failed to delete collection");
-    }
+      })
+      .catch((error) => {
+        toast.dismiss(toastId);
+        setError(getErrorMessage(error, "Failed to delete collection"));
+      });
   };
 
   const handleShareCollection = async (clientUsername: string) => {
@@ -515,42 +873,28 @@ const PhotographerDashboard: React.FC = () => {
       console.log("=== Share Collection Debug ===");
       console.log("Collection ID (raw):", collectionToShare);
       console.log("Client Username:", clientUsername);
-      console.log("API_BASE_URL:", API_BASE_URL);
-
-      const encodedCollectionId = encodeURIComponent(collectionToShare);
-      console.log("Encoded Collection ID:", encodedCollectionId);
 
-      const url = `${API_BASE_URL}/photographer/collections/${encodedCollectionId}/share`;
-      console.log("Full URL:", url);
-      console.log("Request body:", { clientUsername });
-
-      const response = await axios.post(url, { clientUsername });
-      console.log("Response:", response.data);
+      const data = await photographerApi.shareCollection(collectionToShare, {
+        clientUsername,
+      });
+      console.log("Response:", data);
 
-      if (response.data.success) {
+      if (data.success) {
         setSuccess("Collection shared with client successfully!");
         setShowShareModal(false);
         setCollectionToShare(null);
-        await refreshAll(); // Refresh everything after sharing
+        queryCache.invalidate(`collection:${collectionToShare}`);
+        queryCache.invalidate("collections");
+        queryCache.invalidate("clients");
       }
-    } catch (error: any) {
+    } catch (error) {
       console.error("=== Share Collection Error ===");
       console.error("Error:", error);
-      console.error("Error message:", error.message);
-      console.error("Error response:", error.response);
-      console.error("Error response data:", error.response?.data);
-      console.error("Error response status:", error.response?.status);
-      setError(error.response?.data?.message || "Failed to share collection");
+      setError(getErrorMessage(error, "Failed to share collection"));
     }
   };
 
   const togglePhotoSelection = (photoId: string) => {
-    setPhotos(
-      photos.map((photo) =>
-        photo.id === photoId ? { ...photo, selected: !photo.selected } : photo
-      )
-    );
-
     setSelectedPhotosForDownload((prev) =>
       prev.includes(photoId)
         ? prev.filter((id) => id !== photoId)
@@ -560,7 +904,6 @@ const PhotographerDashboard: React.FC = () => {
 
   const selectAllPhotos = () => {
     const allSelected = photos.every((photo) => photo.selected);
-    setPhotos(photos.map((photo) => ({ ...photo, selected: !allSelected })));
     setSelectedPhotosForDownload(
       allSelected ? [] : photos.map((photo) => photo.id)
     );
@@ -589,22 +932,9 @@ const PhotographerDashboard: React.FC = () => {
         const photo = photos.find((p) => p.id === selectedPhotosForDownload[0]);
         if (!photo) return;
 
-        const response = await axios.get(
-          `${API_BASE_URL}/photographer/photos/${photo.shareToken}/download`,
-          {
-            responseType: "blob",
-            withCredentials: true,
-          }
-        );
+        const blob = await photographerApi.downloadPhoto(photo.shareToken);
 
-        const url = window.URL.createObjectURL(new Blob([response.data]));
-        const link = document.createElement("a");
-        link.href = url;
-        link.setAttribute("download", photo.originalName || "photo.jpg");
-        document.body.appendChild(link);
-        link.click();
-        link.remove();
-        window.URL.revokeObjectURL(url);
+        await savePhoto(blob, photo.originalName || "photo.jpg");
 
         setSuccess("Photo downloaded successfully!");
       } else {
@@ -613,23 +943,9 @@ const PhotographerDashboard: React.FC = () => {
           .filter((p) => selectedPhotosForDownload.includes(p.id))
           .map((p) => p.shareToken);
 
-        const response = await axios.post(
-          `${API_BASE_URL}/photographer/photos/download-zip`,
-          { shareTokens },
-          {
-            responseType: "blob",
-            withCredentials: true,
-          }
-        );
+        const blob = await photographerApi.downloadZip(shareTokens);
 
-        const url = window.URL.createObjectURL(new Blob([response.data]));
-        const link = document.createElement("a");
-        link.href = url;
-        link.setAttribute("download", `photos-${Date.now()}.zip`);
-        document.body.appendChild(link);
-        link.click();
-        link.remove();
-        window.URL.revokeObjectURL(url);
+        saveBlob(blob, `photos-${Date.now()}.zip`);
 
         setSuccess(
           `${selectedPhotosForDownload.length} photos downloaded successfully!`
@@ -638,25 +954,17 @@ const PhotographerDashboard: React.FC = () => {
 
       // Clear selection
       setSelectedPhotosForDownload([]);
-      setPhotos(photos.map((p) => ({ ...p, selected: false })));
-    } catch (error: any) {
+    } catch (error) {
       console.error("Download error:", error);
-      setError(error.response?.data?.message || "Failed to download photos");
+      setError(getErrorMessage(error, "Failed to download photos"));
     } finally {
       setIsLoading(false);
     }
   };
 
-  const formatFileSize = (bytes: number) => {
-    if (bytes === 0) return "0 Bytes";
-    const k = 1024;
-    const sizes = ["Bytes", "KB", "MB", "GB"];
-    const i = Math.floor(Math.log(bytes) / Math.log(k));
-    return parseFloat((bytes / Math.pow(k, i)).toFixed(2)) + " " + sizes[i];
-  };
-
   return (
     <div className="min-h-screen bg-gray-50 dark:bg-gray-900">
+      <Toaster position="top-right" />
       {/* Header */}
       <div className="bg-white dark:bg-gray-800 shadow">
         <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
@@ -694,6 +1002,27 @@ const PhotographerDashboard: React.FC = () => {
           </div>
         )}
 
+        {rejectedFiles.length > 0 && (
+          <div className="mb-6 bg-yellow-50 dark:bg-yellow-900/20 border border-yellow-200 dark:border-yellow-800 text-yellow-800 dark:text-yellow-300 px-4 py-3 rounded-md">
+            <div className="flex justify-between items-start">
+              <p className="font-medium">
+                {rejectedFiles.length} file(s) were left out:
+              </p>
+              <button
+                onClick={() => setRejectedFiles([])}
+                className="text-sm hover:underline"
+              >
+                Dismiss
+              </button>
+            </div>
+            <ul className="mt-1 text-sm list-disc list-inside max-h-40 overflow-y-auto">
+              {rejectedFiles.map((reason, index) => (
+                <li key={index}>{reason}</li>
+              ))}
+            </ul>
+          </div>
+        )}
+
         {/* Tabs */}
         <div className="bg-white dark:bg-gray-800 rounded-lg shadow mb-8">
           <div className="border-b border-gray-200 dark:border-gray-700">
@@ -920,14 +1249,14 @@ const PhotographerDashboard: React.FC = () => {
                   <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
                     {collections.map((collection) => (
                       <div
-                        key={collection.collectionId}
+                        key={collection.id}
                         className="bg-white border border-gray-200 rounded-lg overflow-hidden hover:shadow-md transition-shadow fade-in-slow"
                       >
                         {/* Collection Thumbnail */}
                         <div className="w-full h-48 bg-gray-100 flex items-center justify-center relative group">
-                          {collection.thumbnailDataB64 ? (
-                            <img
-                              src={`data:image/jpeg;base64,${collection.thumbnailDataB64}`}
+                          {hasThumbnail(collection) ? (
+                            <Thumbnail
+                              source={collection}
                               alt={collection.name}
                               className="w-full h-full object-cover"
                             />
@@ -941,7 +1270,7 @@ const PhotographerDashboard: React.FC = () => {
                           <button
                             onClick={(e) => {
                               e.stopPropagation();
-                              handleDeleteCollection(collection.collectionId);
+                              handleDeleteCollection(collection.id);
                             }}
                             className="absolute top-2 right-2 bg-red-600 hover:bg-red-700 text-white p-2 rounded-full opacity-0 group-hover:opacity-100 transition-opacity"
                             title="Delete collection"
@@ -990,7 +1319,7 @@ const PhotographerDashboard: React.FC = () => {
                           <div className="flex gap-2">
                             <button
                               onClick={() => {
-                                setSelectedCollection(collection.collectionId);
+                                setSelectedCollection(collection.id);
                                 setActiveTab("photos");
                               }}
                               className="flex-1 bg-indigo-600 hover:bg-indigo-700 text-white px-3 py-2 rounded-md text-sm transition duration-200 transform hover:-translate-y-0.5"
@@ -999,13 +1328,20 @@ const PhotographerDashboard: React.FC = () => {
                             </button>
                             <button
                               onClick={() => {
-                                setCollectionToShare(collection.collectionId);
+                                setCollectionToShare(collection.id);
                                 setShowShareModal(true);
                               }}
                               className="flex-1 bg-green-600 hover:bg-green-700 text-white px-3 py-2 rounded-md text-sm transition duration-200 transform hover:-translate-y-0.5"
                             >
                               Share with Client
                             </button>
+                            <button
+                              onClick={() => setWatermarkCollection(collection)}
+                              className="bg-gray-100 hover:bg-gray-200 text-gray-700 px-3 py-2 rounded-md text-sm transition duration-200 transform hover:-translate-y-0.5"
+                              title="Watermark previews"
+                            >
+                              💧
+                            </button>
                           </div>
                         </div>
                       </div>
@@ -1037,7 +1373,6 @@ const PhotographerDashboard: React.FC = () => {
                   <button
                     onClick={() => {
                       setSelectedCollection(null);
-                      fetchPhotos();
                     }}
                     className={`px-4 py-2 rounded-md text-sm transition-colors ${
                       !selectedCollection
@@ -1050,7 +1385,6 @@ const PhotographerDashboard: React.FC = () => {
                   <button
                     onClick={() => {
                       setSelectedCollection("uncategorized");
-                      fetchPhotos();
                     }}
                     className={`px-4 py-2 rounded-md text-sm transition-colors ${
                       selectedCollection === "uncategorized"
@@ -1062,13 +1396,12 @@ const PhotographerDashboard: React.FC = () => {
                   </button>
                   {collections.map((collection) => (
                     <button
-                      key={collection.collectionId}
+                      key={collection.id}
                       onClick={() => {
-                        setSelectedCollection(collection.collectionId);
-                        fetchPhotos();
+                        setSelectedCollection(collection.id);
                       }}
                       className={`px-4 py-2 rounded-md text-sm transition-colors ${
-                        selectedCollection === collection.collectionId
+                        selectedCollection === collection.id
                           ? "bg-indigo-600 text-white"
                           : "bg-gray-200 text-gray-700 hover:bg-gray-300"
                       }`}
@@ -1089,7 +1422,7 @@ const PhotographerDashboard: React.FC = () => {
                       <input
                         type="file"
                         multiple
-                        accept="image/*"
+                        accept="image/*,.heic,.heif"
                         onChange={(e) => setSelectedFiles(e.target.files)}
                         className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-indigo-500"
                         disabled={isLoading}
@@ -1098,6 +1431,46 @@ const PhotographerDashboard: React.FC = () => {
                         Photos will be encrypted and stored securely in the
                         database
                       </p>
+                      <div
+                        onDragOver={(e) => {
+                          e.preventDefault();
+                          setIsDraggingFolder(true);
+                        }}
+                        onDragLeave={() => setIsDraggingFolder(false)}
+                        onDrop={handleFolderDrop}
+                        className={`mt-3 border-2 border-dashed rounded-md p-4 text-center text-sm transition-colors ${
+                          isDraggingFolder
+                            ? "border-indigo-500 bg-indigo-50 text-indigo-700"
+                            : "border-gray-300 text-gray-500"
+                        }`}
+                      >
+                        Or drop folders here: each folder can become a
+                        collection, and its sub-folders sections
+                      </div>
+                    </div>
+
+                    <div className="mb-4">
+                      <label className="block text-sm font-medium text-gray-700 mb-2">
+                        Privacy
+                      </label>
+                      <MetadataScrubPanel
+                        files={selectedFileList}
+                        options={stripOptions}
+                        onChange={handleStripOptionsChange}
+                        disabled={isLoading}
+                      />
+                    </div>
+
+                    <div className="mb-4">
+                      <label className="block text-sm font-medium text-gray-700 mb-2">
+                        What to upload
+                      </label>
+                      <RenditionPanel
+                        settings={renditionSettings}
+                        onChange={handleRenditionSettingsChange}
+                        sampleFile={selectedFileList[0]}
+                        disabled={isLoading}
+                      />
                     </div>
 
                     <div className="mb-4">
@@ -1113,10 +1486,7 @@ const PhotographerDashboard: React.FC = () => {
                       >
                         <option value="">Select a collection...</option>
                         {collections.map((collection) => (
-                          <option
-                            key={collection.collectionId}
-                            value={collection.collectionId}
-                          >
+                          <option key={collection.id} value={collection.id}>
                             {collection.name}
                           </option>
                         ))}
@@ -1179,20 +1549,6 @@ const PhotographerDashboard: React.FC = () => {
                       </p>
                     </div>
 
-                    {uploadProgress > 0 && (
-                      <div className="mb-4">
-                        <div className="bg-gray-200 rounded-full h-2">
-                          <div
-                            className="bg-indigo-600 h-2 rounded-full transition-all duration-300"
-                            style={{ width: `${uploadProgress}%` }}
-                          ></div>
-                        </div>
-                        <p className="text-sm text-gray-600 mt-1">
-                          {uploadProgress}% uploaded
-                        </p>
-                      </div>
-                    )}
-
                     <div className="flex justify-end">
                       <button
                         type="submit"
@@ -1296,13 +1652,13 @@ const PhotographerDashboard: React.FC = () => {
                     {/* Photos by Collection */}
                     {collections.map((collection) => {
                       const collectionPhotos = photos.filter(
-                        (p) => p.collectionId === collection.collectionId
+                        (p) => p.collectionId === collection.id
                       );
 
                       if (collectionPhotos.length === 0) return null;
 
                       return (
-                        <div key={collection.collectionId}>
+                        <div key={collection.id}>
                           <h3 className="text-lg font-semibold text-gray-800 mb-4 flex items-center border-b-2 border-gray-300 pb-2">
                             🗂️ {collection.name}
                             <span className="ml-2 text-sm text-gray-500">
@@ -1390,6 +1746,20 @@ const PhotographerDashboard: React.FC = () => {
         </div>
       </div>
 
+      {watermarkCollection && (
+        <WatermarkDesigner
+          collection={watermarkCollection}
+          onClose={() => setWatermarkCollection(null)}
+          onSaved={(watermark) =>
+            setSuccess(
+              watermark.enabled
+                ? `New uploads to "${watermarkCollection.name}" will have watermarked previews`
+                : `Watermark turned off for "${watermarkCollection.name}"`
+            )
+          }
+        />
+      )}
+
       {/* Share Collection Modal */}
       {showShareModal && (
         <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
@@ -1439,6 +1809,25 @@ const PhotographerDashboard: React.FC = () => {
         </div>
       )}
 
+      {folderDrop && (
+        <FolderMappingModal
+          plans={folderDrop.plans}
+          skipped={folderDrop.skipped}
+          collections={collections}
+          defaultCollectionId={uploadToCollection}
+          onConfirm={handleFolderMapping}
+          onCancel={() => setFolderDrop(null)}
+        />
+      )}
+
+      {duplicateReview && (
+        <DuplicateReviewModal
+          matches={duplicateReview.matches}
+          onConfirm={handleDuplicateReview}
+          onCancel={() => setDuplicateReview(null)}
+        />
+      )}
+
       {/* Upload Share Modal - Select Clients for Upload */}
       {showUploadShareModal && (
         <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
@@ -0,0 +1,187 @@
+"use client";
+
+import React, { useEffect, useState } from "react";
+import { useAuth } from "../context/AuthContext";
+import { authApi, getErrorMessage } from "../lib/api";
+import { User } from "../lib/models";
+import {
+  getPasskey,
+  isPasskeyCancelled,
+  isPasskeySupported,
+} from "../lib/passkeys";
+
+const inputClass =
+  "w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:border-transparent";
+
+interface ReauthFormProps {
+  /** Called once the user has proven it's still them */
+  onSignedIn?: () => void;
+}
+
+/**
+ * Password or passkey sign-in for the user already on the page, with the
+ * second factor if their account asks for one. Unmount it to start over.
+ */
+const ReauthForm: React.FC<ReauthFormProps> = ({ onSignedIn }) => {
+  const { user, resumeSession, logout } = useAuth();
+  const [password, setPassword] = useState("");
+  const [code, setCode] = useState("");
+  const [challengeToken, setChallengeToken] = useState<string | null>(null);
+  const [error, setError] = useState("");
+  const [isLoading, setIsLoading] = useState(false);
+  const [passkeysSupported, setPasskeysSupported] = useState(false);
+
+  useEffect(() => setPasskeysSupported(isPasskeySupported()), []);
+
+  if (!user) return null;
+
+  // Someone else's password or passkey mustn't take over this session
+  const finish = (signedIn: User, mustChangePassword?: boolean) => {
+    if (signedIn.id !== user.id) {
+      // The server has already signed them in; end that session again
+      authApi
+        .logout()
+        .catch((error) => console.error("Failed to sign out again:", error));
+      setChallengeToken(null);
+      setCode("");
+      setError(
+        `That signed in as ${signedIn.username}. Sign in as ${user.username} to carry on.`
+      );
+      return;
+    }
+    resumeSession(signedIn, mustChangePassword);
+    onSignedIn?.();
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError("");
+    setIsLoading(true);
+
+    try {
+      if (challengeToken) {
+        const data = await authApi.verifyTwoFactor({
+          challengeToken,
+          code: code.trim(),
+        });
+        finish(data.user, data.mustChangePassword);
+        return;
+      }
+
+      const data = await authApi.login({ username: user.username, password });
+      if (data.twoFactorRequired) {
+        setChallengeToken(data.challengeToken);
+        return;
+      }
+      finish(data.user, data.mustChangePassword);
+    } catch (error) {
+      setError(
+        getErrorMessage(
+          error,
+          challengeToken
+            ? "That code didn't work. Try again."
+            : "Couldn't sign you in. Check your password."
+        )
+      );
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handlePasskey = async () => {
+    setError("");
+    setIsLoading(true);
+    try {
+      const options = await authApi.getPasskeyLoginOptions();
+      const credential = await getPasskey(options);
+      const data = await authApi.loginWithPasskey({ credential });
+      finish(data.user, data.mustChangePassword);
+    } catch (error) {
+      if (!isPasskeyCancelled(error)) {
+        setError(getErrorMessage(error, "Passkey sign-in didn't work"));
+      }
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4 text-left">
+      {error && (
+        <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-md text-sm">
+          {error}
+        </div>
+      )}
+
+      {challengeToken ? (
+        <div>
+          <label
+            htmlFor="reauth-code"
+            className="block text-sm font-medium text-gray-700 mb-2"
+          >
+            Authentication code or recovery code
+          </label>
+          <input
+            id="reauth-code"
+            type="text"
+            autoComplete="one-time-code"
+            value={code}
+            onChange={(e) => setCode(e.target.value)}
+            className={`${inputClass} font-mono tracking-widest`}
+            disabled={isLoading}
+            autoFocus
+          />
+        </div>
+      ) : (
+        <div>
+          <label
+            htmlFor="reauth-password"
+            className="block text-sm font-medium text-gray-700 mb-2"
+          >
+            Password
+          </label>
+          <input
+            id="reauth-password"
+            type="password"
+            autoComplete="current-password"
+            value={password}
+            onChange={(e) => setPassword(e.target.value)}
+            className={inputClass}
+            disabled={isLoading}
+            autoFocus
+          />
+        </div>
+      )}
+
+      <div className="flex justify-end gap-2">
+        <button
+          type="button"
+          onClick={logout}
+          disabled={isLoading}
+          className="px-4 py-2 border border-gray-300 rounded-md hover:bg-gray-50 transition-colors"
+        >
+          Sign out
+        </button>
+        {passkeysSupported && !challengeToken && (
+          <button
+            type="button"
+            onClick={handlePasskey}
+            disabled={isLoading}
+            className="px-4 py-2 border border-gray-300 rounded-md hover:bg-gray-50 disabled:opacity-50 transition-colors"
+          >
+            🔑 Passkey
+          </button>
+        )}
+        <button
+          type="submit"
+          disabled={isLoading || (challengeToken ? !code.trim() : !password)}
+          className="px-4 py-2 bg-indigo-600 text-white rounded-md hover:bg-indigo-700 disabled:opacity-50 transition-colors"
+        >
+          {isLoading ? "Signing in..." : challengeToken ? "Verify" : "Sign in"}
+        </button>
+      </div>
+    </form>
+  );
+};
+
+export default ReauthForm;
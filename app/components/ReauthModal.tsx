@@ -0,0 +1,36 @@
+"use client";
+
+import React, { useEffect, useState } from "react";
+import { useAuth } from "../context/AuthContext";
+import { reauthGate } from "../lib/session";
+import ReauthForm from "./ReauthForm";
+
+/**
+ * Sign-in prompt shown over the current page when the session can't be
+ * refreshed. Requests that failed meanwhile are held and retried once it
+ * succeeds, so nothing typed on the page is lost.
+ */
+const ReauthModal: React.FC = () => {
+  const { user } = useAuth();
+  const [pending, setPending] = useState(reauthGate.pending);
+
+  useEffect(() => reauthGate.subscribe(setPending), []);
+
+  // The form unmounts with the prompt, so each opening starts clean
+  if (!pending || !user) return null;
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-lg p-6 max-w-md w-full mx-4 text-gray-900">
+        <h3 className="text-xl font-bold mb-2">🔒 Session expired</h3>
+        <p className="text-sm text-gray-600 mb-4">
+          Sign in again as <strong>{user.username}</strong> to carry on where
+          you left off. Nothing on this page has been lost.
+        </p>
+        <ReauthForm />
+      </div>
+    </div>
+  );
+};
+
+export default ReauthModal;
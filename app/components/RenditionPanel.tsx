@@ -0,0 +1,208 @@
+"use client";
+
+import React, { useEffect, useState } from "react";
+import {
+  createRendition,
+  isImagingSupported,
+  Rendition,
+  RENDITION_FORMAT_LABELS,
+  RenditionFormat,
+  RenditionSettings,
+  UPLOAD_MODE_LABELS,
+  UploadMode,
+} from "../lib/imaging";
+import { formatFileSize } from "../lib/format";
+
+interface RenditionPanelProps {
+  settings: RenditionSettings;
+  onChange: (settings: RenditionSettings) => void;
+  /** File used for the size preview, usually the first selected one */
+  sampleFile?: File;
+  disabled?: boolean;
+}
+
+const modes = Object.keys(UPLOAD_MODE_LABELS) as UploadMode[];
+const formats = Object.keys(RENDITION_FORMAT_LABELS) as RenditionFormat[];
+const maxEdges = [1600, 2048, 2560, 3200, 3840];
+
+/**
+ * Choose between uploading originals, a resized web rendition, or both,
+ * with a preview of what the rendition settings do to one of the files.
+ */
+const RenditionPanel: React.FC<RenditionPanelProps> = ({
+  settings,
+  onChange,
+  sampleFile,
+  disabled = false,
+}) => {
+  const [supported, setSupported] = useState(true);
+  const [preview, setPreview] = useState<Rendition | null>(null);
+  const [previewUrl, setPreviewUrl] = useState<string | null>(null);
+  const [previewError, setPreviewError] = useState("");
+  const [isPreviewing, setIsPreviewing] = useState(false);
+
+  // Feature detection has to wait for the browser
+  useEffect(() => {
+    setSupported(isImagingSupported());
+  }, []);
+
+  // A preview only describes the settings and file it was made with
+  useEffect(() => {
+    setPreview(null);
+    setPreviewError("");
+  }, [settings, sampleFile]);
+
+  useEffect(() => {
+    if (!preview) {
+      setPreviewUrl(null);
+      return;
+    }
+    const url = URL.createObjectURL(preview.thumbnail);
+    setPreviewUrl(url);
+    return () => URL.revokeObjectURL(url);
+  }, [preview]);
+
+  const update = (changes: Partial<RenditionSettings>) =>
+    onChange({ ...settings, ...changes });
+
+  const handlePreview = async () => {
+    if (!sampleFile) return;
+    setIsPreviewing(true);
+    setPreviewError("");
+    try {
+      setPreview(await createRendition(sampleFile, settings));
+    } catch (error) {
+      setPreviewError((error as Error).message);
+    } finally {
+      setIsPreviewing(false);
+    }
+  };
+
+  if (!supported) {
+    return (
+      <p className="text-xs text-gray-500">
+        This browser can&apos;t resize photos before upload, so originals will
+        be sent.
+      </p>
+    );
+  }
+
+  return (
+    <div className="border border-gray-200 rounded-md p-3 bg-white text-sm">
+      <div className="flex flex-wrap gap-4">
+        {modes.map((mode) => (
+          <label key={mode} className="flex items-center text-gray-700">
+            <input
+              type="radio"
+              name="upload-mode"
+              checked={settings.mode === mode}
+              onChange={() => update({ mode })}
+              disabled={disabled}
+              className="mr-2"
+            />
+            {UPLOAD_MODE_LABELS[mode]}
+          </label>
+        ))}
+      </div>
+
+      {settings.mode !== "original" && (
+        <>
+          <div className="grid grid-cols-1 sm:grid-cols-3 gap-3 mt-3">
+            <label className="text-xs text-gray-600">
+              Longest edge
+              <select
+                value={settings.maxEdge}
+                onChange={(e) => update({ maxEdge: Number(e.target.value) })}
+                disabled={disabled}
+                className="w-full mt-1 px-2 py-1 border border-gray-300 rounded-md"
+              >
+                {maxEdges.map((edge) => (
+                  <option key={edge} value={edge}>
+                    {edge}px
+                  </option>
+                ))}
+              </select>
+            </label>
+            <label className="text-xs text-gray-600">
+              Format
+              <select
+                value={settings.format}
+                onChange={(e) =>
+                  update({ format: e.target.value as RenditionFormat })
+                }
+                disabled={disabled}
+                className="w-full mt-1 px-2 py-1 border border-gray-300 rounded-md"
+              >
+                {formats.map((format) => (
+                  <option key={format} value={format}>
+                    {RENDITION_FORMAT_LABELS[format]}
+                  </option>
+                ))}
+              </select>
+            </label>
+            <label className="text-xs text-gray-600">
+              Quality: {Math.round(settings.quality * 100)}
+              <input
+                type="range"
+                min={50}
+                max={95}
+                value={Math.round(settings.quality * 100)}
+                onChange={(e) =>
+                  update({ quality: Number(e.target.value) / 100 })
+                }
+                disabled={disabled}
+                className="w-full mt-2"
+              />
+            </label>
+          </div>
+
+          {sampleFile && (
+            <div className="mt-3 text-xs">
+              <button
+                type="button"
+                onClick={handlePreview}
+                disabled={disabled || isPreviewing}
+                className="text-indigo-600 hover:text-indigo-800 disabled:text-gray-400"
+              >
+                {isPreviewing
+                  ? "Generating preview..."
+                  : `Preview with ${sampleFile.name}`}
+              </button>
+
+              {previewError && (
+                <p className="text-red-600 mt-1">{previewError}</p>
+              )}
+
+              {preview && (
+                <div className="flex items-center gap-3 mt-2">
+                  {previewUrl && (
+                    <img
+                      src={previewUrl}
+                      alt="Rendition preview"
+                      className="w-16 h-16 object-cover rounded"
+                    />
+                  )}
+                  <div className="text-gray-600">
+                    <p>
+                      {formatFileSize(sampleFile.size)} →{" "}
+                      {formatFileSize(preview.file.size)}, {preview.width}×
+                      {preview.height}
+                    </p>
+                    {preview.file.type !== settings.format && (
+                      <p className="text-yellow-700">
+                        {RENDITION_FORMAT_LABELS[settings.format]} isn&apos;t
+                        supported here; JPEG will be used instead.
+                      </p>
+                    )}
+                  </div>
+                </div>
+              )}
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
+
+export default RenditionPanel;
@@ -0,0 +1,109 @@
+"use client";
+
+import React, { useEffect, useState } from "react";
+import { useAuth } from "../context/AuthContext";
+import { authApi } from "../lib/api";
+import { reauthGate, sessionExpiry } from "../lib/session";
+
+// How long before the session ends to start warning
+const WARNING_WINDOW = 2 * 60 * 1000;
+const MAX_SLEEP = 60 * 60 * 1000;
+
+const formatRemaining = (ms: number) => {
+  const seconds = Math.max(0, Math.ceil(ms / 1000));
+  return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, "0")}`;
+};
+
+/**
+ * Counts down the last couple of minutes of the session, with a button to
+ * extend it. Relies on the backend reporting the expiry; renders nothing
+ * otherwise.
+ */
+const SessionExpiryWarning: React.FC = () => {
+  const { user } = useAuth();
+  const [expiresAt, setExpiresAt] = useState(sessionExpiry.expiresAt);
+  const [now, setNow] = useState(() => Date.now());
+  const [dismissedFor, setDismissedFor] = useState<number | null>(null);
+  const [isRenewing, setIsRenewing] = useState(false);
+  const [reauthPending, setReauthPending] = useState(reauthGate.pending);
+
+  useEffect(() => sessionExpiry.subscribe(setExpiresAt), []);
+  useEffect(() => reauthGate.subscribe(setReauthPending), []);
+
+  const remaining = expiresAt === null ? Infinity : expiresAt - now;
+  const phase =
+    remaining > WARNING_WINDOW ? "before" : remaining > 0 ? "warning" : "over";
+
+  // Tick once a second inside the window; otherwise wake up when it opens
+  useEffect(() => {
+    if (expiresAt === null || phase === "over") return;
+    if (phase === "warning") {
+      const timer = setInterval(() => setNow(Date.now()), 1000);
+      return () => clearInterval(timer);
+    }
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const wake = () => {
+      const untilWarning = expiresAt - WARNING_WINDOW - Date.now();
+      if (untilWarning <= 0) {
+        setNow(Date.now());
+        return;
+      }
+      // Re-check at least hourly rather than trust one very long timeout
+      timer = setTimeout(wake, Math.min(untilWarning, MAX_SLEEP));
+    };
+    wake();
+    return () => clearTimeout(timer);
+  }, [expiresAt, phase]);
+
+  // A new expiry starts from the current time, not the last tick
+  useEffect(() => setNow(Date.now()), [expiresAt]);
+
+  if (
+    !user ||
+    reauthPending ||
+    phase !== "warning" ||
+    dismissedFor === expiresAt
+  ) {
+    return null;
+  }
+
+  const staySignedIn = async () => {
+    setIsRenewing(true);
+    try {
+      // The new expiry arrives in the response header
+      await authApi.refresh();
+      console.log("✅ Session extended");
+    } catch (error) {
+      console.error("Failed to extend session:", error);
+    } finally {
+      setIsRenewing(false);
+    }
+  };
+
+  return (
+    <div className="fixed bottom-4 left-1/2 -translate-x-1/2 z-50 w-full max-w-md px-4">
+      <div className="bg-yellow-50 border border-yellow-300 text-yellow-900 rounded-lg shadow-lg px-4 py-3 flex items-center gap-4">
+        <span className="text-sm flex-1">
+          ⏳ Your session ends in{" "}
+          <strong className="font-mono">{formatRemaining(remaining)}</strong>
+        </span>
+        <button
+          onClick={staySignedIn}
+          disabled={isRenewing}
+          className="px-3 py-1 text-sm bg-indigo-600 text-white rounded-md hover:bg-indigo-700 disabled:opacity-50 transition-colors"
+        >
+          {isRenewing ? "Extending..." : "Stay signed in"}
+        </button>
+        <button
+          onClick={() => setDismissedFor(expiresAt)}
+          className="text-yellow-700 hover:text-yellow-900"
+          title="Dismiss"
+        >
+          ✕
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default SessionExpiryWarning;
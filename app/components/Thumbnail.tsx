@@ -0,0 +1,50 @@
+"use client";
+
+import React from "react";
+import { useThumbnail } from "../hooks/useThumbnail";
+import { ThumbnailSource } from "../lib/models";
+
+interface ThumbnailProps
+  extends Omit<React.ImgHTMLAttributes<HTMLImageElement>, "src"> {
+  source: ThumbnailSource;
+}
+
+// Transparent 1x1 GIF, so the placeholder is still an <img> with every prop
+const BLANK =
+  "data:image/gif;base64,R0lGODlhAQABAIAAAAAAAP///yH5BAEAAAAALAAAAAABAAEAAAIBRAA7";
+
+/**
+ * Thumbnail image that works with both URL and base64 listings. Shows a
+ * pulsing placeholder with the same classes and handlers while the blob is
+ * on its way, and a plain grey one if it couldn't be loaded. Load and error
+ * handlers only see the real image, so the blank never gets measured.
+ */
+const Thumbnail: React.FC<ThumbnailProps> = ({
+  source,
+  alt,
+  onLoad,
+  onError,
+  ...imgProps
+}) => {
+  const { src, failed } = useThumbnail(source);
+
+  if (!src) {
+    return (
+      <img
+        {...imgProps}
+        src={BLANK}
+        alt={alt}
+        title={failed ? "Thumbnail unavailable" : imgProps.title}
+        className={`${imgProps.className ?? ""} bg-gray-200 ${
+          failed ? "" : "animate-pulse"
+        }`}
+      />
+    );
+  }
+
+  return (
+    <img src={src} alt={alt} onLoad={onLoad} onError={onError} {...imgProps} />
+  );
+};
+
+export default Thumbnail;
@@ -0,0 +1,40 @@
+"use client";
+
+import React from "react";
+import toast, { Toast } from "react-hot-toast";
+import { UNDO_WINDOW } from "../lib/query";
+
+interface UndoToastProps {
+  toast: Toast;
+  message: string;
+  onUndo: () => void;
+}
+
+/** Toast body with an Undo button, for changes that can still be taken back */
+const UndoToast: React.FC<UndoToastProps> = ({ toast: t, message, onUndo }) => (
+  <span className="flex items-center gap-4">
+    <span>{message}</span>
+    <button
+      onClick={() => {
+        toast.dismiss(t.id);
+        onUndo();
+      }}
+      className="font-medium text-indigo-600 hover:text-indigo-700"
+    >
+      Undo
+    </button>
+  </span>
+);
+
+/** Show `message` with an Undo button for as long as the undo window lasts */
+export const showUndoToast = (
+  message: string,
+  onUndo: () => void,
+  duration = UNDO_WINDOW
+) =>
+  toast((t) => <UndoToast toast={t} message={message} onUndo={onUndo} />, {
+    duration,
+    icon: "🗑️",
+  });
+
+export default UndoToast;
@@ -1,15 +1,29 @@
 "use client";
 
-import React, { useState } from "react";
+import React, { useEffect, useState } from "react";
 import { useAuth } from "../context/AuthContext";
+import { getErrorMessage } from "../lib/api";
+import { isPasskeySupported } from "../lib/passkeys";
 
 const UnifiedLogin: React.FC = () => {
   const [username, setUsername] = useState("");
   const [password, setPassword] = useState("");
   const [error, setError] = useState("");
   const [isLoading, setIsLoading] = useState(false);
+  const [code, setCode] = useState("");
+  const [useRecoveryCode, setUseRecoveryCode] = useState(false);
+  const [passkeysSupported, setPasskeysSupported] = useState(false);
 
-  const { login } = useAuth();
+  const {
+    login,
+    loginWithPasskey,
+    twoFactorPending,
+    verifyTwoFactor,
+    cancelTwoFactor,
+  } = useAuth();
+
+  // Checked after mount so the server render matches the first client one
+  useEffect(() => setPasskeysSupported(isPasskeySupported()), []);
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -24,11 +38,11 @@ const UnifiedLogin: React.FC = () => {
 
     try {
       console.log("Attempting login...");
-      const success = await login(username, password);
+      const outcome = await login(username, password);
 
-      console.log("Login result:", success);
+      console.log("Login result:", outcome);
 
-      if (!success) {
+      if (outcome === "failed") {
         setError(
           "Invalid credentials. Please check your username and password."
         );
@@ -42,6 +56,60 @@ const UnifiedLogin: React.FC = () => {
     }
   };
 
+  const handlePasskey = async () => {
+    setError("");
+    setIsLoading(true);
+    try {
+      const outcome = await loginWithPasskey();
+      if (outcome === "failed") {
+        setError(
+          "Passkey sign-in didn't work. You can still sign in with your password."
+        );
+      }
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleVerify = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError("");
+
+    if (!code.trim()) {
+      setError(
+        useRecoveryCode
+          ? "Please enter one of your recovery codes"
+          : "Please enter the 6-digit code from your authenticator app"
+      );
+      return;
+    }
+
+    setIsLoading(true);
+    try {
+      await verifyTwoFactor(code);
+    } catch (error) {
+      console.error("Two-factor verification failed:", error);
+      setError(getErrorMessage(error, "That code didn't work. Try again."));
+      setCode("");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const toggleRecoveryCode = () => {
+    setUseRecoveryCode(!useRecoveryCode);
+    setCode("");
+    setError("");
+  };
+
+  const backToLogin = () => {
+    cancelTwoFactor();
+    setCode("");
+    setUseRecoveryCode(false);
+    setPassword("");
+    setError("");
+  };
+
   return (
     <div className="min-h-screen bg-gradient-to-br from-blue-50 to-indigo-100 flex items-center justify-center">
       <div className="max-w-md w-full mx-4">
@@ -56,88 +124,175 @@ const UnifiedLogin: React.FC = () => {
         {/* Login Form */}
         <div className="bg-white rounded-lg shadow-lg p-8">
           <h2 className="text-2xl font-semibold text-gray-800 mb-6 text-center">
-            Login
+            {twoFactorPending ? "Two-Factor Authentication" : "Login"}
           </h2>
 
-          <form onSubmit={handleSubmit} className="space-y-6">
-            {error && (
-              <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-md">
-                {error}
+          {twoFactorPending ? (
+            <form onSubmit={handleVerify} className="space-y-6">
+              {error && (
+                <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-md">
+                  {error}
+                </div>
+              )}
+
+              <p className="text-sm text-gray-600">
+                {useRecoveryCode
+                  ? "Enter one of the recovery codes you saved when you set up two-factor authentication. Each code works once."
+                  : "Enter the 6-digit code shown in your authenticator app."}
+              </p>
+
+              <div>
+                <label
+                  htmlFor="code"
+                  className="block text-sm font-medium text-gray-700 mb-2"
+                >
+                  {useRecoveryCode ? "Recovery code" : "Authentication code"}
+                </label>
+                <input
+                  type="text"
+                  id="code"
+                  value={code}
+                  onChange={(e) => setCode(e.target.value)}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md font-mono tracking-widest focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:border-transparent"
+                  placeholder={useRecoveryCode ? "xxxxx-xxxxx" : "123456"}
+                  disabled={isLoading}
+                  autoFocus
+                  {...(useRecoveryCode
+                    ? { autoComplete: "off" }
+                    : {
+                        autoComplete: "one-time-code",
+                        inputMode: "numeric" as const,
+                        maxLength: 6,
+                      })}
+                />
               </div>
-            )}
 
-            <div>
-              <label
-                htmlFor="username"
-                className="block text-sm font-medium text-gray-700 mb-2"
-              >
-                Username
-              </label>
-              <input
-                type="text"
-                id="username"
-                value={username}
-                onChange={(e) => setUsername(e.target.value)}
-                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:border-transparent"
-                placeholder="Enter your username"
+              <button
+                type="submit"
                 disabled={isLoading}
-                autoComplete="username"
-              />
-            </div>
-
-            <div>
-              <label
-                htmlFor="password"
-                className="block text-sm font-medium text-gray-700 mb-2"
+                className="w-full bg-indigo-600 text-white py-2 px-4 rounded-md hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:ring-offset-2 disabled:opacity-50 disabled:cursor-not-allowed transition duration-200"
               >
-                Password
-              </label>
-              <input
-                type="password"
-                id="password"
-                value={password}
-                onChange={(e) => setPassword(e.target.value)}
-                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:border-transparent"
-                placeholder="Enter your password"
+                {isLoading ? "Verifying..." : "Verify"}
+              </button>
+
+              <div className="flex justify-between text-sm">
+                <button
+                  type="button"
+                  onClick={backToLogin}
+                  className="text-gray-600 hover:text-gray-800"
+                >
+                  ← Back to login
+                </button>
+                <button
+                  type="button"
+                  onClick={toggleRecoveryCode}
+                  className="text-indigo-600 hover:text-indigo-700"
+                >
+                  {useRecoveryCode
+                    ? "Use authenticator app"
+                    : "Use a recovery code"}
+                </button>
+              </div>
+            </form>
+          ) : (
+            <form onSubmit={handleSubmit} className="space-y-6">
+              {error && (
+                <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-md">
+                  {error}
+                </div>
+              )}
+
+              <div>
+                <label
+                  htmlFor="username"
+                  className="block text-sm font-medium text-gray-700 mb-2"
+                >
+                  Username
+                </label>
+                <input
+                  type="text"
+                  id="username"
+                  value={username}
+                  onChange={(e) => setUsername(e.target.value)}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:border-transparent"
+                  placeholder="Enter your username"
+                  disabled={isLoading}
+                  autoComplete="username"
+                />
+              </div>
+
+              <div>
+                <label
+                  htmlFor="password"
+                  className="block text-sm font-medium text-gray-700 mb-2"
+                >
+                  Password
+                </label>
+                <input
+                  type="password"
+                  id="password"
+                  value={password}
+                  onChange={(e) => setPassword(e.target.value)}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:border-transparent"
+                  placeholder="Enter your password"
+                  disabled={isLoading}
+                  autoComplete="current-password"
+                />
+              </div>
+
+              <button
+                type="submit"
                 disabled={isLoading}
-                autoComplete="current-password"
-              />
-            </div>
+                className="w-full bg-indigo-600 text-white py-2 px-4 rounded-md hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:ring-offset-2 disabled:opacity-50 disabled:cursor-not-allowed transition duration-200"
+              >
+                {isLoading ? (
+                  <span className="flex items-center justify-center">
+                    <svg
+                      className="animate-spin -ml-1 mr-3 h-5 w-5 text-white"
+                      xmlns="http://www.w3.org/2000/svg"
+                      fill="none"
+                      viewBox="0 0 24 24"
+                    >
+                      <circle
+                        className="opacity-25"
+                        cx="12"
+                        cy="12"
+                        r="10"
+                        stroke="currentColor"
+                        strokeWidth="4"
+                      ></circle>
+                      <path
+                        className="opacity-75"
+                        fill="currentColor"
+                        d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"
+                      ></path>
+                    </svg>
+                    Signing in...
+                  </span>
+                ) : (
+                  "Sign In"
+                )}
+              </button>
 
-            <button
-              type="submit"
-              disabled={isLoading}
-              className="w-full bg-indigo-600 text-white py-2 px-4 rounded-md hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:ring-offset-2 disabled:opacity-50 disabled:cursor-not-allowed transition duration-200"
-            >
-              {isLoading ? (
-                <span className="flex items-center justify-center">
-                  <svg
-                    className="animate-spin -ml-1 mr-3 h-5 w-5 text-white"
-                    xmlns="http://www.w3.org/2000/svg"
-                    fill="none"
-                    viewBox="0 0 24 24"
+              {passkeysSupported && (
+                <>
+                  <div className="flex items-center gap-3 text-xs text-gray-400">
+                    <span className="flex-1 border-t border-gray-200" />
+                    or
+                    <span className="flex-1 border-t border-gray-200" />
+                  </div>
+                  <button
+                    type="button"
+                    onClick={handlePasskey}
+                    disabled={isLoading}
+                    className="w-full border border-gray-300 text-gray-700 py-2 px-4 rounded-md hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:ring-offset-2 disabled:opacity-50 disabled:cursor-not-allowed transition duration-200"
                   >
-                    <circle
-                      className="opacity-25"
-                      cx="12"
-                      cy="12"
-                      r="10"
-                      stroke="currentColor"
-                      strokeWidth="4"
-                    ></circle>
-                    <path
-                      className="opacity-75"
-                      fill="currentColor"
-                      d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"
-                    ></path>
-                  </svg>
-                  Signing in...
-                </span>
-              ) : (
-                "Sign In"
+                    🔑 Sign in with passkey
+                  </button>
+                </>
               )}
-            </button>
-          </form>
+            </form>
+          )}
 
           {/* Info Section */}
           <div className="mt-8 p-4 bg-blue-50 rounded-md">
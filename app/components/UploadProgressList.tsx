@@ -0,0 +1,105 @@
+"use client";
+
+import React from "react";
+import { UploadSnapshot, UploadStatus } from "../lib/chunkedUpload";
+import { formatFileSize } from "../lib/format";
+
+interface UploadProgressListProps {
+  items: UploadSnapshot[];
+  onPause: (id: string) => void;
+  onResume: (id: string) => void;
+  onCancel: (id: string) => void;
+}
+
+const statusLabels: Record<UploadStatus, string> = {
+  queued: "Waiting...",
+  uploading: "Uploading",
+  paused: "Paused",
+  error: "Failed",
+  done: "Done",
+  cancelled: "Cancelled",
+};
+
+const barColors: Record<UploadStatus, string> = {
+  queued: "bg-gray-400",
+  uploading: "bg-indigo-600",
+  paused: "bg-yellow-500",
+  error: "bg-red-600",
+  done: "bg-green-600",
+  cancelled: "bg-gray-400",
+};
+
+const UploadProgressList: React.FC<UploadProgressListProps> = ({
+  items,
+  onPause,
+  onResume,
+  onCancel,
+}) => {
+  if (items.length === 0) return null;
+
+  return (
+    <ul className="space-y-3">
+      {items.map((item) => {
+        const percent =
+          item.size > 0 ? Math.round((item.uploadedBytes * 100) / item.size) : 0;
+        const isFinished = item.status === "done" || item.status === "cancelled";
+
+        return (
+          <li key={item.id} className="text-sm">
+            <div className="flex justify-between items-center mb-1 gap-4">
+              <span className="truncate text-gray-800 dark:text-gray-200">
+                {item.name}
+              </span>
+              <div className="flex items-center gap-3 shrink-0">
+                <span className="text-xs text-gray-500">
+                  {formatFileSize(item.uploadedBytes)} /{" "}
+                  {formatFileSize(item.size)} · {statusLabels[item.status]}
+                </span>
+                {(item.status === "queued" || item.status === "uploading") && (
+                  <button
+                    type="button"
+                    onClick={() => onPause(item.id)}
+                    className="text-xs text-yellow-600 hover:text-yellow-800"
+                  >
+                    Pause
+                  </button>
+                )}
+                {(item.status === "paused" || item.status === "error") && (
+                  <button
+                    type="button"
+                    onClick={() => onResume(item.id)}
+                    className="text-xs text-indigo-600 hover:text-indigo-800"
+                  >
+                    {item.status === "error" ? "Retry" : "Resume"}
+                  </button>
+                )}
+                {!isFinished && (
+                  <button
+                    type="button"
+                    onClick={() => onCancel(item.id)}
+                    className="text-xs text-red-600 hover:text-red-800"
+                  >
+                    Cancel
+                  </button>
+                )}
+              </div>
+            </div>
+            <div className="bg-gray-200 rounded-full h-2">
+              <div
+                className={`${
+                  barColors[item.status]
+                } h-2 rounded-full transition-all duration-300`}
+                style={{ width: `${percent}%` }}
+              ></div>
+            </div>
+            {item.error && (
+              <p className="text-xs text-red-600 mt-1">{item.error}</p>
+            )}
+          </li>
+        );
+      })}
+    </ul>
+  );
+};
+
+export default UploadProgressList;
@@ -0,0 +1,125 @@
+"use client";
+
+import React, { useState } from "react";
+import { useUploadQueue } from "../context/UploadQueueContext";
+import { MAX_PARALLEL_UPLOADS } from "../lib/chunkedUpload";
+import UploadProgressList from "./UploadProgressList";
+
+const parallelismOptions = Array.from(
+  { length: MAX_PARALLEL_UPLOADS },
+  (_, i) => i + 1
+);
+
+/**
+ * Floating tray with every queued upload. Lives in the root layout so
+ * progress stays visible whichever tab or page the photographer is on.
+ */
+const UploadTray: React.FC = () => {
+  const {
+    items,
+    pause,
+    resume,
+    cancel,
+    retryFailed,
+    clearFinished,
+    parallelism,
+    setParallelism,
+  } = useUploadQueue();
+  const [isCollapsed, setIsCollapsed] = useState(false);
+  const [showFailures, setShowFailures] = useState(false);
+
+  if (items.length === 0) return null;
+
+  const done = items.filter((item) => item.status === "done").length;
+  const failed = items.filter((item) => item.status === "error");
+  const active = items.filter(
+    (item) => item.status === "uploading" || item.status === "queued"
+  ).length;
+
+  return (
+    <div className="fixed bottom-4 right-4 z-40 w-96 max-w-[calc(100vw-2rem)] bg-white dark:bg-gray-800 rounded-lg shadow-xl border border-gray-200 dark:border-gray-700">
+      <div className="flex justify-between items-center px-4 py-3 border-b border-gray-200 dark:border-gray-700">
+        <div className="text-sm">
+          <p className="font-medium text-gray-800 dark:text-gray-100">
+            {active > 0
+              ? `Uploading ${done} of ${items.length}`
+              : `${done} of ${items.length} uploaded`}
+          </p>
+          {failed.length > 0 && (
+            <button
+              type="button"
+              onClick={() => setShowFailures(!showFailures)}
+              className="text-xs text-red-600 hover:text-red-800"
+            >
+              {failed.length} failed
+            </button>
+          )}
+        </div>
+        <button
+          type="button"
+          onClick={() => setIsCollapsed(!isCollapsed)}
+          className="text-xs text-gray-500 hover:text-gray-700"
+        >
+          {isCollapsed ? "Show" : "Hide"}
+        </button>
+      </div>
+
+      {showFailures && failed.length > 0 && (
+        <div className="px-4 py-3 border-b border-gray-200 dark:border-gray-700 bg-red-50 dark:bg-red-900/20 text-xs">
+          <ul className="space-y-1 mb-2 max-h-32 overflow-y-auto">
+            {failed.map((item) => (
+              <li key={item.id} className="text-red-700 dark:text-red-300">
+                <span className="font-medium">{item.name}</span>: {item.error}
+              </li>
+            ))}
+          </ul>
+          <button
+            type="button"
+            onClick={retryFailed}
+            className="text-indigo-600 hover:text-indigo-800"
+          >
+            Retry all failed
+          </button>
+        </div>
+      )}
+
+      {!isCollapsed && (
+        <>
+          <div className="px-4 py-3 max-h-80 overflow-y-auto">
+            <UploadProgressList
+              items={items}
+              onPause={pause}
+              onResume={resume}
+              onCancel={cancel}
+            />
+          </div>
+          <div className="flex justify-between items-center px-4 py-2 border-t border-gray-200 dark:border-gray-700 text-xs text-gray-500">
+            <label className="flex items-center gap-2">
+              At once:
+              <select
+                value={parallelism}
+                onChange={(e) => setParallelism(Number(e.target.value))}
+                className="px-1 py-0.5 border border-gray-300 rounded bg-white dark:bg-gray-700"
+              >
+                {parallelismOptions.map((limit) => (
+                  <option key={limit} value={limit}>
+                    {limit}
+                  </option>
+                ))}
+              </select>
+            </label>
+            <button
+              type="button"
+              onClick={clearFinished}
+              className="hover:text-gray-700"
+            >
+              Clear finished
+            </button>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default UploadTray;
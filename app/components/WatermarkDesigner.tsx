@@ -0,0 +1,348 @@
+"use client";
+
+import React, { useEffect, useRef, useState } from "react";
+import { photographerApi, getErrorMessage } from "../lib/api";
+import {
+  Collection,
+  DEFAULT_WATERMARK,
+  Watermark,
+  WATERMARK_POSITIONS,
+  WatermarkPosition,
+} from "../lib/models";
+import { drawWatermark, readLogo } from "../lib/imaging";
+import { useThumbnail } from "../hooks/useThumbnail";
+
+interface WatermarkDesignerProps {
+  collection: Collection;
+  onClose: () => void;
+  onSaved?: (watermark: Watermark) => void;
+}
+
+const POSITION_ARROWS: Record<WatermarkPosition, string> = {
+  "top-left": "↖",
+  top: "↑",
+  "top-right": "↗",
+  left: "←",
+  center: "•",
+  right: "→",
+  "bottom-left": "↙",
+  bottom: "↓",
+  "bottom-right": "↘",
+};
+
+const PREVIEW_WIDTH = 480;
+const PREVIEW_HEIGHT = 320;
+
+const loadImage = (src: string) =>
+  new Promise<HTMLImageElement>((resolve, reject) => {
+    const image = new Image();
+    image.onload = () => resolve(image);
+    image.onerror = () => reject(new Error("Could not load image"));
+    image.src = src;
+  });
+
+/**
+ * Per-collection watermark settings with a live preview over the
+ * collection's cover. Saved settings apply to every later upload into the
+ * collection; what's already uploaded is left alone.
+ */
+const WatermarkDesigner: React.FC<WatermarkDesignerProps> = ({
+  collection,
+  onClose,
+  onSaved,
+}) => {
+  const [watermark, setWatermark] = useState<Watermark>(DEFAULT_WATERMARK);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState("");
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const { src: cover } = useThumbnail(collection);
+
+  useEffect(() => {
+    let cancelled = false;
+    photographerApi
+      .getWatermark(collection.id)
+      .then(({ watermark: saved }) => {
+        if (!cancelled && saved) setWatermark(saved);
+      })
+      .catch((error) => {
+        if (!cancelled) {
+          setError(getErrorMessage(error, "Failed to load the watermark"));
+        }
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [collection.id]);
+
+  // Redraw the preview whenever anything changes
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const context = canvas?.getContext("2d");
+    if (!canvas || !context) return;
+    let cancelled = false;
+
+    const render = async () => {
+      const [background, logo] = await Promise.all([
+        cover ? loadImage(cover).catch(() => null) : null,
+        watermark.logo ? loadImage(watermark.logo).catch(() => null) : null,
+      ]);
+      if (cancelled) return;
+
+      if (background) {
+        // Cover-fit the photo into the preview
+        const scale = Math.max(
+          PREVIEW_WIDTH / background.width,
+          PREVIEW_HEIGHT / background.height
+        );
+        const width = background.width * scale;
+        const height = background.height * scale;
+        context.drawImage(
+          background,
+          (PREVIEW_WIDTH - width) / 2,
+          (PREVIEW_HEIGHT - height) / 2,
+          width,
+          height
+        );
+      } else {
+        const gradient = context.createLinearGradient(
+          0,
+          0,
+          PREVIEW_WIDTH,
+          PREVIEW_HEIGHT
+        );
+        gradient.addColorStop(0, "#94a3b8");
+        gradient.addColorStop(1, "#334155");
+        context.fillStyle = gradient;
+        context.fillRect(0, 0, PREVIEW_WIDTH, PREVIEW_HEIGHT);
+      }
+
+      if (watermark.enabled) {
+        drawWatermark(
+          context,
+          PREVIEW_WIDTH,
+          PREVIEW_HEIGHT,
+          watermark,
+          logo ?? undefined
+        );
+      }
+    };
+
+    render();
+    return () => {
+      cancelled = true;
+    };
+  }, [watermark, cover]);
+
+  const update = (changes: Partial<Watermark>) =>
+    setWatermark((prev) => ({ ...prev, ...changes }));
+
+  const handleLogoChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    setError("");
+    try {
+      update({ logo: await readLogo(file), kind: "logo" });
+    } catch (error) {
+      console.error("❌ Failed to read logo:", error);
+      setError(`Couldn't read ${file.name} as an image`);
+    }
+  };
+
+  const isValid =
+    !watermark.enabled ||
+    (watermark.kind === "text" ? watermark.text.trim() : watermark.logo);
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    setError("");
+    try {
+      const data = await photographerApi.saveWatermark(
+        collection.id,
+        watermark
+      );
+      if (data.success) {
+        console.log(`💧 Saved watermark for "${collection.name}"`);
+        onSaved?.(watermark);
+        onClose();
+      }
+    } catch (error) {
+      setError(getErrorMessage(error, "Failed to save the watermark"));
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-lg p-6 max-w-3xl w-full mx-4 max-h-[90vh] overflow-y-auto">
+        <h3 className="text-xl font-bold mb-2">Watermark</h3>
+        <p className="text-gray-600 mb-4">
+          Clients and guests of “{collection.name}” see watermarked previews;
+          originals are kept unmarked for final delivery. Applies to photos
+          uploaded from now on.
+        </p>
+
+        {error && (
+          <div className="mb-4 bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-md text-sm">
+            {error}
+          </div>
+        )}
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+          <canvas
+            ref={canvasRef}
+            width={PREVIEW_WIDTH}
+            height={PREVIEW_HEIGHT}
+            className="w-full rounded-md border border-gray-200"
+          />
+
+          <div className="space-y-4 text-sm">
+            <label className="flex items-center font-medium text-gray-700">
+              <input
+                type="checkbox"
+                checked={watermark.enabled}
+                onChange={(e) => update({ enabled: e.target.checked })}
+                disabled={isLoading}
+                className="mr-2"
+              />
+              Watermark previews
+            </label>
+
+            <fieldset
+              disabled={isLoading || !watermark.enabled}
+              className="space-y-4 disabled:opacity-50"
+            >
+              <div className="flex gap-4">
+                <label className="flex items-center">
+                  <input
+                    type="radio"
+                    name="watermark-kind"
+                    checked={watermark.kind === "text"}
+                    onChange={() => update({ kind: "text" })}
+                    className="mr-2"
+                  />
+                  Text
+                </label>
+                <label className="flex items-center">
+                  <input
+                    type="radio"
+                    name="watermark-kind"
+                    checked={watermark.kind === "logo"}
+                    onChange={() => update({ kind: "logo" })}
+                    className="mr-2"
+                  />
+                  Logo
+                </label>
+              </div>
+
+              {watermark.kind === "text" ? (
+                <input
+                  type="text"
+                  value={watermark.text}
+                  onChange={(e) => update({ text: e.target.value })}
+                  placeholder="© Your Studio"
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md"
+                />
+              ) : (
+                <div>
+                  <input
+                    type="file"
+                    accept="image/png,image/svg+xml,image/webp,image/jpeg"
+                    onChange={handleLogoChange}
+                    className="w-full text-xs"
+                  />
+                  <p className="text-xs text-gray-500 mt-1">
+                    A PNG with a transparent background works best.
+                  </p>
+                </div>
+              )}
+
+              <div className="flex items-start gap-4">
+                <div>
+                  <p className="text-xs text-gray-600 mb-1">Position</p>
+                  <div className="grid grid-cols-3 gap-1">
+                    {WATERMARK_POSITIONS.map((position) => (
+                      <button
+                        key={position}
+                        type="button"
+                        onClick={() => update({ position })}
+                        disabled={watermark.tiled}
+                        title={position.replace("-", " ")}
+                        className={`w-8 h-8 rounded border text-sm ${
+                          watermark.position === position && !watermark.tiled
+                            ? "border-indigo-500 bg-indigo-50 text-indigo-700"
+                            : "border-gray-300 text-gray-500 hover:bg-gray-50"
+                        }`}
+                      >
+                        {POSITION_ARROWS[position]}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+                <label className="flex items-center mt-5">
+                  <input
+                    type="checkbox"
+                    checked={watermark.tiled}
+                    onChange={(e) => update({ tiled: e.target.checked })}
+                    className="mr-2"
+                  />
+                  Tile across the photo
+                </label>
+              </div>
+
+              <label className="block text-xs text-gray-600">
+                Opacity: {Math.round(watermark.opacity * 100)}%
+                <input
+                  type="range"
+                  min={10}
+                  max={100}
+                  value={Math.round(watermark.opacity * 100)}
+                  onChange={(e) =>
+                    update({ opacity: Number(e.target.value) / 100 })
+                  }
+                  className="w-full mt-1"
+                />
+              </label>
+
+              <label className="block text-xs text-gray-600">
+                Size: {Math.round(watermark.scale * 100)}% of the width
+                <input
+                  type="range"
+                  min={5}
+                  max={80}
+                  value={Math.round(watermark.scale * 100)}
+                  onChange={(e) =>
+                    update({ scale: Number(e.target.value) / 100 })
+                  }
+                  className="w-full mt-1"
+                />
+              </label>
+            </fieldset>
+          </div>
+        </div>
+
+        <div className="flex justify-end gap-2 mt-6">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 border border-gray-300 rounded-md hover:bg-gray-50 transition-colors"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleSave}
+            disabled={isLoading || isSaving || !isValid}
+            className="px-4 py-2 bg-indigo-600 text-white rounded-md hover:bg-indigo-700 disabled:opacity-50 transition-colors"
+          >
+            {isSaving ? "Saving..." : "Save watermark"}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default WatermarkDesigner;
@@ -1,25 +1,62 @@
 "use client";
 
-import React, { createContext, useContext, useState, useEffect } from "react";
-import axiosInstance from "../utils/axiosInstance";
-import axios from "axios";
-
-interface User {
-  id: string;
-  username: string;
-  role: "admin" | "photographer" | "client" | "guest";
-  email?: string;
-  businessName?: string;
-  clientName?: string;
-  guestName?: string;
-  photographerId?: string;
-  clientId?: string;
-  expiresAt?: string;
-}
+import React, {
+  createContext,
+  useContext,
+  useState,
+  useEffect,
+  useRef,
+} from "react";
+import { authApi, API_BASE_URL, ApiError } from "../lib/api";
+import { User } from "../lib/models";
+import { clearThumbnails } from "../lib/thumbnails";
+import { fullSizeCache } from "../lib/imageCache";
+import { clearPins } from "../lib/offlinePins";
+import { clearUploads } from "../lib/uploadStore";
+import { queryCache } from "../lib/query";
+import { getPasskey, isPasskeyCancelled } from "../lib/passkeys";
+import { authBroadcast, reauthGate, sessionExpiry } from "../lib/session";
+
+export type LoginOutcome = "signed-in" | "two-factor" | "failed" | "cancelled";
+
+// Whose pins, thumbnails and interrupted uploads are kept on this device
+const DATA_OWNER_KEY = "deviceDataOwner";
+
+// Photos are cached per URL or share token, not per user, and interrupted
+// uploads hold the photographer's files
+const purgeDeviceData = () => {
+  fullSizeCache.clear();
+  clearThumbnails().catch((error) =>
+    console.error("Failed to clear thumbnails:", error)
+  );
+  clearPins().catch((error) =>
+    console.error("Failed to clear offline collections:", error)
+  );
+  void clearUploads();
+  localStorage.removeItem(DATA_OWNER_KEY);
+};
+
+// Data kept for one account goes before another account can see it
+const claimDeviceData = (userId: string) => {
+  const owner = localStorage.getItem(DATA_OWNER_KEY);
+  if (owner && owner !== userId) purgeDeviceData();
+  localStorage.setItem(DATA_OWNER_KEY, userId);
+};
 
 interface AuthContextType {
   user: User | null;
-  login: (username: string, password: string) => Promise<boolean>;
+  login: (username: string, password: string) => Promise<LoginOutcome>;
+  loginWithPasskey: () => Promise<LoginOutcome>;
+  /** Set while a login waits for an authenticator or recovery code */
+  twoFactorPending: boolean;
+  /** Finish the pending login; throws if the code is refused */
+  verifyTwoFactor: (code: string) => Promise<void>;
+  cancelTwoFactor: () => void;
+  /**
+   * Adopt a user signed in outside `login`, e.g. from the re-authentication
+   * prompt; requests held while the session was expired go through
+   */
+  resumeSession: (user: User, mustChangePassword?: boolean) => void;
   logout: () => void;
   isLoading: boolean;
 }
@@ -41,11 +78,14 @@ interface AuthProviderProps {
 export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
   const [user, setUser] = useState<User | null>(null);
   const [isLoading, setIsLoading] = useState(true);
+  // Held here rather than in the form, which unmounts while isLoading
+  const [challengeToken, setChallengeToken] = useState<string | null>(null);
+  // For the broadcast listener, which outlives any one render
+  const userRef = useRef<User | null>(null);
 
-  const API_BASE_URL =
-    process.env.NEXT_PUBLIC_API_BASE_URL || "http://localhost:6002/api";
-  // Configure axios to always send cookies
-  axios.defaults.withCredentials = true;
+  useEffect(() => {
+    userRef.current = user;
+  }, [user]);
 
   useEffect(() => {
     // Try to verify existing session with the server
@@ -55,29 +95,41 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
 
         // Only try to verify if we have a stored user
         if (storedUser) {
-          // Verify token with backend using axios instance (will auto-refresh if needed)
-          const response = await axiosInstance.get("/auth/verify");
+          // Verify token with backend (will auto-refresh if needed)
+          const data = await authApi.verify();
 
-          if (response.data.success && response.data.user) {
-            setUser(response.data.user);
-            localStorage.setItem("user", JSON.stringify(response.data.user));
+          if (data.success && data.user) {
+            claimDeviceData(data.user.id);
+            setUser(data.user);
+            localStorage.setItem("user", JSON.stringify(data.user));
           } else {
-            // Invalid response, clear user
-            setUser(null);
-            localStorage.removeItem("user");
-            localStorage.removeItem("mustChangePassword");
+            // Invalid response; what's kept on the device waits for them
+            forgetUser();
           }
         } else {
           // No stored user, just set loading to false
           setUser(null);
         }
       } catch (error) {
-        // Session invalid or expired, clear user
+        // Offline: keep the stored user so pinned collections stay
+        // viewable; the server still checks the session on every request
+        const storedUser = localStorage.getItem("user");
+        if (error instanceof ApiError && error.status === null && storedUser) {
+          console.log("📴 Offline, using the stored session");
+          setUser(JSON.parse(storedUser) as User);
+          return;
+        }
+
+        // Only a session the server turned down loses the device data; a
+        // server hiccup keeps it for the next sign-in as the same user
         console.log("Session verification failed:", error);
-        setUser(null);
-        if (typeof window !== "undefined") {
-          localStorage.removeItem("user");
-          localStorage.removeItem("mustChangePassword");
+        if (
+          error instanceof ApiError &&
+          (error.status === 401 || error.status === 403)
+        ) {
+          clearSession();
+        } else {
+          forgetUser();
         }
       } finally {
         setIsLoading(false);
@@ -87,75 +139,159 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
     verifySession();
   }, []);
 
+  const adopt = (userData: User) => {
+    const previous = userRef.current;
+    if (previous && previous.id !== userData.id) {
+      // Someone else signed in: nothing held or cached is theirs
+      queryCache.clear();
+      reauthGate.reject(new ApiError("Signed in as a different user", 401));
+    }
+    userRef.current = userData;
+    setUser(userData);
+    setChallengeToken(null);
+    // Retry whatever was held while the session was expired
+    reauthGate.resolve();
+  };
+
+  const signIn = (userData: User, mustChangePassword?: boolean) => {
+    adopt(userData);
+
+    // Store user data in localStorage for quick access (token is in cookie)
+    if (typeof window !== "undefined") {
+      claimDeviceData(userData.id);
+      localStorage.setItem("user", JSON.stringify(userData));
+
+      // Store mustChangePassword flag for redirect
+      if (mustChangePassword) {
+        localStorage.setItem("mustChangePassword", "true");
+      }
+    }
+
+    authBroadcast.post({ kind: "login", user: userData });
+  };
+
   const login = async (
     username: string,
     password: string
-  ): Promise<boolean> => {
+  ): Promise<LoginOutcome> => {
     try {
       setIsLoading(true);
 
       console.log("Attempting login to:", `${API_BASE_URL}/auth/login`);
       console.log("With credentials:", { username, password: "***" });
 
-      const response = await axiosInstance.post("/auth/login", {
-        username,
-        password,
-      });
-
-      console.log("Login response:", response.data);
-
-      if (response.data.success) {
-        const { user: userData, mustChangePassword } = response.data;
+      const data = await authApi.login({ username, password });
 
-        setUser(userData);
+      console.log("Login response:", data);
 
-        // Store user data in localStorage for quick access (token is in cookie)
-        if (typeof window !== "undefined") {
-          localStorage.setItem("user", JSON.stringify(userData));
-
-          // Store mustChangePassword flag for redirect
-          if (mustChangePassword) {
-            localStorage.setItem("mustChangePassword", "true");
-          }
-        }
-
-        return true;
+      if (data.twoFactorRequired) {
+        console.log("🔐 Second factor required");
+        setChallengeToken(data.challengeToken);
+        return "two-factor";
       }
 
-      return false;
+      signIn(data.user, data.mustChangePassword);
+      return "signed-in";
     } catch (error) {
       console.error("Login error:", error);
-      if (axios.isAxiosError(error)) {
-        console.error("Response data:", error.response?.data);
-        console.error("Response status:", error.response?.status);
-        console.error("Request URL:", error.config?.url);
+      if (error instanceof ApiError) {
+        console.error("Response data:", error.data);
+        console.error("Response status:", error.status);
       }
-      return false;
+      return "failed";
     } finally {
       setIsLoading(false);
     }
   };
 
+  // Leaves isLoading alone: the form would unmount and lose its error
+  const loginWithPasskey = async (): Promise<LoginOutcome> => {
+    try {
+      const options = await authApi.getPasskeyLoginOptions();
+      const credential = await getPasskey(options);
+      const data = await authApi.loginWithPasskey({ credential });
+      console.log("🔑 Signed in with a passkey");
+      signIn(data.user, data.mustChangePassword);
+      return "signed-in";
+    } catch (error) {
+      if (isPasskeyCancelled(error)) return "cancelled";
+      console.error("Passkey login error:", error);
+      return "failed";
+    }
+  };
+
+  const verifyTwoFactor = async (code: string) => {
+    if (!challengeToken) {
+      throw new Error("The sign-in has expired, please start again");
+    }
+    const data = await authApi.verifyTwoFactor({
+      challengeToken,
+      code: code.trim(),
+    });
+    signIn(data.user, data.mustChangePassword);
+  };
+
+  const cancelTwoFactor = () => setChallengeToken(null);
+
+  // Forget the signed-in user in this tab only, keeping what's stored on
+  // the device for them
+  const forgetUser = () => {
+    userRef.current = null;
+    setUser(null);
+    setChallengeToken(null);
+    sessionExpiry.clear();
+    reauthGate.reject(new ApiError("Signed out", 401));
+    // Cached lists belong to the account that just signed out
+    queryCache.clear();
+
+    // Clear localStorage (only in browser)
+    if (typeof window !== "undefined") {
+      localStorage.removeItem("user");
+      localStorage.removeItem("mustChangePassword");
+    }
+  };
+
+  // Sign out in this tab: the user and everything kept for them
+  const clearSession = () => {
+    forgetUser();
+    if (typeof window !== "undefined") purgeDeviceData();
+  };
+
   const logout = async () => {
     try {
       // Call backend logout to clear the cookies
-      await axiosInstance.post("/auth/logout");
+      await authApi.logout();
     } catch (error) {
       console.error("Logout error:", error);
     } finally {
-      setUser(null);
-
-      // Clear localStorage (only in browser)
-      if (typeof window !== "undefined") {
-        localStorage.removeItem("user");
-        localStorage.removeItem("mustChangePassword");
-      }
+      clearSession();
+      authBroadcast.post({ kind: "logout" });
     }
   };
 
+  // Follow logins and logouts made in other tabs
+  useEffect(
+    () =>
+      authBroadcast.subscribe((message) => {
+        if (message.kind === "login") {
+          console.log("🔄 Signed in from another tab");
+          adopt(message.user);
+        } else if (message.kind === "logout" && userRef.current) {
+          console.log("🔄 Signed out from another tab");
+          clearSession();
+        }
+      }),
+    []
+  );
+
   const value: AuthContextType = {
     user,
     login,
+    loginWithPasskey,
+    twoFactorPending: challengeToken !== null,
+    verifyTwoFactor,
+    cancelTwoFactor,
+    resumeSession: signIn,
     logout,
     isLoading,
   };
@@ -0,0 +1,45 @@
+"use client";
+
+import React, { createContext, useContext, useEffect, useState } from "react";
+import { ConnectionState, realtimeConnection } from "../lib/realtime";
+
+interface RealtimeContextType {
+  state: ConnectionState;
+  /** When the state last changed, for "offline for 2 minutes" */
+  since: number;
+}
+
+const RealtimeContext = createContext<RealtimeContextType | undefined>(
+  undefined
+);
+
+export const useRealtimeStatus = () => {
+  const context = useContext(RealtimeContext);
+  if (context === undefined) {
+    throw new Error("useRealtimeStatus must be used within a RealtimeProvider");
+  }
+  return context;
+};
+
+/** Reactive view of the shared SSE connection's state */
+export const RealtimeProvider: React.FC<{ children: React.ReactNode }> = ({
+  children,
+}) => {
+  const [status, setStatus] = useState<RealtimeContextType>({
+    state: "idle",
+    since: 0,
+  });
+
+  useEffect(() => {
+    setStatus({ state: realtimeConnection.state, since: Date.now() });
+    return realtimeConnection.onStateChange((state) =>
+      setStatus({ state, since: Date.now() })
+    );
+  }, []);
+
+  return (
+    <RealtimeContext.Provider value={status}>
+      {children}
+    </RealtimeContext.Provider>
+  );
+};
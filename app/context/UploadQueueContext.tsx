@@ -0,0 +1,247 @@
+"use client";
+
+import React, {
+  createContext,
+  useCallback,
+  useContext,
+  useEffect,
+  useRef,
+  useState,
+} from "react";
+import {
+  ChunkedUpload,
+  DEFAULT_PARALLEL_UPLOADS,
+  setUploadParallelism,
+  UploadOptions,
+  UploadSnapshot,
+} from "../lib/chunkedUpload";
+import { Photo } from "../lib/models";
+import { idleMonitor } from "../lib/session";
+import { loadUploads } from "../lib/uploadStore";
+import { useAuth } from "./AuthContext";
+
+type UploadedListener = (photo: Photo, file: Blob) => void;
+
+interface UploadQueueContextType {
+  items: UploadSnapshot[];
+  /**
+   * Queue files; resolves per file with the photo, or null if cancelled.
+   * Options may be given per file.
+   */
+  enqueue: (
+    files: File[],
+    options: UploadOptions | ((file: File) => UploadOptions)
+  ) => Promise<(Photo | null)[]>;
+  pause: (id: string) => void;
+  resume: (id: string) => void;
+  cancel: (id: string) => void;
+  retryFailed: () => void;
+  /** Drop finished and cancelled uploads from the list */
+  clearFinished: () => void;
+  parallelism: number;
+  setParallelism: (limit: number) => void;
+  /**
+   * Called once for every photo that finishes, including restored ones,
+   * with the file that went up; extra copies such as web renditions and
+   * previews are left out
+   */
+  subscribe: (listener: UploadedListener) => () => void;
+}
+
+const PARALLELISM_KEY = "uploadParallelism";
+
+const UploadQueueContext = createContext<UploadQueueContextType | undefined>(
+  undefined
+);
+
+export const useUploadQueue = () => {
+  const context = useContext(UploadQueueContext);
+  if (context === undefined) {
+    throw new Error(
+      "useUploadQueue must be used within an UploadQueueProvider"
+    );
+  }
+  return context;
+};
+
+/**
+ * App-wide upload queue. Uploads keep running while the photographer moves
+ * between tabs and pages; ones interrupted by a reload are picked up from
+ * IndexedDB once a photographer is signed in.
+ */
+export const UploadQueueProvider: React.FC<{ children: React.ReactNode }> = ({
+  children,
+}) => {
+  const { user } = useAuth();
+  const [items, setItems] = useState<UploadSnapshot[]>([]);
+  const [parallelism, setParallelismState] = useState(DEFAULT_PARALLEL_UPLOADS);
+  const uploadsRef = useRef(new Map<string, ChunkedUpload>());
+  const listenersRef = useRef(new Set<UploadedListener>());
+
+  const handleChange = useCallback((snapshot: UploadSnapshot) => {
+    setItems((prev) => {
+      const index = prev.findIndex((item) => item.id === snapshot.id);
+      if (index === -1) return [...prev, snapshot];
+      const next = [...prev];
+      next[index] = snapshot;
+      return next;
+    });
+  }, []);
+
+  const track = useCallback((upload: ChunkedUpload) => {
+    uploadsRef.current.set(upload.id, upload);
+    upload.done.then((photo) => {
+      if (!photo || !upload.primary) return;
+      listenersRef.current.forEach((listener) => listener(photo, upload.file));
+    });
+    return upload.done;
+  }, []);
+
+  useEffect(() => {
+    const saved = Number(localStorage.getItem(PARALLELISM_KEY));
+    if (saved > 0) {
+      setParallelismState(saved);
+      setUploadParallelism(saved);
+    }
+  }, []);
+
+  // Only photographers upload, so only they resume, and only their own
+  const ownerId = user?.role === "photographer" ? user.id : null;
+  useEffect(() => {
+    if (!ownerId) return;
+    let cancelled = false;
+
+    loadUploads(ownerId).then((restored) => {
+      if (cancelled || restored.length === 0) return;
+      console.log(`🔄 Resuming ${restored.length} interrupted upload(s)`);
+      restored.forEach(({ upload, file }) => {
+        if (uploadsRef.current.has(upload.id)) return;
+        track(ChunkedUpload.restore(upload, file, handleChange));
+      });
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [ownerId, track, handleChange]);
+
+  // Nothing keeps uploading into the account once its user is gone
+  const userId = user?.id;
+  useEffect(() => {
+    const uploads = uploadsRef.current;
+    return () => {
+      if (uploads.size > 0) {
+        console.log(
+          `⏹️ Stopping ${uploads.size} upload(s) for signed-out user`
+        );
+      }
+      uploads.forEach((upload) => upload.stop());
+      uploads.clear();
+      setItems([]);
+    };
+  }, [userId]);
+
+  // A long upload left running mustn't end in an idle sign-out, which
+  // would stop it and clear its stored copy
+  const isBusy = items.some(
+    (item) => item.status === "queued" || item.status === "uploading"
+  );
+  useEffect(() => {
+    if (!isBusy) return;
+    return idleMonitor.hold();
+  }, [isBusy]);
+
+  const retryFailed = useCallback(() => {
+    uploadsRef.current.forEach((upload) => {
+      if (upload.snapshot.status === "error") upload.resume();
+    });
+  }, []);
+
+  // Uploads that gave up while offline get another go once we're back
+  useEffect(() => {
+    window.addEventListener("online", retryFailed);
+    return () => window.removeEventListener("online", retryFailed);
+  }, [retryFailed]);
+
+  const enqueue = useCallback(
+    (
+      files: File[],
+      options: UploadOptions | ((file: File) => UploadOptions)
+    ) => {
+      if (!userId) {
+        return Promise.reject(new Error("Sign in to upload photos"));
+      }
+      return Promise.all(
+        files.map((file) =>
+          track(
+            ChunkedUpload.create(
+              file,
+              typeof options === "function" ? options(file) : options,
+              userId,
+              handleChange
+            )
+          )
+        )
+      );
+    },
+    [userId, track, handleChange]
+  );
+
+  const pause = useCallback((id: string) => {
+    uploadsRef.current.get(id)?.pause();
+  }, []);
+
+  const resume = useCallback((id: string) => {
+    uploadsRef.current.get(id)?.resume();
+  }, []);
+
+  const cancel = useCallback((id: string) => {
+    uploadsRef.current.get(id)?.cancel();
+  }, []);
+
+  const clearFinished = useCallback(() => {
+    uploadsRef.current.forEach((upload, id) => {
+      const { status } = upload.snapshot;
+      if (status === "done" || status === "cancelled") {
+        uploadsRef.current.delete(id);
+      }
+    });
+    setItems((prev) =>
+      prev.filter(
+        (item) => item.status !== "done" && item.status !== "cancelled"
+      )
+    );
+  }, []);
+
+  const setParallelism = useCallback((limit: number) => {
+    setParallelismState(limit);
+    setUploadParallelism(limit);
+    localStorage.setItem(PARALLELISM_KEY, limit.toString());
+  }, []);
+
+  const subscribe = useCallback((listener: UploadedListener) => {
+    listenersRef.current.add(listener);
+    return () => {
+      listenersRef.current.delete(listener);
+    };
+  }, []);
+
+  const value: UploadQueueContextType = {
+    items,
+    enqueue,
+    pause,
+    resume,
+    cancel,
+    retryFailed,
+    clearFinished,
+    parallelism,
+    setParallelism,
+    subscribe,
+  };
+
+  return (
+    <UploadQueueContext.Provider value={value}>
+      {children}
+    </UploadQueueContext.Provider>
+  );
+};
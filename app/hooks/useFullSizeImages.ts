@@ -0,0 +1,127 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import { photosApi, PhotoViewerRole } from "../lib/api";
+import { fullSizeCache } from "../lib/imageCache";
+import { keepFullSize, readPinnedFullSize } from "../lib/offlinePins";
+import { Photo } from "../lib/models";
+
+export type FullSizeStatus = "loading" | "error";
+
+interface UseFullSizeImagesOptions {
+  /** How many neighbours on each side of the current image to preload */
+  preloadWindow?: number;
+}
+
+// Shared across hook instances so two grids never fetch the same photo twice
+const inFlight = new Map<string, Promise<void>>();
+
+const cacheKey = (role: PhotoViewerRole, shareToken: string) =>
+  `${role}:${shareToken}`;
+
+/**
+ * Loads full-size images on demand: the requested photo first, then a small
+ * window of neighbours. Results live in the shared LRU object-URL cache.
+ */
+export const useFullSizeImages = (
+  photos: Photo[],
+  role: PhotoViewerRole,
+  { preloadWindow = 2 }: UseFullSizeImagesOptions = {}
+) => {
+  // Only in-progress and failed photos are tracked; loaded ones are in the cache
+  const [status, setStatus] = useState<Record<string, FullSizeStatus>>({});
+  const mountedRef = useRef(true);
+
+  useEffect(() => {
+    mountedRef.current = true;
+    return () => {
+      mountedRef.current = false;
+    };
+  }, []);
+
+  const updateStatus = useCallback(
+    (photoId: string, next: FullSizeStatus | null) => {
+      if (!mountedRef.current) return;
+      setStatus((prev) => {
+        const copy = { ...prev };
+        if (next) {
+          copy[photoId] = next;
+        } else {
+          delete copy[photoId];
+        }
+        return copy;
+      });
+    },
+    []
+  );
+
+  const load = useCallback(
+    (photo: Photo) => {
+      const key = cacheKey(role, photo.shareToken);
+      // A hit also marks the photo as recently viewed
+      if (fullSizeCache.get(key) !== undefined) return Promise.resolve();
+
+      const pending = inFlight.get(key);
+      if (pending) return pending;
+
+      updateStatus(photo.id, "loading");
+
+      // Pinned collections keep what's been viewed for offline use
+      const request = readPinnedFullSize(role, photo.shareToken)
+        .then(
+          (pinned) =>
+            pinned ??
+            photosApi.getFullSizeBlob(role, photo.shareToken).then((blob) => {
+              keepFullSize(role, photo.shareToken, blob).catch((error) =>
+                console.warn("Failed to keep photo offline:", error)
+              );
+              return blob;
+            })
+        )
+        .then((blob) => {
+          fullSizeCache.set(key, blob);
+          updateStatus(photo.id, null);
+        })
+        .catch((error) => {
+          console.error(`Failed to load photo ${photo.shareToken}:`, error);
+          updateStatus(photo.id, "error");
+        })
+        .finally(() => {
+          inFlight.delete(key);
+        });
+
+      inFlight.set(key, request);
+      return request;
+    },
+    [role, updateStatus]
+  );
+
+  /** Load the photo at `index` first, then its neighbours nearest-first */
+  const requestAround = useCallback(
+    (index: number) => {
+      const count = photos.length;
+      if (count === 0) return;
+
+      load(photos[index]).then(() => {
+        for (let offset = 1; offset <= preloadWindow; offset++) {
+          if (offset * 2 > count) break;
+          load(photos[(index + offset) % count]);
+          load(photos[(index - offset + count) % count]);
+        }
+      });
+    },
+    [photos, load, preloadWindow]
+  );
+
+  /** Object URL of the full-size image, or null while it isn't loaded */
+  const getUrl = useCallback(
+    (photo: Photo) =>
+      fullSizeCache.peek(cacheKey(role, photo.shareToken)) ?? null,
+    [role]
+  );
+
+  const getStatus = useCallback(
+    (photoId: string): FullSizeStatus | null => status[photoId] ?? null,
+    [status]
+  );
+
+  return { requestAround, getUrl, getStatus };
+};
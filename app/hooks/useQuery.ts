@@ -0,0 +1,62 @@
+import { useCallback, useEffect, useRef, useSyncExternalStore } from "react";
+import { Fetcher, queryCache, QueryOptions } from "../lib/query";
+
+interface UseQueryOptions extends QueryOptions {
+  /** Hold off fetching, e.g. until the user is known */
+  enabled?: boolean;
+}
+
+/**
+ * Cached server state for `key`. Data already in the cache shows straight
+ * away and is refetched in the background once stale; components using
+ * the same key share one request.
+ */
+export const useQuery = <T>(
+  key: string,
+  fetcher: Fetcher<T>,
+  { enabled = true, ...options }: UseQueryOptions = {}
+) => {
+  // Use refs so a new closure each render doesn't refetch
+  const fetcherRef = useRef(fetcher);
+  const optionsRef = useRef(options);
+
+  useEffect(() => {
+    fetcherRef.current = fetcher;
+    optionsRef.current = options;
+  });
+
+  const snapshot = useSyncExternalStore(
+    useCallback((listener) => queryCache.subscribe(key, listener), [key]),
+    () => queryCache.snapshot<T>(key),
+    () => queryCache.snapshot<T>(key)
+  );
+
+  const load = useCallback(
+    (force: boolean) =>
+      queryCache.fetch(
+        key,
+        () => fetcherRef.current(),
+        optionsRef.current,
+        force
+      ),
+    [key]
+  );
+
+  useEffect(() => {
+    if (!enabled) return;
+    load(false).catch((error) =>
+      console.error(`Error fetching ${key}:`, error)
+    );
+  }, [load, enabled]);
+
+  const refetch = useCallback(() => load(true), [load]);
+
+  return {
+    data: snapshot.data,
+    error: snapshot.error,
+    // Only true before there's anything to show
+    isLoading: snapshot.data === undefined && snapshot.isFetching,
+    isFetching: snapshot.isFetching,
+    refetch,
+  };
+};
@@ -0,0 +1,42 @@
+import { useEffect, useState } from "react";
+import { loadThumbnail, peekThumbnail } from "../lib/thumbnails";
+import { ThumbnailSource } from "../lib/models";
+
+/**
+ * Image src for a thumbnail. Starts from whatever is available immediately
+ * (cache hit or base64 fallback) and switches to the Blob URL once loaded.
+ * `failed` is set when loading failed and there is nothing to fall back to.
+ */
+export const useThumbnail = ({
+  thumbnailUrl,
+  thumbnailDataB64,
+}: ThumbnailSource) => {
+  const [src, setSrc] = useState(() =>
+    peekThumbnail({ thumbnailUrl, thumbnailDataB64 })
+  );
+  const [failed, setFailed] = useState(false);
+
+  useEffect(() => {
+    const initial = peekThumbnail({ thumbnailUrl, thumbnailDataB64 });
+    setSrc(initial);
+    setFailed(false);
+    if (!thumbnailUrl) return;
+
+    let cancelled = false;
+    loadThumbnail(thumbnailUrl)
+      .then((url) => {
+        if (!cancelled) setSrc(url);
+      })
+      .catch((error) => {
+        // Keep showing the base64 fallback, if there is one
+        console.error(`Failed to load thumbnail ${thumbnailUrl}:`, error);
+        if (!cancelled && !initial) setFailed(true);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [thumbnailUrl, thumbnailDataB64]);
+
+  return { src, failed };
+};
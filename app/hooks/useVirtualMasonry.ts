@@ -0,0 +1,197 @@
+import {
+  useCallback,
+  useEffect,
+  useLayoutEffect,
+  useMemo,
+  useRef,
+  useState,
+} from "react";
+
+/** Column count by maximum viewport width, plus a default for wider screens */
+export interface BreakpointColumns {
+  default: number;
+  [maxWidth: number]: number;
+}
+
+export interface MasonryTile {
+  index: number;
+  top: number;
+  left: number;
+  width: number;
+  height: number;
+}
+
+interface UseVirtualMasonryOptions {
+  breakpointCols: BreakpointColumns;
+  /** Space between tiles in pixels, both horizontally and vertically */
+  gap?: number;
+  /** Pixels above and below the viewport to keep mounted */
+  overscan?: number;
+}
+
+// Thumbnail height/width ratios seen so far. Kept across refetches and
+// remounts so replacing the photos array never reflows measured tiles.
+const aspectRatios = new Map<string, number>();
+
+const getColumnCount = (breakpointCols: BreakpointColumns, width: number) => {
+  let count = breakpointCols.default;
+  let matched = Infinity;
+  Object.keys(breakpointCols).forEach((key) => {
+    const maxWidth = Number(key);
+    if (!isNaN(maxWidth) && width <= maxWidth && maxWidth < matched) {
+      matched = maxWidth;
+      count = breakpointCols[maxWidth];
+    }
+  });
+  return Math.max(1, count);
+};
+
+const sameIndices = (a: number[], b: number[]) =>
+  a.length === b.length && a.every((value, i) => value === b[i]);
+
+/**
+ * Windowed masonry layout scrolled by the page. Tiles are placed round-robin
+ * into columns (like react-masonry-css) and only the ones near the viewport
+ * are returned for mounting. Unmeasured thumbnails are assumed square until
+ * they load.
+ *
+ * When the layout changes (new photos, measured thumbnails, resize) the
+ * first tile at the top of the viewport is kept where it was on screen.
+ */
+export const useVirtualMasonry = <T extends { id: string }>(
+  items: T[],
+  { breakpointCols, gap = 16, overscan = 800 }: UseVirtualMasonryOptions
+) => {
+  const [container, setContainer] = useState<HTMLDivElement | null>(null);
+  const [containerWidth, setContainerWidth] = useState(0);
+  const [columnCount, setColumnCount] = useState(breakpointCols.default);
+  const [ratioVersion, setRatioVersion] = useState(0);
+  const [visible, setVisible] = useState<number[]>([]);
+
+  const anchorRef = useRef<{ id: string; viewportTop: number } | null>(null);
+  const ratioFrameRef = useRef(0);
+
+  useEffect(() => {
+    if (!container) return;
+
+    const update = () => {
+      setContainerWidth(container.clientWidth);
+      setColumnCount(getColumnCount(breakpointCols, window.innerWidth));
+    };
+
+    update();
+    const observer = new ResizeObserver(update);
+    observer.observe(container);
+    return () => observer.disconnect();
+  }, [container, breakpointCols]);
+
+  const layout = useMemo(() => {
+    const columnWidth =
+      containerWidth > 0
+        ? (containerWidth - gap * (columnCount - 1)) / columnCount
+        : 0;
+    const columnHeights: number[] = new Array(columnCount).fill(0);
+    const indexById = new Map<string, number>();
+
+    const tiles = items.map((item, index): MasonryTile => {
+      const column = index % columnCount;
+      const height = columnWidth * (aspectRatios.get(item.id) ?? 1);
+      const tile = {
+        index,
+        top: columnHeights[column],
+        left: column * (columnWidth + gap),
+        width: columnWidth,
+        height,
+      };
+      columnHeights[column] += height + gap;
+      indexById.set(item.id, index);
+      return tile;
+    });
+
+    return { tiles, indexById, height: Math.max(0, ...columnHeights) };
+  }, [items, columnCount, containerWidth, gap, ratioVersion]);
+
+  const updateVisible = useCallback(() => {
+    if (!container) return;
+
+    const rect = container.getBoundingClientRect();
+    const viewTop = -rect.top - overscan;
+    const viewBottom = -rect.top + window.innerHeight + overscan;
+
+    const next: number[] = [];
+    layout.tiles.forEach((tile) => {
+      if (tile.top < viewBottom && tile.top + tile.height > viewTop) {
+        next.push(tile.index);
+      }
+    });
+    setVisible((prev) => (sameIndices(prev, next) ? prev : next));
+
+    // Remember the tile at the top edge of the screen while the grid spans it
+    const anchor =
+      rect.top < 0 && rect.bottom > 0
+        ? layout.tiles.find((tile) => tile.top + tile.height > -rect.top)
+        : undefined;
+    anchorRef.current = anchor
+      ? { id: items[anchor.index].id, viewportTop: rect.top + anchor.top }
+      : null;
+  }, [container, layout, items, overscan]);
+
+  // Keep the anchor tile in place, then recompute what's mounted
+  useLayoutEffect(() => {
+    const anchor = anchorRef.current;
+    if (container && anchor) {
+      const index = layout.indexById.get(anchor.id);
+      if (index !== undefined) {
+        const delta =
+          container.getBoundingClientRect().top +
+          layout.tiles[index].top -
+          anchor.viewportTop;
+        if (Math.abs(delta) >= 1) {
+          window.scrollBy(0, delta);
+        }
+      }
+    }
+    updateVisible();
+  }, [updateVisible]);
+
+  useEffect(() => {
+    let frame = 0;
+    const schedule = () => {
+      cancelAnimationFrame(frame);
+      frame = requestAnimationFrame(updateVisible);
+    };
+
+    window.addEventListener("scroll", schedule, { passive: true });
+    window.addEventListener("resize", schedule);
+    return () => {
+      cancelAnimationFrame(frame);
+      window.removeEventListener("scroll", schedule);
+      window.removeEventListener("resize", schedule);
+    };
+  }, [updateVisible]);
+
+  useEffect(() => () => cancelAnimationFrame(ratioFrameRef.current), []);
+
+  /** Record a loaded thumbnail's real proportions */
+  const measure = useCallback((id: string, image: HTMLImageElement) => {
+    if (!image.naturalWidth) return;
+
+    const ratio = image.naturalHeight / image.naturalWidth;
+    if (Math.abs((aspectRatios.get(id) ?? 0) - ratio) < 0.001) return;
+    aspectRatios.set(id, ratio);
+
+    // Thumbnails tend to load in bursts; relayout once per frame
+    if (!ratioFrameRef.current) {
+      ratioFrameRef.current = requestAnimationFrame(() => {
+        ratioFrameRef.current = 0;
+        setRatioVersion((version) => version + 1);
+      });
+    }
+  }, []);
+
+  const tiles = visible
+    .filter((index) => index < layout.tiles.length)
+    .map((index) => layout.tiles[index]);
+
+  return { containerRef: setContainer, tiles, height: layout.height, measure };
+};
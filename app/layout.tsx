@@ -3,7 +3,14 @@ import { Geist, Geist_Mono } from "next/font/google";
 import "./globals.css";
 import { AuthProvider } from "./context/AuthContext";
 import { ThemeProvider } from "./context/ThemeContext";
+import { UploadQueueProvider } from "./context/UploadQueueContext";
+import { RealtimeProvider } from "./context/RealtimeContext";
 import GlobalHeader from "./components/GlobalHeader";
+import UploadTray from "./components/UploadTray";
+import OfflineSupport from "./components/OfflineSupport";
+import ReauthModal from "./components/ReauthModal";
+import IdleLock from "./components/IdleLock";
+import SessionExpiryWarning from "./components/SessionExpiryWarning";
 
 const geistSans = Geist({
   variable: "--font-geist-sans",
@@ -33,18 +40,27 @@ export default function RootLayout({
       >
         <ThemeProvider>
           <AuthProvider>
-            <GlobalHeader />
-            <div className="flex-1">
-              {/* main content */}
-              <div className="app-container py-6">{children}</div>
-            </div>
-            <footer className="bg-gray-900 dark:bg-gray-950 text-gray-400 py-6 mt-auto">
-              <div className="app-container text-center">
-                <p className="text-sm">
-                  Made with ❤️ by Denislav Stoyanov, owner of Stoyanography
-                </p>
-              </div>
-            </footer>
+            <RealtimeProvider>
+              <UploadQueueProvider>
+                <GlobalHeader />
+                <div className="flex-1">
+                  {/* main content */}
+                  <div className="app-container py-6">{children}</div>
+                </div>
+                <footer className="bg-gray-900 dark:bg-gray-950 text-gray-400 py-6 mt-auto">
+                  <div className="app-container text-center">
+                    <p className="text-sm">
+                      Made with ❤️ by Denislav Stoyanov, owner of Stoyanography
+                    </p>
+                  </div>
+                </footer>
+                <UploadTray />
+                <OfflineSupport />
+                <SessionExpiryWarning />
+                <ReauthModal />
+                <IdleLock />
+              </UploadQueueProvider>
+            </RealtimeProvider>
           </AuthProvider>
         </ThemeProvider>
       </body>
@@ -0,0 +1,157 @@
+import http from "../axios";
+import {
+  toAdminCollection,
+  toAdminPhoto,
+  toClient,
+  toGuest,
+  toPhotographer,
+  toScheduledDeletions,
+  toSystemStats,
+} from "../models";
+import { parseEntity, parseList } from "./parse";
+import { thumbnailParams } from "./thumbnails";
+import {
+  ApiResponse,
+  CleanupResponse,
+  CollectionDeletionResponse,
+  CreatePhotographerRequest,
+  RestoreRequest,
+  RestoreResponse,
+  RevokeSessionsResponse,
+  ScheduledDeletionResponse,
+} from "./types";
+
+const id = (value: string) => encodeURIComponent(value);
+
+export const getStats = async () => {
+  const response = await http.get("/admin/stats");
+  return parseEntity(response.data, "/admin/stats", "stats", toSystemStats);
+};
+
+export const listPhotographers = async () => {
+  const response = await http.get("/admin/photographers");
+  return parseList(
+    response.data,
+    "/admin/photographers",
+    "photographers",
+    toPhotographer
+  );
+};
+
+export const listClients = async () => {
+  const response = await http.get("/admin/clients");
+  return parseList(response.data, "/admin/clients", "clients", toClient);
+};
+
+export const listGuests = async () => {
+  const response = await http.get("/admin/guests");
+  return parseList(response.data, "/admin/guests", "guests", toGuest);
+};
+
+export const listCollections = async () => {
+  const response = await http.get("/admin/collections", thumbnailParams);
+  return parseList(
+    response.data,
+    "/admin/collections",
+    "collections",
+    toAdminCollection
+  );
+};
+
+export const listPhotos = async () => {
+  const response = await http.get("/admin/photos", thumbnailParams);
+  return parseList(response.data, "/admin/photos", "photos", toAdminPhoto);
+};
+
+export const getScheduledDeletions = async () => {
+  const response = await http.get("/admin/scheduled-deletions");
+  return parseEntity(
+    response.data,
+    "/admin/scheduled-deletions",
+    "scheduled",
+    toScheduledDeletions
+  );
+};
+
+export const restore = async (body: RestoreRequest) => {
+  const response = await http.post<RestoreResponse>("/admin/restore", body);
+  return response.data;
+};
+
+export const cleanupDeletions = async () => {
+  const response = await http.post<CleanupResponse>("/admin/cleanup-deletions");
+  return response.data;
+};
+
+export const nukeAllDeletions = async () => {
+  const response = await http.post<CleanupResponse>(
+    "/admin/nuke-all-deletions"
+  );
+  return response.data;
+};
+
+export const createPhotographer = async (body: CreatePhotographerRequest) => {
+  const response = await http.post<ApiResponse>(
+    "/admin/create-photographer",
+    body
+  );
+  return response.data;
+};
+
+export const togglePhotographer = async (photographerId: string) => {
+  const response = await http.put<ApiResponse>(
+    `/admin/photographer/${id(photographerId)}/toggle`
+  );
+  return response.data;
+};
+
+/** Sign a photographer out on every device */
+export const revokePhotographerSessions = async (photographerId: string) => {
+  const response = await http.post<RevokeSessionsResponse>(
+    `/admin/photographer/${id(photographerId)}/revoke-sessions`
+  );
+  return response.data;
+};
+
+export const deletePhotographer = async (photographerId: string) => {
+  const response = await http.delete<ScheduledDeletionResponse>(
+    `/admin/photographer/${id(photographerId)}`
+  );
+  return response.data;
+};
+
+export const deleteClient = async (clientId: string) => {
+  const response = await http.delete<ScheduledDeletionResponse>(
+    `/admin/client/${id(clientId)}`
+  );
+  return response.data;
+};
+
+/** Sign a client out on every device */
+export const revokeClientSessions = async (clientId: string) => {
+  const response = await http.post<RevokeSessionsResponse>(
+    `/admin/client/${id(clientId)}/revoke-sessions`
+  );
+  return response.data;
+};
+
+export const deleteGuest = async (guestId: string) => {
+  const response = await http.delete<ScheduledDeletionResponse>(
+    `/admin/guest/${id(guestId)}`
+  );
+  return response.data;
+};
+
+export const deleteCollection = async (collectionId: string) => {
+  const response = await http.delete<CollectionDeletionResponse>(
+    `/admin/collection/${id(collectionId)}`
+  );
+  return response.data;
+};
+
+export const deletePhoto = async (photoId: string) => {
+  const response = await http.delete<ScheduledDeletionResponse>(
+    `/admin/photo/${id(photoId)}`
+  );
+  return response.data;
+};
@@ -0,0 +1,189 @@
+import http from "../axios";
+import {
+  asRecord,
+  readString,
+  toRecoveryCode,
+  toSession,
+  toTwoFactorSetup,
+  toTwoFactorStatus,
+  toUser,
+  User,
+} from "../models";
+import { parseEntity, parseList } from "./parse";
+import {
+  ApiResponse,
+  ChangePasswordRequest,
+  DisableTwoFactorRequest,
+  LoginRequest,
+  LoginResponse,
+  PasskeyAuthenticationOptionsResponse,
+  PasskeyLoginRequest,
+  PasskeyRegistrationOptionsResponse,
+  RegisterPasskeyRequest,
+  RevokeSessionsResponse,
+  TwoFactorChallengeRequest,
+  TwoFactorCodeRequest,
+  VerifyResponse,
+} from "./types";
+
+export interface SignedIn {
+  twoFactorRequired: false;
+  user: User;
+  mustChangePassword?: boolean;
+}
+
+/** A login either finishes or stops to ask for the second factor */
+export type LoginResult =
+  | SignedIn
+  | { twoFactorRequired: true; challengeToken: string };
+
+const signedIn = (data: LoginResponse, route: string): SignedIn => ({
+  twoFactorRequired: false,
+  user: parseEntity(data, route, "user", toUser).user,
+  mustChangePassword: data.mustChangePassword,
+});
+
+export const login = async (body: LoginRequest): Promise<LoginResult> => {
+  const response = await http.post<LoginResponse>("/auth/login", body);
+  if (response.data.twoFactorRequired) {
+    const raw = asRecord(response.data, "/auth/login");
+    return {
+      twoFactorRequired: true,
+      challengeToken: readString(raw, "challengeToken", "/auth/login"),
+    };
+  }
+  return signedIn(response.data, "/auth/login");
+};
+
+/** Finish a login that stopped at the second factor */
+export const verifyTwoFactor = async (body: TwoFactorChallengeRequest) => {
+  const response = await http.post<LoginResponse>("/auth/2fa/verify", body);
+  return signedIn(response.data, "/auth/2fa/verify");
+};
+
+export const logout = async () => {
+  const response = await http.post<ApiResponse>("/auth/logout");
+  return response.data;
+};
+
+export const verify = async () => {
+  const response = await http.get<VerifyResponse>("/auth/verify");
+  return parseEntity(response.data, "/auth/verify", "user", toUser);
+};
+
+export const refresh = async () => {
+  const response = await http.post<ApiResponse>("/auth/refresh", {});
+  return response.data;
+};
+
+export const changePassword = async (body: ChangePasswordRequest) => {
+  const response = await http.post<ApiResponse>("/auth/change-password", body);
+  return response.data;
+};
+
+export const listSessions = async () => {
+  const response = await http.get("/auth/sessions");
+  return parseList(response.data, "/auth/sessions", "sessions", toSession);
+};
+
+export const revokeSession = async (sessionId: string) => {
+  const response = await http.delete<ApiResponse>(
+    `/auth/sessions/${encodeURIComponent(sessionId)}`
+  );
+  return response.data;
+};
+
+/** Sign out every session except the one making the request */
+export const revokeOtherSessions = async () => {
+  const response = await http.post<RevokeSessionsResponse>(
+    "/auth/sessions/revoke-others"
+  );
+  return response.data;
+};
+
+export const getTwoFactorStatus = async () => {
+  const response = await http.get("/auth/2fa/status");
+  return parseEntity(
+    response.data,
+    "/auth/2fa/status",
+    "twoFactor",
+    toTwoFactorStatus
+  );
+};
+
+/** Start enrolment; the secret stays inactive until `enableTwoFactor` */
+export const startTwoFactorSetup = async () => {
+  const response = await http.post("/auth/2fa/setup", {});
+  return parseEntity(
+    response.data,
+    "/auth/2fa/setup",
+    "setup",
+    toTwoFactorSetup
+  );
+};
+
+/** Confirm enrolment with a first code; answers with the recovery codes */
+export const enableTwoFactor = async (body: TwoFactorCodeRequest) => {
+  const response = await http.post("/auth/2fa/enable", body);
+  return parseList(
+    response.data,
+    "/auth/2fa/enable",
+    "recoveryCodes",
+    toRecoveryCode
+  );
+};
+
+export const disableTwoFactor = async (body: DisableTwoFactorRequest) => {
+  const response = await http.post<ApiResponse>("/auth/2fa/disable", body);
+  return response.data;
+};
+
+/** Replace every recovery code; the old ones stop working at once */
+export const regenerateRecoveryCodes = async (body: TwoFactorCodeRequest) => {
+  const response = await http.post("/auth/2fa/recovery-codes", body);
+  return parseList(
+    response.data,
+    "/auth/2fa/recovery-codes",
+    "recoveryCodes",
+    toRecoveryCode
+  );
+};
+
+// Passkey options are checked for the envelope and an object only; the
+// browser rejects anything malformed inside them
+
+/** Options for `navigator.credentials.create` for the signed-in user */
+export const getPasskeyRegistrationOptions = async () => {
+  const route = "/auth/passkeys/register/options";
+  const response = await http.post<PasskeyRegistrationOptionsResponse>(
+    route,
+    {}
+  );
+  parseEntity(response.data, route, "options", asRecord);
+  return response.data.options;
+};
+
+export const registerPasskey = async (body: RegisterPasskeyRequest) => {
+  const response = await http.post<ApiResponse>(
+    "/auth/passkeys/register",
+    body
+  );
+  return response.data;
+};
+
+/** Options for `navigator.credentials.get`; no username needed */
+export const getPasskeyLoginOptions = async () => {
+  const route = "/auth/passkeys/login/options";
+  const response = await http.post<PasskeyAuthenticationOptionsResponse>(
+    route,
+    {}
+  );
+  parseEntity(response.data, route, "options", asRecord);
+  return response.data.options;
+};
+
+/** A passkey already proves two factors, so this never asks for a code */
+export const loginWithPasskey = async (body: PasskeyLoginRequest) => {
+  const response = await http.post<LoginResponse>("/auth/passkeys/login", body);
+  return signedIn(response.data, "/auth/passkeys/login");
+};
@@ -0,0 +1,82 @@
+import http from "../axios";
+import { toCollection, toGuest, toPhoto } from "../models";
+import { parseList } from "./parse";
+import { thumbnailParams } from "./thumbnails";
+import {
+  ApiResponse,
+  CreateGuestRequest,
+  GenerateCredentialsResponse,
+  LoginRequest,
+  TokenLoginResponse,
+} from "./types";
+
+const id = (value: string) => encodeURIComponent(value);
+
+export const listPhotos = async () => {
+  const response = await http.get("/client/photos", thumbnailParams);
+  return parseList(response.data, "/client/photos", "photos", toPhoto);
+};
+
+export const listCollections = async () => {
+  const response = await http.get("/client/collections", thumbnailParams);
+  return parseList(
+    response.data,
+    "/client/collections",
+    "collections",
+    toCollection
+  );
+};
+
+export const listCollectionPhotos = async (collectionId: string) => {
+  const route = `/client/collections/${id(collectionId)}/photos`;
+  const response = await http.get(route, thumbnailParams);
+  return parseList(response.data, route, "photos", toPhoto);
+};
+
+export const listGuests = async () => {
+  const response = await http.get("/client/guests");
+  return parseList(response.data, "/client/guests", "guests", toGuest);
+};
+
+export const createGuest = async (body: CreateGuestRequest) => {
+  const response = await http.post<ApiResponse>("/client/create-guest", body);
+  return response.data;
+};
+
+export const toggleGuestAccess = async (guestId: string) => {
+  const response = await http.patch<ApiResponse>(
+    `/client/guests/${id(guestId)}/toggle-access`
+  );
+  return response.data;
+};
+
+export const downloadPhoto = async (shareToken: string) => {
+  const response = await http.get<Blob>(
+    `/client/photos/${id(shareToken)}/download`,
+    { responseType: "blob" }
+  );
+  return response.data;
+};
+
+export const downloadZip = async (photoTokens: string[]) => {
+  const response = await http.post<Blob>(
+    "/client/photos/download-zip",
+    { photoTokens },
+    { responseType: "blob" }
+  );
+  return response.data;
+};
+
+/** Legacy token login used by the standalone client gallery */
+export const tokenLogin = async (body: LoginRequest) => {
+  const response = await http.post<TokenLoginResponse>("/client/login", body);
+  return response.data;
+};
+
+export const generateCredentials = async (email: string) => {
+  const response = await http.post<GenerateCredentialsResponse>(
+    "/client/generate-credentials",
+    { email }
+  );
+  return response.data;
+};
@@ -0,0 +1,8 @@
+import http from "../axios";
+import { toGuestPhoto } from "../models";
+import { parseList } from "./parse";
+
+export const listPhotos = async () => {
+  const response = await http.get("/guest/photos");
+  return parseList(response.data, "/guest/photos", "photos", toGuestPhoto);
+};
@@ -0,0 +1,14 @@
+/**
+ * Typed API client. One function per backend route, grouped by role.
+ * Refresh, base URL and error normalisation live in ../axios.
+ */
+export * as authApi from "./auth";
+export * as adminApi from "./admin";
+export * as photographerApi from "./photographer";
+export * as clientApi from "./client";
+export * as guestApi from "./guest";
+export * as photosApi from "./photos";
+export * as thumbnailsApi from "./thumbnails";
+export * as uploadsApi from "./uploads";
+export * from "./types";
+export { ApiError, getErrorMessage, API_BASE_URL } from "../axios";
@@ -0,0 +1,41 @@
+import { ApiError } from "../axios";
+import { asArray, asRecord, Mapper } from "../models";
+import { ApiResponse } from "./types";
+
+const envelope = (data: unknown, route: string) => {
+  const raw = asRecord(data, route);
+  if (raw.success !== true) {
+    const message =
+      typeof raw.message === "string" ? raw.message : "Request failed";
+    throw new ApiError(message, 200, raw);
+  }
+  return raw as ApiResponse & Record<string, unknown>;
+};
+
+/** Validate a successful envelope carrying a list under `key` */
+export const parseList = <K extends string, T>(
+  data: unknown,
+  route: string,
+  key: K,
+  map: Mapper<T>
+) => {
+  const raw = envelope(data, route);
+  return {
+    ...raw,
+    [key]: asArray(raw[key], `${route}.${key}`, map),
+  } as ApiResponse & { [P in K]: T[] };
+};
+
+/** Validate a successful envelope carrying a single entity under `key` */
+export const parseEntity = <K extends string, T>(
+  data: unknown,
+  route: string,
+  key: K,
+  map: Mapper<T>
+) => {
+  const raw = envelope(data, route);
+  return {
+    ...raw,
+    [key]: map(raw[key], `${route}.${key}`),
+  } as ApiResponse & { [P in K]: T };
+};
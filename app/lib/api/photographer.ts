@@ -0,0 +1,131 @@
+import http, { sendOnUnload } from "../axios";
+import {
+  toClient,
+  toCollection,
+  toPhoto,
+  toWatermark,
+  Watermark,
+} from "../models";
+import { parseEntity, parseList } from "./parse";
+import { thumbnailParams } from "./thumbnails";
+import {
+  ApiResponse,
+  CreateClientRequest,
+  CreateCollectionRequest,
+  ScheduledDeletionResponse,
+  ShareCollectionRequest,
+} from "./types";
+
+const id = (value: string) => encodeURIComponent(value);
+
+export const listClients = async () => {
+  const response = await http.get("/photographer/clients");
+  return parseList(response.data, "/photographer/clients", "clients", toClient);
+};
+
+export const createClient = async (body: CreateClientRequest) => {
+  const response = await http.post<ApiResponse>(
+    "/photographer/create-client",
+    body
+  );
+  return response.data;
+};
+
+export const listPhotos = async () => {
+  const response = await http.get("/photographer/photos", thumbnailParams);
+  return parseList(response.data, "/photographer/photos", "photos", toPhoto);
+};
+
+export const listCollectionPhotos = async (collectionId: string) => {
+  const route = `/photographer/collections/${id(collectionId)}/photos`;
+  const response = await http.get(route, thumbnailParams);
+  return parseList(response.data, route, "photos", toPhoto);
+};
+
+export const deletePhoto = async (photoId: string) => {
+  const response = await http.delete<ScheduledDeletionResponse>(
+    `/photographer/photos/${id(photoId)}`
+  );
+  return response.data;
+};
+
+/** deletePhoto for a page that's unloading */
+export const deletePhotoOnUnload = (photoId: string) =>
+  sendOnUnload("DELETE", `/photographer/photos/${id(photoId)}`);
+
+export const listCollections = async () => {
+  const response = await http.get("/photographer/collections", thumbnailParams);
+  return parseList(
+    response.data,
+    "/photographer/collections",
+    "collections",
+    toCollection
+  );
+};
+
+export const createCollection = async (body: CreateCollectionRequest) => {
+  const response = await http.post("/photographer/collections", body);
+  return parseEntity(
+    response.data,
+    "/photographer/collections",
+    "collection",
+    toCollection
+  );
+};
+
+export const deleteCollection = async (collectionId: string) => {
+  const response = await http.delete<ScheduledDeletionResponse>(
+    `/photographer/collections/${id(collectionId)}`
+  );
+  return response.data;
+};
+
+/** deleteCollection for a page that's unloading */
+export const deleteCollectionOnUnload = (collectionId: string) =>
+  sendOnUnload("DELETE", `/photographer/collections/${id(collectionId)}`);
+
+export const shareCollection = async (
+  collectionId: string,
+  body: ShareCollectionRequest
+) => {
+  const response = await http.post<ApiResponse>(
+    `/photographer/collections/${id(collectionId)}/share`,
+    body
+  );
+  return response.data;
+};
+
+/** Watermark for the collection's previews, or null if none was saved */
+export const getWatermark = async (collectionId: string) => {
+  const route = `/photographer/collections/${id(collectionId)}/watermark`;
+  const response = await http.get(route);
+  return parseEntity(response.data, route, "watermark", toWatermark);
+};
+
+export const saveWatermark = async (
+  collectionId: string,
+  watermark: Watermark
+) => {
+  const response = await http.put<ApiResponse>(
+    `/photographer/collections/${id(collectionId)}/watermark`,
+    watermark
+  );
+  return response.data;
+};
+
+export const downloadPhoto = async (shareToken: string) => {
+  const response = await http.get<Blob>(
+    `/photographer/photos/${id(shareToken)}/download`,
+    { responseType: "blob" }
+  );
+  return response.data;
+};
+
+export const downloadZip = async (shareTokens: string[]) => {
+  const response = await http.post<Blob>(
+    "/photographer/photos/download-zip",
+    { shareTokens },
+    { responseType: "blob" }
+  );
+  return response.data;
+};
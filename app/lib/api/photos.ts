@@ -0,0 +1,60 @@
+import http from "../axios";
+import { base64ToBlob } from "../blob";
+import {
+  ApiResponse,
+  FullSizePhotoResponse,
+  PhotoViewerRole,
+  SharedPhotoDto,
+} from "./types";
+
+const bearer = (token: string) => ({
+  headers: { Authorization: `Bearer ${token}` },
+});
+
+/** Full-size photo by share token, from the endpoint of the viewer's role */
+export const getFullSize = async (role: PhotoViewerRole, shareToken: string) => {
+  const response = await http.get<FullSizePhotoResponse>(
+    `/${role}/photos/${encodeURIComponent(shareToken)}`
+  );
+  return response.data;
+};
+
+/** Same as getFullSize, decoded into a Blob ready for an object URL */
+export const getFullSizeBlob = async (
+  role: PhotoViewerRole,
+  shareToken: string
+) => {
+  const data = await getFullSize(role, shareToken);
+  return base64ToBlob(data.photo.photoData, data.photo.mimetype);
+};
+
+// Legacy token-authenticated endpoints used by PhotoUpload/PhotoGallery
+
+export const upload = async (token: string, file: File) => {
+  const formData = new FormData();
+  formData.append("photo", file);
+
+  const response = await http.post<ApiResponse>("/photos/upload", formData, {
+    headers: {
+      ...bearer(token).headers,
+      "Content-Type": "multipart/form-data",
+    },
+  });
+  return response.data;
+};
+
+export const listMine = async (token: string) => {
+  const response = await http.get<ApiResponse & { photos: SharedPhotoDto[] }>(
+    "/photos/my-photos",
+    bearer(token)
+  );
+  return response.data;
+};
+
+export const remove = async (token: string, photoId: string) => {
+  const response = await http.delete<ApiResponse>(
+    `/photos/${encodeURIComponent(photoId)}`,
+    bearer(token)
+  );
+  return response.data;
+};
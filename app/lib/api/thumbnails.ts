@@ -0,0 +1,18 @@
+import http from "../axios";
+import { ThumbnailMode } from "./types";
+
+/**
+ * Listings ask for thumbnail URLs unless NEXT_PUBLIC_THUMBNAIL_MODE=base64.
+ * Backends that don't know the parameter keep inlining base64.
+ */
+export const THUMBNAIL_MODE: ThumbnailMode =
+  process.env.NEXT_PUBLIC_THUMBNAIL_MODE === "base64" ? "base64" : "url";
+
+/** Request config for routes whose items carry thumbnails */
+export const thumbnailParams = { params: { thumbnails: THUMBNAIL_MODE } };
+
+/** Thumbnail bytes from the `thumbnailUrl` of a listed item */
+export const getThumbnail = async (url: string) => {
+  const response = await http.get<Blob>(url, { responseType: "blob" });
+  return response.data;
+};
@@ -0,0 +1,262 @@
+/**
+ * Request and response envelopes of the backend. Entity payloads are
+ * validated and normalised into the models in ../models.
+ */
+import { User } from "../models";
+
+/** Roles that can fetch full-size photos by share token */
+export type PhotoViewerRole = "photographer" | "client" | "guest";
+
+/** How listings deliver thumbnails: a per-item URL or inline base64 */
+export type ThumbnailMode = "url" | "base64";
+
+export interface ApiResponse {
+  success: boolean;
+  message?: string;
+}
+
+// ---------------------------------------------------------------------------
+// Auth
+// ---------------------------------------------------------------------------
+
+export interface LoginRequest {
+  username: string;
+  password: string;
+}
+
+export interface LoginResponse extends ApiResponse {
+  /** Absent while a second factor is still owed */
+  user?: User;
+  mustChangePassword?: boolean;
+  twoFactorRequired?: boolean;
+  /** Short-lived token naming the half-finished login */
+  challengeToken?: string;
+}
+
+export interface VerifyResponse extends ApiResponse {
+  user?: User;
+}
+
+export interface ChangePasswordRequest {
+  currentPassword: string;
+  newPassword: string;
+}
+
+export interface TwoFactorChallengeRequest {
+  challengeToken: string;
+  /** A 6-digit authenticator code or an unused recovery code */
+  code: string;
+}
+
+export interface TwoFactorCodeRequest {
+  code: string;
+}
+
+export interface DisableTwoFactorRequest {
+  password: string;
+  code: string;
+}
+
+export interface RevokeSessionsResponse extends ApiResponse {
+  revoked?: number;
+}
+
+// Passkeys (WebAuthn). Binary fields travel as base64url strings, the
+// shape of the WebAuthn Level 3 JSON serialisation.
+
+export interface PasskeyCredentialDescriptor {
+  id: string;
+  type: "public-key";
+  transports?: AuthenticatorTransport[];
+}
+
+export interface PasskeyRegistrationOptions {
+  challenge: string;
+  rp: { id?: string; name: string };
+  user: { id: string; name: string; displayName: string };
+  pubKeyCredParams: PublicKeyCredentialParameters[];
+  timeout?: number;
+  excludeCredentials?: PasskeyCredentialDescriptor[];
+  authenticatorSelection?: AuthenticatorSelectionCriteria;
+  attestation?: AttestationConveyancePreference;
+}
+
+export interface PasskeyAuthenticationOptions {
+  challenge: string;
+  rpId?: string;
+  timeout?: number;
+  allowCredentials?: PasskeyCredentialDescriptor[];
+  userVerification?: UserVerificationRequirement;
+}
+
+export interface PasskeyRegistrationCredential {
+  id: string;
+  rawId: string;
+  type: "public-key";
+  response: {
+    clientDataJSON: string;
+    attestationObject: string;
+    transports?: string[];
+  };
+}
+
+export interface PasskeyAssertion {
+  id: string;
+  rawId: string;
+  type: "public-key";
+  response: {
+    clientDataJSON: string;
+    authenticatorData: string;
+    signature: string;
+    userHandle?: string;
+  };
+}
+
+export interface PasskeyRegistrationOptionsResponse extends ApiResponse {
+  options: PasskeyRegistrationOptions;
+}
+
+export interface PasskeyAuthenticationOptionsResponse extends ApiResponse {
+  options: PasskeyAuthenticationOptions;
+}
+
+export interface RegisterPasskeyRequest {
+  credential: PasskeyRegistrationCredential;
+  /** Label shown when managing passkeys, e.g. "MacBook" */
+  name?: string;
+}
+
+export interface PasskeyLoginRequest {
+  credential: PasskeyAssertion;
+}
+
+// ---------------------------------------------------------------------------
+// Admin
+// ---------------------------------------------------------------------------
+
+export type RestorableEntityClass =
+  | "Photographer"
+  | "Client"
+  | "Guest"
+  | "Photo"
+  | "PhotoCollection";
+
+export interface RestoreRequest {
+  entityClass: RestorableEntityClass;
+  entityId: string;
+}
+
+export interface RestoreResponse extends ApiResponse {
+  photosRestored?: number;
+}
+
+export interface CleanupResponse extends ApiResponse {
+  summary: { totalDeleted: number };
+}
+
+export interface CreatePhotographerRequest {
+  email: string;
+  businessName: string;
+}
+
+export interface ScheduledDeletionResponse extends ApiResponse {
+  scheduledDeletionDate?: string;
+}
+
+export interface CollectionDeletionResponse extends ScheduledDeletionResponse {
+  photosDeleted?: number;
+}
+
+// ---------------------------------------------------------------------------
+// Photographer
+// ---------------------------------------------------------------------------
+
+export interface CreateClientRequest {
+  email: string;
+  clientName: string;
+}
+
+export interface CreateCollectionRequest {
+  name: string;
+  description: string;
+}
+
+/**
+ * Whether an upload is the photographer's original, a web rendition, or
+ * the watermarked preview clients and guests see instead of the original
+ */
+export type UploadVariant = "original" | "web" | "preview";
+
+export interface CreateUploadSessionRequest {
+  filename: string;
+  size: number;
+  mimetype: string;
+  collectionId?: string;
+  /** 0 keeps the backend default (30 seconds) */
+  expiryMinutes?: number;
+  clientIds?: string[];
+  variant?: UploadVariant;
+  /** Section within the collection, e.g. a sub-folder of a dropped shoot */
+  section?: string;
+  /** Hashes of the source file, for duplicate detection on later uploads */
+  contentHash?: string;
+  perceptualHash?: string;
+}
+
+export interface ShareCollectionRequest {
+  clientUsername: string;
+}
+
+// ---------------------------------------------------------------------------
+// Client
+// ---------------------------------------------------------------------------
+
+export interface CreateGuestRequest {
+  email: string;
+  guestName: string;
+  /** Share tokens of the photos the guest may see */
+  photoIds: string[];
+  expirationDays: number;
+}
+
+export interface ClientCredentials {
+  username: string;
+  password: string;
+  [key: string]: unknown;
+}
+
+export interface TokenLoginResponse extends ApiResponse {
+  token: string;
+  client: Record<string, unknown>;
+}
+
+export interface GenerateCredentialsResponse extends ApiResponse {
+  token: string;
+  credentials: ClientCredentials;
+}
+
+// ---------------------------------------------------------------------------
+// Guest
+// ---------------------------------------------------------------------------
+
+// ---------------------------------------------------------------------------
+// Shared
+// ---------------------------------------------------------------------------
+
+export interface FullSizePhotoResponse extends ApiResponse {
+  photo: {
+    photoData: string;
+    mimetype?: string;
+  };
+}
+
+/** Legacy token-authenticated photo endpoints (`/photos/*`) */
+export interface SharedPhotoDto {
+  id: string;
+  filename: string;
+  originalName: string;
+  size: number;
+  shareToken: string;
+  shareUrl: string;
+  uploadedAt: string;
+}
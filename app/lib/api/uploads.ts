@@ -0,0 +1,68 @@
+import http from "../axios";
+import { toPhoto, toUploadSession } from "../models";
+import { parseEntity } from "./parse";
+import { ApiResponse, CreateUploadSessionRequest } from "./types";
+
+/*
+ * Chunked upload contract (tus-style):
+ *   POST   /photographer/uploads                  open a session
+ *   GET    /photographer/uploads/{id}             current offset
+ *   PATCH  /photographer/uploads/{id}             append a chunk at Upload-Offset
+ *   POST   /photographer/uploads/{id}/complete    turn the bytes into a photo
+ *   DELETE /photographer/uploads/{id}             abandon the session
+ * A PATCH whose offset doesn't match the server answers 409; the client then
+ * re-reads the offset and continues from there.
+ */
+
+const route = (uploadId: string) =>
+  `/photographer/uploads/${encodeURIComponent(uploadId)}`;
+
+export const createSession = async (body: CreateUploadSessionRequest) => {
+  const response = await http.post("/photographer/uploads", body);
+  return parseEntity(
+    response.data,
+    "/photographer/uploads",
+    "upload",
+    toUploadSession
+  );
+};
+
+export const getSession = async (uploadId: string) => {
+  const response = await http.get(route(uploadId));
+  return parseEntity(response.data, route(uploadId), "upload", toUploadSession);
+};
+
+export const uploadChunk = async (
+  uploadId: string,
+  offset: number,
+  chunk: Blob,
+  {
+    signal,
+    onProgress,
+  }: { signal?: AbortSignal; onProgress?: (loaded: number) => void } = {}
+) => {
+  const response = await http.patch(route(uploadId), chunk, {
+    headers: {
+      "Content-Type": "application/offset+octet-stream",
+      "Upload-Offset": offset.toString(),
+    },
+    signal,
+    onUploadProgress: (progressEvent) => onProgress?.(progressEvent.loaded),
+  });
+  return parseEntity(response.data, route(uploadId), "upload", toUploadSession);
+};
+
+export const completeSession = async (uploadId: string) => {
+  const response = await http.post(`${route(uploadId)}/complete`);
+  return parseEntity(
+    response.data,
+    `${route(uploadId)}/complete`,
+    "photo",
+    toPhoto
+  );
+};
+
+export const cancelSession = async (uploadId: string) => {
+  const response = await http.delete<ApiResponse>(route(uploadId));
+  return response.data;
+};
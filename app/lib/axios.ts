@@ -1,25 +1,78 @@
-import axios from "axios";
+import axios, { AxiosError, AxiosRequestConfig } from "axios";
+import { SchemaError } from "./models/schema";
+import { reauthGate, sessionExpiry, SESSION_EXPIRY_HEADER } from "./session";
 
 const API_BASE_URL =
   process.env.NEXT_PUBLIC_API_BASE_URL || "http://localhost:6002/api";
 
+/**
+ * Error thrown by every API call. Wraps the axios error so components
+ * only ever deal with a status code and the backend's message.
+ */
+export class ApiError extends Error {
+  status: number | null;
+  data: unknown;
+
+  constructor(message: string, status: number | null, data?: unknown) {
+    super(message);
+    this.name = "ApiError";
+    this.status = status;
+    this.data = data;
+  }
+}
+
+const toApiError = (error: unknown): ApiError => {
+  if (error instanceof ApiError) return error;
+
+  if (axios.isAxiosError(error)) {
+    const data = error.response?.data as { message?: string } | undefined;
+    return new ApiError(
+      data?.message || error.message,
+      error.response?.status ?? null,
+      data
+    );
+  }
+
+  return new ApiError((error as Error)?.message || "Unknown error", null);
+};
+
+/**
+ * Pull a user-facing message out of anything thrown by the API layer.
+ * Failed envelopes (an ApiError with status 200) keep the backend's message.
+ */
+export const getErrorMessage = (error: unknown, fallback: string): string => {
+  // The backend changed shape; say so rather than hide it behind the fallback
+  if (error instanceof SchemaError) return error.message;
+  const apiError = toApiError(error);
+  return apiError.status !== null && apiError.message
+    ? apiError.message
+    : fallback;
+};
+
 // Create axios instance
 const axiosInstance = axios.create({
   baseURL: API_BASE_URL,
   withCredentials: true, // Send cookies with requests
-  headers: {
-    "Content-Type": "application/json",
-  },
 });
 
+// Don't try to refresh on login, logout, or refresh endpoints
+const skipRefreshUrls = [
+  "/auth/login",
+  "/auth/2fa/verify",
+  "/auth/passkeys/login",
+  "/auth/logout",
+  "/auth/refresh",
+  "/auth/register",
+];
+
 // Track if we're currently refreshing to avoid multiple refresh calls
 let isRefreshing = false;
 let failedQueue: Array<{
-  resolve: (value?: any) => void;
-  reject: (reason?: any) => void;
+  resolve: (value?: unknown) => void;
+  reject: (reason?: unknown) => void;
 }> = [];
 
-const processQueue = (error: any = null) => {
+const processQueue = (error: unknown = null) => {
   failedQueue.forEach((prom) => {
     if (error) {
       prom.reject(error);
@@ -31,31 +84,40 @@ const processQueue = (error: any = null) => {
   failedQueue = [];
 };
 
+type RetriableRequest = AxiosRequestConfig & { _retry?: boolean };
+
 // Response interceptor to handle token refresh
 axiosInstance.interceptors.response.use(
   (response) => {
-    // If response is successful, just return it
+    sessionExpiry.update(response.headers[SESSION_EXPIRY_HEADER]);
     return response;
   },
-  async (error) => {
-    const originalRequest = error.config;
+  async (error: AxiosError) => {
+    const originalRequest = error.config as RetriableRequest | undefined;
+
+    if (!originalRequest) {
+      return Promise.reject(toApiError(error));
+    }
+
+    const shouldSkipRefresh = skipRefreshUrls.some((url) =>
+      originalRequest.url?.includes(url)
+    );
+
+    const isAuthError =
+      error.response?.status === 401 || error.response?.status === 403;
+
+    // Already waiting for the user to sign in again
+    if (isAuthError && !shouldSkipRefresh && reauthGate.pending) {
+      return reauthGate.request().then(() => axiosInstance(originalRequest));
+    }
 
     // If error is 401 or 403 and we haven't tried to refresh yet
-    if (
-      (error.response?.status === 401 || error.response?.status === 403) &&
-      !originalRequest._retry
-    ) {
+    if (isAuthError && !originalRequest._retry && !shouldSkipRefresh) {
       if (isRefreshing) {
         // If already refreshing, queue this request
         return new Promise((resolve, reject) => {
           failedQueue.push({ resolve, reject });
-        })
-          .then(() => {
-            return axiosInstance(originalRequest);
-          })
-          .catch((err) => {
-            return Promise.reject(err);
-          });
+        }).then(() => axiosInstance(originalRequest));
       }
 
       originalRequest._retry = true;
@@ -63,41 +125,63 @@ axiosInstance.interceptors.response.use(
 
       try {
         // Try to refresh the token
-        await axios.post(
+        const refreshed = await axios.post(
           `${API_BASE_URL}/auth/refresh`,
           {},
-          {
-            withCredentials: true, // Send cookies (sessionId)
-          }
+          { withCredentials: true } // Send cookies (sessionId)
         );
+        sessionExpiry.update(refreshed.headers[SESSION_EXPIRY_HEADER]);
 
-        // Token refreshed successfully
         console.log("✅ Token refreshed successfully");
         isRefreshing = false;
         processQueue();
 
         // Retry the original request
         return axiosInstance(originalRequest);
-      } catch (refreshError: any) {
-        // Refresh failed - likely refresh token expired
-        console.error("❌ Token refresh failed:", refreshError.message);
+      } catch (refreshError) {
+        // Refresh failed - user needs to login again
+        console.error("❌ Token refresh failed");
         isRefreshing = false;
-        processQueue(refreshError);
+        const apiError = toApiError(refreshError);
 
-        // Clear user data and redirect to login
-        if (typeof window !== "undefined") {
-          localStorage.removeItem("user");
-          window.location.href = "/login";
+        // Don't prompt on the initial session check - let AuthContext handle
+        // it - or when nobody was signed in to begin with
+        if (
+          !originalRequest.url?.includes("/auth/verify") &&
+          typeof window !== "undefined" &&
+          localStorage.getItem("user")
+        ) {
+          // Hold this request and the queued ones until the user signs in
+          // again, instead of navigating away from whatever they were doing
+          const reauth = reauthGate.request();
+          reauth.then(
+            () => processQueue(),
+            (reason) => processQueue(reason)
+          );
+          return reauth.then(() => axiosInstance(originalRequest));
         }
 
-        return Promise.reject(refreshError);
+        processQueue(apiError);
+        return Promise.reject(apiError);
       }
     }
 
     // For other errors, just reject
-    return Promise.reject(error);
+    return Promise.reject(toApiError(error));
   }
 );
 
+/**
+ * Send a request that outlives the page, for changes still pending as it
+ * unloads. Axios requests are cancelled then; a keepalive fetch isn't. No
+ * refresh or retry, and nobody is left to read the response.
+ */
+export const sendOnUnload = (method: string, path: string) =>
+  fetch(`${API_BASE_URL}${path}`, {
+    method,
+    credentials: "include",
+    keepalive: true,
+  }).catch((error) => console.error(`Failed to send ${path}:`, error));
+
 export default axiosInstance;
 export { API_BASE_URL };
@@ -0,0 +1,14 @@
+import { mimeTypeOfBase64 } from "./imaging/format";
+
+/**
+ * Decode a base64 payload from the API into a Blob. The type is read from
+ * the bytes; `type` is only used when they aren't recognised.
+ */
+export const base64ToBlob = (base64: string, type = "image/jpeg"): Blob => {
+  const byteCharacters = atob(base64);
+  const byteArray = new Uint8Array(byteCharacters.length);
+  for (let i = 0; i < byteCharacters.length; i++) {
+    byteArray[i] = byteCharacters.charCodeAt(i);
+  }
+  return new Blob([byteArray], { type: mimeTypeOfBase64(base64, type) });
+};
@@ -0,0 +1,418 @@
+import { ApiError, getErrorMessage, uploadsApi } from "./api";
+import { Photo } from "./models";
+import {
+  removeUpload,
+  saveUpload,
+  StoredUpload,
+  updateUpload,
+} from "./uploadStore";
+
+export type UploadStatus =
+  | "queued"
+  | "uploading"
+  | "paused"
+  | "error"
+  | "done"
+  | "cancelled";
+
+/** What the UI needs to render one file's progress */
+export interface UploadSnapshot {
+  id: string;
+  name: string;
+  size: number;
+  uploadedBytes: number;
+  status: UploadStatus;
+  error?: string;
+  photo?: Photo;
+}
+
+export type UploadOptions = Pick<
+  StoredUpload,
+  | "collectionId"
+  | "expiryMinutes"
+  | "clientIds"
+  | "variant"
+  | "primary"
+  | "section"
+  | "contentHash"
+  | "perceptualHash"
+>;
+
+const DEFAULT_CHUNK_SIZE = 5 * 1024 * 1024;
+const MAX_CHUNK_RETRIES = 5;
+export const DEFAULT_PARALLEL_UPLOADS = 2;
+export const MAX_PARALLEL_UPLOADS = 6;
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+// 4xx means the request itself is wrong; retrying won't help
+const isRetriable = (error: unknown) =>
+  !(error instanceof ApiError) ||
+  error.status === null ||
+  error.status >= 500 ||
+  error.status === 408 ||
+  error.status === 429;
+
+/**
+ * Caps how many files transfer at once across every upload, so a large
+ * selection doesn't open dozens of connections. The rest wait in order.
+ */
+class UploadLimiter {
+  private active = 0;
+  private waiting: Array<() => void> = [];
+  private limit: number;
+
+  constructor(limit: number) {
+    this.limit = limit;
+  }
+
+  setLimit(limit: number) {
+    this.limit = limit;
+    this.drain();
+  }
+
+  acquire() {
+    return new Promise<void>((resolve) => {
+      this.waiting.push(resolve);
+      this.drain();
+    });
+  }
+
+  release() {
+    this.active--;
+    this.drain();
+  }
+
+  private drain() {
+    while (this.active < this.limit && this.waiting.length > 0) {
+      this.active++;
+      this.waiting.shift()!();
+    }
+  }
+}
+
+const uploadSlots = new UploadLimiter(DEFAULT_PARALLEL_UPLOADS);
+
+/** How many files may upload at the same time */
+export const setUploadParallelism = (limit: number) =>
+  uploadSlots.setLimit(
+    Math.min(MAX_PARALLEL_UPLOADS, Math.max(1, Math.round(limit)))
+  );
+
+/**
+ * One file going through the chunked upload protocol. Progress is persisted
+ * after every chunk; failed chunks are retried with backoff before the
+ * upload parks in "error" until resumed. `done` resolves with the created
+ * photo, or null if the upload is cancelled.
+ */
+export class ChunkedUpload {
+  readonly id: string;
+  readonly done: Promise<Photo | null>;
+  /** Whether `done` resolves with a new photo rather than another copy */
+  readonly primary: boolean;
+  readonly file: Blob;
+
+  private record: StoredUpload;
+  private isNew: boolean;
+  private chunkSize = DEFAULT_CHUNK_SIZE;
+  private status: UploadStatus;
+  private error?: string;
+  private photo?: Photo;
+  private inFlightBytes = 0;
+  private controller: AbortController | null = null;
+  private wake: (() => void) | null = null;
+  private settle!: (photo: Photo | null) => void;
+  private onChange: (snapshot: UploadSnapshot) => void;
+
+  private constructor(
+    record: StoredUpload,
+    file: Blob,
+    isNew: boolean,
+    onChange: (snapshot: UploadSnapshot) => void
+  ) {
+    this.id = record.id;
+    this.primary = record.primary !== false;
+    this.record = record;
+    this.file = file;
+    this.isNew = isNew;
+    this.onChange = onChange;
+    this.status = "queued";
+    this.done = new Promise((resolve) => {
+      this.settle = resolve;
+    });
+
+    this.emit();
+    void this.run();
+  }
+
+  static create(
+    file: File,
+    options: UploadOptions,
+    ownerId: string,
+    onChange: (snapshot: UploadSnapshot) => void
+  ) {
+    const record: StoredUpload = {
+      id: `${Date.now()}-${Math.random().toString(36).slice(2, 10)}`,
+      ownerId,
+      uploadId: null,
+      name: file.name,
+      size: file.size,
+      type: file.type || "application/octet-stream",
+      offset: 0,
+      createdAt: Date.now(),
+      ...options,
+    };
+    return new ChunkedUpload(record, file, true, onChange);
+  }
+
+  /** Continue an upload persisted by a previous page */
+  static restore(
+    record: StoredUpload,
+    file: Blob,
+    onChange: (snapshot: UploadSnapshot) => void
+  ) {
+    return new ChunkedUpload(record, file, false, onChange);
+  }
+
+  get snapshot(): UploadSnapshot {
+    return {
+      id: this.id,
+      name: this.record.name,
+      size: this.record.size,
+      uploadedBytes: Math.min(
+        this.record.size,
+        this.record.offset + this.inFlightBytes
+      ),
+      status: this.status,
+      error: this.error,
+      photo: this.photo,
+    };
+  }
+
+  pause() {
+    if (this.status !== "queued" && this.status !== "uploading") return;
+    this.setStatus("paused");
+    this.controller?.abort();
+  }
+
+  resume() {
+    if (this.status !== "paused" && this.status !== "error") return;
+    this.error = undefined;
+    this.setStatus("queued");
+    this.wake?.();
+  }
+
+  cancel() {
+    if (this.status === "done" || this.status === "cancelled") return;
+    this.setStatus("cancelled");
+    this.controller?.abort();
+    this.wake?.();
+
+    if (this.record.uploadId) {
+      uploadsApi
+        .cancelSession(this.record.uploadId)
+        .catch((error) =>
+          console.warn(`Failed to cancel upload ${this.record.name}:`, error)
+        );
+    }
+    void removeUpload(this.id);
+    this.settle(null);
+  }
+
+  /**
+   * Drop out quietly when the user signs out. Unlike cancel(), nothing is
+   * sent to the server, and the stored record is left to the sign-out.
+   */
+  stop() {
+    if (this.status === "done" || this.status === "cancelled") return;
+    this.onChange = () => undefined;
+    this.status = "cancelled";
+    this.controller?.abort();
+    this.wake?.();
+    this.settle(null);
+  }
+
+  private emit() {
+    this.onChange(this.snapshot);
+  }
+
+  private setStatus(status: UploadStatus) {
+    this.status = status;
+    this.emit();
+  }
+
+  // Blocks while paused or failed, until resume() or cancel()
+  private waitUntilRunnable() {
+    if (this.status !== "paused" && this.status !== "error") {
+      return Promise.resolve();
+    }
+    return new Promise<void>((resolve) => {
+      this.wake = () => {
+        this.wake = null;
+        resolve();
+      };
+    });
+  }
+
+  // Methods rather than inline checks: status changes behind awaits
+  private isActive() {
+    return this.status === "uploading";
+  }
+
+  private isCancelled() {
+    return this.status === "cancelled";
+  }
+
+  private isQueued() {
+    return this.status === "queued";
+  }
+
+  private async run() {
+    if (this.isNew) {
+      await saveUpload(this.record, this.file);
+    }
+
+    while (true) {
+      await this.waitUntilRunnable();
+      if (this.isCancelled()) return;
+
+      await uploadSlots.acquire();
+      try {
+        // Paused or cancelled while waiting for a slot
+        if (!this.isQueued()) continue;
+
+        const photo = await this.transfer();
+        // Paused or cancelled part-way; loop back and wait
+        if (!photo) continue;
+
+        this.photo = photo;
+        this.setStatus("done");
+        await removeUpload(this.id);
+        this.settle(photo);
+        return;
+      } catch (error) {
+        if (this.isCancelled()) return;
+        console.error(`❌ Upload of ${this.record.name} failed:`, error);
+        this.error = getErrorMessage(error, "Upload failed");
+        this.setStatus("error");
+      } finally {
+        uploadSlots.release();
+      }
+    }
+  }
+
+  private async transfer(): Promise<Photo | null> {
+    this.setStatus("uploading");
+    await this.openSession();
+
+    while (this.record.offset < this.record.size) {
+      if (!this.isActive()) return null;
+      await this.sendNextChunk();
+    }
+
+    if (!this.isActive() || !this.record.uploadId) return null;
+    const data = await uploadsApi.completeSession(this.record.uploadId);
+    return data.photo;
+  }
+
+  // Re-read the server's offset, or open a fresh session if it has expired
+  private async openSession() {
+    if (this.record.uploadId) {
+      try {
+        const { upload } = await uploadsApi.getSession(this.record.uploadId);
+        this.record.offset = upload.offset;
+        this.chunkSize = upload.chunkSize ?? this.chunkSize;
+        return;
+      } catch (error) {
+        if (!(error instanceof ApiError && error.status === 404)) throw error;
+        console.log(`🔄 Upload session for ${this.record.name} expired`);
+      }
+    }
+
+    const { upload } = await uploadsApi.createSession({
+      filename: this.record.name,
+      size: this.record.size,
+      mimetype: this.record.type,
+      collectionId: this.record.collectionId,
+      expiryMinutes: this.record.expiryMinutes,
+      clientIds: this.record.clientIds,
+      variant: this.record.variant,
+      section: this.record.section,
+      contentHash: this.record.contentHash,
+      perceptualHash: this.record.perceptualHash,
+    });
+    this.record = {
+      ...this.record,
+      uploadId: upload.id,
+      offset: upload.offset,
+    };
+    this.chunkSize = upload.chunkSize ?? this.chunkSize;
+    await updateUpload(this.record);
+  }
+
+  private async sendNextChunk() {
+    for (let attempt = 0; ; attempt++) {
+      let failure: unknown = null;
+
+      const controller = new AbortController();
+      this.controller = controller;
+
+      try {
+        if (!this.isActive() || !this.record.uploadId) return;
+
+        const start = this.record.offset;
+        const chunk = this.file.slice(start, start + this.chunkSize);
+        const { upload } = await uploadsApi.uploadChunk(
+          this.record.uploadId,
+          start,
+          chunk,
+          {
+            signal: controller.signal,
+            onProgress: (loaded) => {
+              this.inFlightBytes = loaded;
+              this.emit();
+            },
+          }
+        );
+
+        this.record.offset = upload.offset;
+        this.inFlightBytes = 0;
+        this.emit();
+        await updateUpload(this.record);
+        return;
+      } catch (error) {
+        failure = error;
+      } finally {
+        this.controller = null;
+      }
+
+      this.inFlightBytes = 0;
+      // Aborted by pause() or cancel()
+      if (!this.isActive()) return;
+
+      // Out of sync with the server: pick up from wherever it got to. Counts
+      // as an attempt, and a server that won't move the offset is an error
+      if (failure instanceof ApiError && failure.status === 409) {
+        if (attempt >= MAX_CHUNK_RETRIES) throw failure;
+        const rejected = this.record.offset;
+        const { upload } = await uploadsApi.getSession(this.record.uploadId!);
+        if (upload.offset === rejected) throw failure;
+        this.record.offset = upload.offset;
+        await updateUpload(this.record);
+        continue;
+      }
+
+      if (attempt >= MAX_CHUNK_RETRIES || !isRetriable(failure)) {
+        throw failure;
+      }
+
+      const delay = 1000 * Math.pow(2, attempt);
+      console.log(
+        `🔄 Retrying chunk of ${this.record.name} in ${
+          delay / 1000
+        }s (attempt ${attempt + 1}/${MAX_CHUNK_RETRIES})...`
+      );
+      await sleep(delay);
+    }
+  }
+}
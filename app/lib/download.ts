@@ -0,0 +1,35 @@
+import {
+  FORMAT_MIME_TYPES,
+  sniffFormat,
+  withExtension,
+} from "./imaging/format";
+
+/** Hand a blob to the browser as a file download */
+export const saveBlob = (blob: Blob, filename: string) => {
+  const url = window.URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.setAttribute("download", filename);
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  window.URL.revokeObjectURL(url);
+};
+
+/**
+ * Download a photo with a type and extension matching its bytes, so a
+ * converted HEIC doesn't arrive as "IMG_0001.heic" full of JPEG data.
+ */
+export const savePhoto = async (blob: Blob, name: string) => {
+  const format = await sniffFormat(blob);
+  if (!format) {
+    saveBlob(blob, name);
+    return;
+  }
+
+  const type = FORMAT_MIME_TYPES[format];
+  saveBlob(
+    blob.type === type ? blob : new Blob([blob], { type }),
+    withExtension(name, format)
+  );
+};
@@ -0,0 +1,111 @@
+import { base64ToBlob } from "./blob";
+import { dHash, hammingDistance } from "./imaging";
+import { Photo } from "./models";
+import { PreparedUpload } from "./prepareUpload";
+import { loadThumbnail } from "./thumbnails";
+
+export type DuplicateAction = "skip" | "replace" | "keep";
+
+/** A file about to be uploaded that the target collection already has */
+export interface DuplicateMatch {
+  upload: PreparedUpload;
+  /** Existing photos it matches, closest first */
+  photos: Photo[];
+  /** Byte-identical rather than just looking alike */
+  exact: boolean;
+  /** Differing dHash bits to the closest photo; 0 for exact matches */
+  distance: number;
+}
+
+export const DUPLICATE_ACTION_LABELS: Record<DuplicateAction, string> = {
+  skip: "Skip",
+  replace: "Replace existing",
+  keep: "Keep both",
+};
+
+// Out of 64 bits; re-exports and recompressions land well under this
+const SIMILARITY_THRESHOLD = 10;
+
+// Photos uploaded before hashes were recorded get hashed from their
+// thumbnail, once per session
+const thumbnailHashes = new Map<string, Promise<string | null>>();
+
+const hashThumbnail = async (photo: Photo) => {
+  const blob = photo.thumbnailUrl
+    ? await fetch(await loadThumbnail(photo.thumbnailUrl)).then((response) =>
+        response.blob()
+      )
+    : base64ToBlob(photo.thumbnailDataB64!);
+  return dHash(blob);
+};
+
+const perceptualHashOf = (photo: Photo): Promise<string | null> => {
+  if (photo.perceptualHash) return Promise.resolve(photo.perceptualHash);
+  if (!photo.thumbnailUrl && !photo.thumbnailDataB64) {
+    return Promise.resolve(null);
+  }
+
+  let hash = thumbnailHashes.get(photo.id);
+  if (!hash) {
+    hash = hashThumbnail(photo).catch((error) => {
+      console.warn(`Could not hash thumbnail of ${photo.originalName}:`, error);
+      return null;
+    });
+    thumbnailHashes.set(photo.id, hash);
+  }
+  return hash;
+};
+
+/**
+ * Compare prepared uploads against the photos already in the target
+ * collection, by exact content hash first and then by dHash distance.
+ */
+export const findDuplicates = async (
+  uploads: PreparedUpload[],
+  existing: Photo[]
+): Promise<DuplicateMatch[]> => {
+  const needsPerceptual = uploads.some((upload) => upload.perceptualHash);
+  const hashes = new Map<string, string>();
+  if (needsPerceptual) {
+    // One at a time: older photos may need their thumbnail fetched
+    for (const photo of existing) {
+      const hash = await perceptualHashOf(photo);
+      if (hash) hashes.set(photo.id, hash);
+    }
+  }
+
+  const matches: DuplicateMatch[] = [];
+  for (const upload of uploads) {
+    const exact = existing.filter(
+      (photo) => photo.contentHash === upload.contentHash
+    );
+    if (exact.length > 0) {
+      matches.push({ upload, photos: exact, exact: true, distance: 0 });
+      continue;
+    }
+
+    if (!upload.perceptualHash) continue;
+    const similar = existing
+      .map((photo) => {
+        const hash = hashes.get(photo.id);
+        return {
+          photo,
+          distance: hash
+            ? hammingDistance(upload.perceptualHash!, hash)
+            : Infinity,
+        };
+      })
+      .filter(({ distance }) => distance <= SIMILARITY_THRESHOLD)
+      .sort((a, b) => a.distance - b.distance);
+
+    if (similar.length > 0) {
+      matches.push({
+        upload,
+        photos: similar.map(({ photo }) => photo),
+        exact: false,
+        distance: similar[0].distance,
+      });
+    }
+  }
+  return matches;
+};
@@ -0,0 +1,135 @@
+/**
+ * Reading dropped folders through the DataTransfer entries API, and turning
+ * them into an upload plan: one collection per top-level folder, one
+ * section per sub-folder.
+ */
+
+export interface DroppedFile {
+  file: File;
+  /** Folders from the drop root down to the file; empty for loose files */
+  folders: string[];
+}
+
+export interface SectionPlan {
+  /** Sub-folder path below the top-level folder; null for its own files */
+  name: string | null;
+  files: File[];
+}
+
+export interface FolderPlan {
+  /** Top-level folder name; null for files dropped on their own */
+  folder: string | null;
+  sections: SectionPlan[];
+  fileCount: number;
+}
+
+const IMAGE_EXTENSIONS = /\.(jpe?g|png|gif|webp|avif|heic|heif|tiff?|bmp)$/i;
+
+const isImage = (file: File) =>
+  !file.name.startsWith(".") &&
+  (file.type.startsWith("image/") || IMAGE_EXTENSIONS.test(file.name));
+
+const readFile = (entry: FileSystemFileEntry) =>
+  new Promise<File>((resolve, reject) => entry.file(resolve, reject));
+
+// readEntries hands back at most ~100 entries per call; keep going until empty
+const readDirectory = async (entry: FileSystemDirectoryEntry) => {
+  const reader = entry.createReader();
+  const entries: FileSystemEntry[] = [];
+  while (true) {
+    const batch = await new Promise<FileSystemEntry[]>((resolve, reject) =>
+      reader.readEntries(resolve, reject)
+    );
+    if (batch.length === 0) return entries;
+    entries.push(...batch);
+  }
+};
+
+const walk = async (
+  entry: FileSystemEntry,
+  folders: string[],
+  out: DroppedFile[]
+) => {
+  if (entry.isFile) {
+    out.push({ file: await readFile(entry as FileSystemFileEntry), folders });
+    return;
+  }
+  if (entry.isDirectory) {
+    const children = await readDirectory(entry as FileSystemDirectoryEntry);
+    for (const child of children) {
+      await walk(child, [...folders, entry.name], out);
+    }
+  }
+};
+
+/**
+ * Every file in a drop, folders included. Entries have to be taken from
+ * the DataTransfer before the drop handler yields, so call this straight
+ * from the handler.
+ */
+export const readDrop = async (dataTransfer: DataTransfer) => {
+  const entries = Array.from(dataTransfer.items)
+    .map((item) =>
+      item.kind === "file" && item.webkitGetAsEntry
+        ? item.webkitGetAsEntry()
+        : null
+    )
+    .filter((entry): entry is FileSystemEntry => entry !== null);
+
+  // No entries API: fall back to the flat file list
+  if (entries.length === 0) {
+    return Array.from(dataTransfer.files).map((file) => ({
+      file,
+      folders: [],
+    }));
+  }
+
+  const files: DroppedFile[] = [];
+  for (const entry of entries) {
+    await walk(entry, [], files);
+  }
+  return files;
+};
+
+/**
+ * Group dropped images by top-level folder and sub-folder. Non-images
+ * (sidecars, .DS_Store, ...) are left out and counted in `skipped`.
+ */
+export const planFolderUpload = (dropped: DroppedFile[]) => {
+  const plans = new Map<string | null, FolderPlan>();
+  let skipped = 0;
+
+  for (const { file, folders } of dropped) {
+    if (!isImage(file)) {
+      skipped++;
+      continue;
+    }
+
+    const folder = folders[0] ?? null;
+    const sectionName = folders.length > 1 ? folders.slice(1).join("/") : null;
+
+    let plan = plans.get(folder);
+    if (!plan) {
+      plan = { folder, sections: [], fileCount: 0 };
+      plans.set(folder, plan);
+    }
+
+    let section = plan.sections.find(({ name }) => name === sectionName);
+    if (!section) {
+      section = { name: sectionName, files: [] };
+      plan.sections.push(section);
+    }
+    section.files.push(file);
+    plan.fileCount++;
+  }
+
+  const sortSections = (a: SectionPlan, b: SectionPlan) =>
+    (a.name ?? "").localeCompare(b.name ?? "");
+  return {
+    plans: Array.from(plans.values()).map((plan) => ({
+      ...plan,
+      sections: plan.sections.sort(sortSections),
+    })),
+    skipped,
+  };
+};
@@ -0,0 +1,64 @@
+/**
+ * Bounded LRU cache of object URLs. Entries pushed out of the cache are
+ * revoked so full-size blobs don't pile up in memory on large collections.
+ */
+export class ObjectUrlCache {
+  private entries = new Map<string, string>();
+  private capacity: number;
+
+  constructor(capacity: number) {
+    this.capacity = capacity;
+  }
+
+  has(key: string) {
+    return this.entries.has(key);
+  }
+
+  /** Look up a URL without affecting eviction order */
+  peek(key: string) {
+    return this.entries.get(key);
+  }
+
+  /** Look up a URL and mark it as most recently used */
+  get(key: string) {
+    const url = this.entries.get(key);
+    if (url !== undefined) {
+      this.entries.delete(key);
+      this.entries.set(key, url);
+    }
+    return url;
+  }
+
+  set(key: string, blob: Blob) {
+    this.delete(key);
+
+    const url = URL.createObjectURL(blob);
+    this.entries.set(key, url);
+
+    while (this.entries.size > this.capacity) {
+      const oldest = this.entries.keys().next().value as string;
+      this.delete(oldest);
+    }
+
+    return url;
+  }
+
+  delete(key: string) {
+    const url = this.entries.get(key);
+    if (url !== undefined) {
+      URL.revokeObjectURL(url);
+      this.entries.delete(key);
+    }
+  }
+
+  clear() {
+    this.entries.forEach((url) => URL.revokeObjectURL(url));
+    this.entries.clear();
+  }
+}
+
+/** Full-size images shared by every grid, keyed by role and share token */
+export const fullSizeCache = new ObjectUrlCache(40);
+
+/** Thumbnails fetched in URL mode, keyed by their `thumbnailUrl` */
+export const thumbnailCache = new ObjectUrlCache(600);
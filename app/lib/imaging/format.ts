@@ -0,0 +1,124 @@
+/*
+ * Image format detection from magic bytes. Browser-reported MIME types are
+ * missing or wrong often enough (HEIC on Windows, "image/pjpeg", empty
+ * types from drag-and-drop) that the bytes are the only reliable source.
+ */
+
+export type ImageFormat =
+  | "jpeg"
+  | "png"
+  | "gif"
+  | "webp"
+  | "avif"
+  | "heic"
+  | "tiff"
+  | "bmp";
+
+export const FORMAT_MIME_TYPES: Record<ImageFormat, string> = {
+  jpeg: "image/jpeg",
+  png: "image/png",
+  gif: "image/gif",
+  webp: "image/webp",
+  avif: "image/avif",
+  heic: "image/heic",
+  tiff: "image/tiff",
+  bmp: "image/bmp",
+};
+
+const EXTENSIONS: Record<ImageFormat, string[]> = {
+  jpeg: ["jpg", "jpeg"],
+  png: ["png"],
+  gif: ["gif"],
+  webp: ["webp"],
+  avif: ["avif"],
+  heic: ["heic", "heif"],
+  tiff: ["tif", "tiff"],
+  bmp: ["bmp"],
+};
+
+/** Formats every supported browser can display as-is */
+export const WEB_FORMATS: ImageFormat[] = [
+  "jpeg",
+  "png",
+  "gif",
+  "webp",
+  "avif",
+];
+
+/** Bytes needed to tell every format apart */
+export const SNIFF_LENGTH = 32;
+
+const HEIC_BRANDS = [
+  "heic",
+  "heix",
+  "hevc",
+  "hevx",
+  "heim",
+  "heis",
+  "mif1",
+  "msf1",
+];
+const AVIF_BRANDS = ["avif", "avis"];
+
+const ascii = (bytes: Uint8Array, start: number, end: number) =>
+  String.fromCharCode(...Array.from(bytes.subarray(start, end)));
+
+// ISO-BMFF (HEIC, AVIF): an ftyp box with a major brand and compatible brands
+const bmffFormat = (bytes: Uint8Array): ImageFormat | null => {
+  if (ascii(bytes, 4, 8) !== "ftyp") return null;
+  const boxSize = Math.min(
+    bytes.length,
+    ((bytes[0] << 24) | (bytes[1] << 16) | (bytes[2] << 8) | bytes[3]) >>> 0
+  );
+  const brands = [ascii(bytes, 8, 12)];
+  for (let i = 16; i + 4 <= boxSize; i += 4) {
+    brands.push(ascii(bytes, i, i + 4));
+  }
+  // AVIF files also list mif1, so check for AVIF first
+  if (brands.some((brand) => AVIF_BRANDS.includes(brand))) return "avif";
+  if (brands.some((brand) => HEIC_BRANDS.includes(brand))) return "heic";
+  return null;
+};
+
+/** Format of an image from its first bytes, or null if unrecognised */
+export const detectFormat = (bytes: Uint8Array): ImageFormat | null => {
+  if (bytes[0] === 0xff && bytes[1] === 0xd8 && bytes[2] === 0xff) {
+    return "jpeg";
+  }
+  if (ascii(bytes, 0, 8) === "\x89PNG\r\n\x1a\n") return "png";
+  if (ascii(bytes, 0, 4) === "GIF8") return "gif";
+  if (ascii(bytes, 0, 4) === "RIFF" && ascii(bytes, 8, 12) === "WEBP") {
+    return "webp";
+  }
+  if (ascii(bytes, 0, 4) === "II*\0" || ascii(bytes, 0, 4) === "MM\0*") {
+    return "tiff";
+  }
+  if (ascii(bytes, 0, 2) === "BM") return "bmp";
+  return bmffFormat(bytes);
+};
+
+export const sniffFormat = async (blob: Blob) =>
+  detectFormat(new Uint8Array(await blob.slice(0, SNIFF_LENGTH).arrayBuffer()));
+
+/** MIME type of a base64 payload, falling back to `fallback` */
+export const mimeTypeOfBase64 = (base64: string, fallback = "image/jpeg") => {
+  try {
+    // Every 4 base64 characters are 3 bytes
+    const head = atob(base64.slice(0, Math.ceil(SNIFF_LENGTH / 3) * 4));
+    const bytes = Uint8Array.from(head, (char) => char.charCodeAt(0));
+    const format = detectFormat(bytes);
+    return format ? FORMAT_MIME_TYPES[format] : fallback;
+  } catch {
+    return fallback;
+  }
+};
+
+/** `name` with its extension swapped for one matching `format` */
+export const withExtension = (name: string, format: ImageFormat) => {
+  const match = /\.([^.]+)$/.exec(name);
+  if (match && EXTENSIONS[format].includes(match[1].toLowerCase())) {
+    return name;
+  }
+  const stem = match ? name.slice(0, match.index) : name;
+  return `${stem}.${EXTENSIONS[format][0]}`;
+};
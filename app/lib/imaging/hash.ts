@@ -0,0 +1,84 @@
+/*
+ * Content hashes for duplicate detection. SHA-256 catches byte-identical
+ * files; dHash (a 64-bit difference hash over a 9×8 greyscale copy) catches
+ * the same picture re-exported, resized or recompressed.
+ */
+
+const HASH_WIDTH = 9;
+const HASH_HEIGHT = 8;
+
+const toHex = (bytes: Uint8Array) =>
+  Array.from(bytes, (byte) => byte.toString(16).padStart(2, "0")).join("");
+
+export const sha256Hex = async (blob: Blob) =>
+  toHex(
+    new Uint8Array(
+      await crypto.subtle.digest("SHA-256", await blob.arrayBuffer())
+    )
+  );
+
+// The browser does the downscale while decoding, so this stays cheap
+const greyscalePixels = async (blob: Blob) => {
+  const bitmap = await createImageBitmap(blob, {
+    resizeWidth: HASH_WIDTH,
+    resizeHeight: HASH_HEIGHT,
+    resizeQuality: "medium",
+  });
+
+  try {
+    const canvas =
+      typeof OffscreenCanvas !== "undefined"
+        ? new OffscreenCanvas(HASH_WIDTH, HASH_HEIGHT)
+        : Object.assign(document.createElement("canvas"), {
+            width: HASH_WIDTH,
+            height: HASH_HEIGHT,
+          });
+    const context = canvas.getContext("2d") as
+      | OffscreenCanvasRenderingContext2D
+      | CanvasRenderingContext2D
+      | null;
+    if (!context) throw new Error("Canvas is not available");
+
+    context.drawImage(bitmap, 0, 0);
+    const { data } = context.getImageData(0, 0, HASH_WIDTH, HASH_HEIGHT);
+
+    const pixels: number[] = [];
+    for (let i = 0; i < data.length; i += 4) {
+      pixels.push(0.299 * data[i] + 0.587 * data[i + 1] + 0.114 * data[i + 2]);
+    }
+    return pixels;
+  } finally {
+    bitmap.close();
+  }
+};
+
+/** 64-bit difference hash as 16 hex characters */
+export const dHash = async (blob: Blob) => {
+  const pixels = await greyscalePixels(blob);
+  const bytes = new Uint8Array(8);
+
+  for (let row = 0; row < HASH_HEIGHT; row++) {
+    for (let col = 0; col < HASH_WIDTH - 1; col++) {
+      const left = pixels[row * HASH_WIDTH + col];
+      const right = pixels[row * HASH_WIDTH + col + 1];
+      if (left > right) {
+        bytes[row] |= 1 << (7 - col);
+      }
+    }
+  }
+  return toHex(bytes);
+};
+
+/** Number of differing bits between two hex hashes of the same length */
+export const hammingDistance = (a: string, b: string) => {
+  let distance = 0;
+  for (let i = 0; i < a.length; i += 2) {
+    let diff =
+      parseInt(a.slice(i, i + 2), 16) ^ parseInt(b.slice(i, i + 2), 16);
+    while (diff) {
+      distance += diff & 1;
+      diff >>= 1;
+    }
+  }
+  return distance;
+};
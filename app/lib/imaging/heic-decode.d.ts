@@ -0,0 +1,12 @@
+declare module "heic-decode" {
+  interface DecodedImage {
+    width: number;
+    height: number;
+    data: Uint8ClampedArray<ArrayBuffer>;
+  }
+
+  const decode: (input: {
+    buffer: ArrayBuffer | Uint8Array;
+  }) => Promise<DecodedImage>;
+  export default decode;
+}
@@ -0,0 +1,35 @@
+import { withExtension } from "./format";
+import { ConvertRequest, ConvertResponse, ImagingError } from "./types";
+import { createWorkerClient } from "./workerClient";
+
+const JPEG_QUALITY = 0.92;
+
+const heicWorker = createWorkerClient<ConvertRequest, ConvertResponse>(
+  "HEIC",
+  () => new Worker(new URL("./heic.worker.ts", import.meta.url))
+);
+
+/**
+ * Convert an iPhone HEIC/HEIF photo to a high-quality JPEG that every
+ * browser can display. Orientation is baked into the pixels.
+ */
+export const convertHeic = async (file: File): Promise<File> => {
+  if (typeof Worker === "undefined" || typeof OffscreenCanvas === "undefined") {
+    throw new ImagingError(
+      `${file.name}: this browser can't convert HEIC photos`
+    );
+  }
+
+  const response = await heicWorker.request({ file, quality: JPEG_QUALITY });
+  if (!response.ok) {
+    throw new ImagingError(`${file.name}: ${response.error}`);
+  }
+
+  console.log(
+    `🔄 Converted ${file.name} to JPEG (${response.width}×${response.height})`
+  );
+  return new File([response.jpeg], withExtension(file.name, "jpeg"), {
+    type: "image/jpeg",
+    lastModified: file.lastModified,
+  });
+};
@@ -0,0 +1,49 @@
+/*
+ * HEIC/HEIF to JPEG conversion. Safari decodes HEIC natively; other
+ * browsers fall back to libheif compiled to WebAssembly, which is only
+ * downloaded the first time a HEIC file turns up.
+ */
+import { ConvertRequest, ConvertResponse } from "./types";
+
+const drawNatively = async (file: Blob) => {
+  const bitmap = await createImageBitmap(file, {
+    imageOrientation: "from-image",
+  });
+  try {
+    const canvas = new OffscreenCanvas(bitmap.width, bitmap.height);
+    canvas.getContext("2d")?.drawImage(bitmap, 0, 0);
+    return canvas;
+  } finally {
+    bitmap.close();
+  }
+};
+
+const drawWithLibheif = async (file: Blob) => {
+  const { default: decode } = await import("heic-decode");
+  const { width, height, data } = await decode({
+    buffer: new Uint8Array(await file.arrayBuffer()),
+  });
+  const canvas = new OffscreenCanvas(width, height);
+  canvas
+    .getContext("2d")
+    ?.putImageData(new ImageData(data, width, height), 0, 0);
+  return canvas;
+};
+
+const respond = (response: ConvertResponse) => self.postMessage(response);
+
+self.onmessage = async (event: MessageEvent<ConvertRequest>) => {
+  const { id, file, quality } = event.data;
+
+  try {
+    const canvas = await drawNatively(file).catch(() => drawWithLibheif(file));
+    const jpeg = await canvas.convertToBlob({ type: "image/jpeg", quality });
+    respond({ id, ok: true, jpeg, width: canvas.width, height: canvas.height });
+  } catch (error) {
+    respond({
+      id,
+      ok: false,
+      error: error instanceof Error ? error.message : "Could not decode HEIC",
+    });
+  }
+};
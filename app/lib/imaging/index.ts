@@ -0,0 +1,111 @@
+/**
+ * Pre-upload resize/compress pipeline. Work happens in a dedicated worker
+ * with OffscreenCanvas so large shoots don't freeze the dashboard.
+ */
+import {
+  ImagingError,
+  Rendition,
+  RenditionFormat,
+  RenditionOptions,
+  RenditionRequest,
+  RenditionResponse,
+  RenditionSettings,
+  UploadMode,
+  WatermarkStamp,
+} from "./types";
+import { createWorkerClient } from "./workerClient";
+
+export * from "./types";
+export * from "./format";
+export { dHash, hammingDistance, sha256Hex } from "./hash";
+export { convertHeic } from "./heic";
+export { drawWatermark, readLogo, toStamp } from "./watermark";
+
+export const RENDITION_FORMAT_LABELS: Record<RenditionFormat, string> = {
+  "image/webp": "WebP",
+  "image/avif": "AVIF",
+  "image/jpeg": "JPEG",
+};
+
+export const UPLOAD_MODE_LABELS: Record<UploadMode, string> = {
+  original: "Original only",
+  rendition: "Web rendition only",
+  both: "Original and web rendition",
+};
+
+export const DEFAULT_RENDITION_SETTINGS: RenditionSettings = {
+  mode: "original",
+  maxEdge: 2560,
+  quality: 0.82,
+  format: "image/webp",
+  thumbnailEdge: 400,
+};
+
+const STORAGE_KEY = "renditionSettings";
+
+const EXTENSIONS: Record<string, string> = {
+  "image/webp": "webp",
+  "image/avif": "avif",
+  "image/jpeg": "jpg",
+};
+
+/** The photographer's last choice, or originals-only by default */
+export const loadRenditionSettings = (): RenditionSettings => {
+  if (typeof window === "undefined") return DEFAULT_RENDITION_SETTINGS;
+  try {
+    const saved = JSON.parse(localStorage.getItem(STORAGE_KEY) || "{}");
+    return { ...DEFAULT_RENDITION_SETTINGS, ...saved };
+  } catch {
+    return DEFAULT_RENDITION_SETTINGS;
+  }
+};
+
+export const saveRenditionSettings = (settings: RenditionSettings) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+};
+
+export const isImagingSupported = () =>
+  typeof Worker !== "undefined" &&
+  typeof OffscreenCanvas !== "undefined" &&
+  typeof createImageBitmap !== "undefined";
+
+// One worker for the whole app; requests are answered in order
+const resizeWorker = createWorkerClient<RenditionRequest, RenditionResponse>(
+  "image",
+  () => new Worker(new URL("./resize.worker.ts", import.meta.url))
+);
+
+const renditionName = (name: string, type: string) =>
+  `${name.replace(/\.[^.]+$/, "")}.${EXTENSIONS[type] ?? "jpg"}`;
+
+/**
+ * Resize and re-encode `file` for web delivery, optionally watermarked.
+ * The result may be JPEG when the browser can't encode the requested
+ * format.
+ */
+export const createRendition = async (
+  file: File,
+  options: RenditionOptions,
+  watermark?: WatermarkStamp
+): Promise<Rendition> => {
+  if (!isImagingSupported()) {
+    throw new ImagingError(`${file.name}: this browser can't resize images`);
+  }
+
+  const response = await resizeWorker.request({ file, options, watermark });
+
+  if (!response.ok) {
+    throw new ImagingError(`${file.name}: ${response.error}`);
+  }
+
+  const { rendition, thumbnail, width, height } = response;
+  return {
+    file: new File([rendition], renditionName(file.name, rendition.type), {
+      type: rendition.type,
+      lastModified: file.lastModified,
+    }),
+    thumbnail,
+    width,
+    height,
+  };
+};
@@ -0,0 +1,98 @@
+/*
+ * Decodes, resizes and re-encodes photos off the main thread. Re-encoding
+ * through a canvas also drops every bit of embedded metadata.
+ */
+import { RenditionRequest, RenditionResponse, WatermarkStamp } from "./types";
+import { drawWatermark } from "./watermark";
+
+const fit = (width: number, height: number, maxEdge: number) => {
+  const scale = Math.min(1, maxEdge / Math.max(width, height));
+  return {
+    width: Math.max(1, Math.round(width * scale)),
+    height: Math.max(1, Math.round(height * scale)),
+  };
+};
+
+const encode = async (
+  bitmap: ImageBitmap,
+  maxEdge: number,
+  type: string,
+  quality: number,
+  watermark?: { stamp: WatermarkStamp; logo?: ImageBitmap }
+) => {
+  const size = fit(bitmap.width, bitmap.height, maxEdge);
+  const canvas = new OffscreenCanvas(size.width, size.height);
+  const context = canvas.getContext("2d");
+  if (!context) throw new Error("Canvas is not available");
+
+  context.imageSmoothingQuality = "high";
+  context.drawImage(bitmap, 0, 0, size.width, size.height);
+  if (watermark) {
+    drawWatermark(
+      context,
+      size.width,
+      size.height,
+      watermark.stamp,
+      watermark.logo
+    );
+  }
+
+  const blob = await canvas.convertToBlob({ type, quality });
+  // Encoders the browser lacks (AVIF, mostly) silently produce PNG instead
+  if (blob.type !== type) {
+    return {
+      ...size,
+      blob: await canvas.convertToBlob({ type: "image/jpeg", quality }),
+    };
+  }
+  return { ...size, blob };
+};
+
+const respond = (response: RenditionResponse) => self.postMessage(response);
+
+self.onmessage = async (event: MessageEvent<RenditionRequest>) => {
+  const { id, file, options, watermark } = event.data;
+
+  try {
+    const bitmap = await createImageBitmap(file, {
+      imageOrientation: "from-image",
+    });
+    const logo = watermark?.logo
+      ? await createImageBitmap(watermark.logo)
+      : undefined;
+    const stamp = watermark && { stamp: watermark, logo };
+    try {
+      const rendition = await encode(
+        bitmap,
+        options.maxEdge,
+        options.format,
+        options.quality,
+        stamp
+      );
+      const thumbnail = await encode(
+        bitmap,
+        options.thumbnailEdge,
+        "image/jpeg",
+        0.8,
+        stamp
+      );
+      respond({
+        id,
+        ok: true,
+        rendition: rendition.blob,
+        thumbnail: thumbnail.blob,
+        width: rendition.width,
+        height: rendition.height,
+      });
+    } finally {
+      bitmap.close();
+      logo?.close();
+    }
+  } catch (error) {
+    respond({
+      id,
+      ok: false,
+      error: error instanceof Error ? error.message : "Could not read image",
+    });
+  }
+};
@@ -0,0 +1,74 @@
+import { Watermark } from "../models";
+
+export type RenditionFormat = "image/webp" | "image/avif" | "image/jpeg";
+
+/** What goes up to the server for each selected file */
+export type UploadMode = "original" | "rendition" | "both";
+
+export interface RenditionOptions {
+  /** Longest edge of the web rendition, in pixels; never upscaled */
+  maxEdge: number;
+  /** Encoder quality, 0-1 */
+  quality: number;
+  format: RenditionFormat;
+  /** Longest edge of the local thumbnail */
+  thumbnailEdge: number;
+}
+
+export interface RenditionSettings extends RenditionOptions {
+  mode: UploadMode;
+}
+
+/** A web-delivery copy of a photo plus a thumbnail for immediate display */
+export interface Rendition {
+  file: File;
+  thumbnail: Blob;
+  width: number;
+  height: number;
+}
+
+export class ImagingError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ImagingError";
+  }
+}
+
+/** A watermark ready for the worker, with its logo decoded from the data URL */
+export interface WatermarkStamp extends Omit<Watermark, "logo"> {
+  logo?: Blob;
+}
+
+/** Message to the resize worker */
+export interface RenditionRequest {
+  id: number;
+  file: Blob;
+  options: RenditionOptions;
+  /** Drawn over both the rendition and its thumbnail */
+  watermark?: WatermarkStamp;
+}
+
+/** Message back from the resize worker */
+export type RenditionResponse =
+  | {
+      id: number;
+      ok: true;
+      rendition: Blob;
+      thumbnail: Blob;
+      width: number;
+      height: number;
+    }
+  | { id: number; ok: false; error: string };
+
+/** Message to the HEIC conversion worker */
+export interface ConvertRequest {
+  id: number;
+  file: Blob;
+  /** JPEG quality, 0-1 */
+  quality: number;
+}
+
+/** Message back from the HEIC conversion worker */
+export type ConvertResponse =
+  | { id: number; ok: true; jpeg: Blob; width: number; height: number }
+  | { id: number; ok: false; error: string };
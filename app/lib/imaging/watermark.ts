@@ -0,0 +1,119 @@
+/*
+ * Watermark drawing shared by the resize worker and the designer preview,
+ * so what the photographer sees is exactly what clients get.
+ */
+import { Watermark } from "../models";
+import { WatermarkStamp } from "./types";
+
+type Context2D = CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D;
+
+type Logo = ImageBitmap | HTMLImageElement;
+
+/** Longest edge logos are stored at */
+const MAX_LOGO_EDGE = 512;
+
+// Tiles are rotated so they can't be cropped out along one edge
+const TILE_ANGLE = -Math.PI / 6;
+
+/** Draw `watermark` over a `width`×`height` image already on `context` */
+export const drawWatermark = (
+  context: Context2D,
+  width: number,
+  height: number,
+  watermark: Omit<Watermark, "logo">,
+  logo?: Logo
+) => {
+  const markWidth = Math.max(1, width * watermark.scale);
+  let markHeight: number;
+  let draw: (x: number, y: number) => void;
+
+  context.save();
+  context.globalAlpha = watermark.opacity;
+
+  if (watermark.kind === "logo") {
+    if (!logo) {
+      context.restore();
+      return;
+    }
+    markHeight = (markWidth * logo.height) / logo.width;
+    draw = (x, y) => context.drawImage(logo, x, y, markWidth, markHeight);
+  } else {
+    // Size the font so the text spans exactly `markWidth`
+    context.font = "bold 100px sans-serif";
+    const measured = context.measureText(watermark.text).width || 1;
+    const fontSize = (100 * markWidth) / measured;
+    context.font = `bold ${fontSize}px sans-serif`;
+    context.textBaseline = "top";
+    context.fillStyle = "#ffffff";
+    context.strokeStyle = "rgba(0, 0, 0, 0.6)";
+    context.lineWidth = Math.max(1, fontSize / 24);
+    markHeight = fontSize;
+    draw = (x, y) => {
+      context.strokeText(watermark.text, x, y);
+      context.fillText(watermark.text, x, y);
+    };
+  }
+
+  if (watermark.tiled) {
+    const stepX = markWidth * 1.5;
+    const stepY = markHeight * 3;
+    const diagonal = Math.hypot(width, height);
+    context.translate(width / 2, height / 2);
+    context.rotate(TILE_ANGLE);
+    for (let y = -diagonal / 2; y < diagonal / 2; y += stepY) {
+      // Offset every other row so tiles don't line up in columns
+      const offset = Math.round(y / stepY) % 2 === 0 ? 0 : stepX / 2;
+      for (let x = -diagonal / 2 - offset; x < diagonal / 2; x += stepX) {
+        draw(x, y);
+      }
+    }
+  } else {
+    const { position } = watermark;
+    const margin = Math.min(width, height) * 0.03;
+    const x = position.endsWith("left")
+      ? margin
+      : position.endsWith("right")
+      ? width - markWidth - margin
+      : (width - markWidth) / 2;
+    const y = position.startsWith("top")
+      ? margin
+      : position.startsWith("bottom")
+      ? height - markHeight - margin
+      : (height - markHeight) / 2;
+    draw(x, y);
+  }
+
+  context.restore();
+};
+
+/** The watermark as the worker needs it, with the logo as a Blob */
+export const toStamp = async ({
+  logo,
+  ...watermark
+}: Watermark): Promise<WatermarkStamp> => ({
+  ...watermark,
+  logo:
+    watermark.kind === "logo" && logo
+      ? await (await fetch(logo)).blob()
+      : undefined,
+});
+
+/** Downscale a picked logo file and return it as a PNG data URL */
+export const readLogo = async (file: File) => {
+  const bitmap = await createImageBitmap(file);
+  try {
+    const scale = Math.min(
+      1,
+      MAX_LOGO_EDGE / Math.max(bitmap.width, bitmap.height)
+    );
+    const canvas = document.createElement("canvas");
+    canvas.width = Math.max(1, Math.round(bitmap.width * scale));
+    canvas.height = Math.max(1, Math.round(bitmap.height * scale));
+    canvas
+      .getContext("2d")
+      ?.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+    return canvas.toDataURL("image/png");
+  } finally {
+    bitmap.close();
+  }
+};
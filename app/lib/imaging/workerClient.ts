@@ -0,0 +1,59 @@
+import { ImagingError } from "./types";
+
+interface WorkerClient<Request, Response> {
+  /** Post a request and wait for the response with the same id */
+  request: (message: Omit<Request, "id">) => Promise<Response>;
+}
+
+/**
+ * Request/response wrapper around a lazily started worker. `create` must
+ * contain the `new Worker(new URL(...))` call itself so the bundler can
+ * find the worker file.
+ */
+export const createWorkerClient = <
+  Request extends { id: number },
+  Response extends { id: number }
+>(
+  label: string,
+  create: () => Worker
+): WorkerClient<Request, Response> => {
+  let worker: Worker | null = null;
+  let nextId = 0;
+  const pending = new Map<
+    number,
+    {
+      resolve: (response: Response) => void;
+      reject: (error: Error) => void;
+    }
+  >();
+
+  const getWorker = () => {
+    if (worker) return worker;
+
+    worker = create();
+    worker.onmessage = (event: MessageEvent<Response>) => {
+      pending.get(event.data.id)?.resolve(event.data);
+      pending.delete(event.data.id);
+    };
+    worker.onerror = (event) => {
+      console.error(`❌ ${label} worker crashed:`, event.message);
+      pending.forEach(({ reject }) =>
+        reject(new ImagingError(`the ${label} worker stopped unexpectedly`))
+      );
+      pending.clear();
+      worker?.terminate();
+      worker = null;
+    };
+    return worker;
+  };
+
+  return {
+    request: (message) => {
+      const id = nextId++;
+      return new Promise<Response>((resolve, reject) => {
+        pending.set(id, { resolve, reject });
+        getWorker().postMessage({ ...message, id });
+      });
+    },
+  };
+};
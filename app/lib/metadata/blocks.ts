@@ -0,0 +1,20 @@
+import { MetadataField, MetadataGroup, StripSet } from "./types";
+
+/**
+ * What an XMP or IPTC block may hold: a location, but also serial numbers,
+ * the lens, the camera owner and capture times. The block can't be edited
+ * field by field, so it goes whenever any of these is stripped.
+ */
+const BLOCK_GROUPS: MetadataGroup[] = ["gps", "device", "timestamps"];
+
+/** One preview entry per group the block may hold, so each lists it */
+export const blockFields = (name: string, length: number): MetadataField[] =>
+  BLOCK_GROUPS.map((group) => ({
+    group,
+    name,
+    value: `${length} bytes`,
+    removedWith: BLOCK_GROUPS,
+  }));
+
+export const shouldDropBlock = (strip: StripSet) =>
+  BLOCK_GROUPS.some((group) => strip?.has(group) ?? false);
@@ -0,0 +1,68 @@
+/** Whether the ASCII `text` appears in `bytes` at `offset` */
+export const startsWith = (bytes: Uint8Array, offset: number, text: string) => {
+  if (offset + text.length > bytes.length) return false;
+  for (let i = 0; i < text.length; i++) {
+    if (bytes[offset + i] !== text.charCodeAt(i)) return false;
+  }
+  return true;
+};
+
+/** Copy the given [start, end) ranges of `bytes` into one new array */
+export const concatRanges = (
+  bytes: Uint8Array,
+  ranges: Array<[number, number]>
+) => {
+  const total = ranges.reduce((sum, [start, end]) => sum + (end - start), 0);
+  const output = new Uint8Array(total);
+  let offset = 0;
+  ranges.forEach(([start, end]) => {
+    output.set(bytes.subarray(start, end), offset);
+    offset += end - start;
+  });
+  return output;
+};
+
+export const readU32BE = (bytes: Uint8Array, offset: number) =>
+  ((bytes[offset] << 24) |
+    (bytes[offset + 1] << 16) |
+    (bytes[offset + 2] << 8) |
+    bytes[offset + 3]) >>>
+  0;
+
+export const readU32LE = (bytes: Uint8Array, offset: number) =>
+  (bytes[offset] |
+    (bytes[offset + 1] << 8) |
+    (bytes[offset + 2] << 16) |
+    (bytes[offset + 3] << 24)) >>>
+  0;
+
+export const writeU32BE = (
+  bytes: Uint8Array,
+  offset: number,
+  value: number
+) => {
+  bytes[offset] = (value >>> 24) & 0xff;
+  bytes[offset + 1] = (value >>> 16) & 0xff;
+  bytes[offset + 2] = (value >>> 8) & 0xff;
+  bytes[offset + 3] = value & 0xff;
+};
+
+export const writeU32LE = (
+  bytes: Uint8Array,
+  offset: number,
+  value: number
+) => {
+  bytes[offset] = value & 0xff;
+  bytes[offset + 1] = (value >>> 8) & 0xff;
+  bytes[offset + 2] = (value >>> 16) & 0xff;
+  bytes[offset + 3] = (value >>> 24) & 0xff;
+};
+
+/** Latin-1 text of `bytes[start, end)`, cut at the first NUL */
+export const readText = (bytes: Uint8Array, start: number, end: number) => {
+  let text = "";
+  for (let i = start; i < end && bytes[i] !== 0; i++) {
+    text += String.fromCharCode(bytes[i]);
+  }
+  return text;
+};
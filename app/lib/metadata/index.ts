@@ -0,0 +1,115 @@
+/**
+ * In-browser metadata scrubber. Rewrites JPEG, PNG and WebP files so the
+ * backend (and every client after it) only gets what the photographer
+ * chose to keep. Other formats pass through untouched.
+ */
+import { scanJpeg } from "./jpeg";
+import { scanPng } from "./png";
+import { scanWebp } from "./webp";
+import { startsWith } from "./bytes";
+import {
+  MetadataError,
+  MetadataField,
+  MetadataGroup,
+  ScanResult,
+  StripOptions,
+  StripSet,
+} from "./types";
+
+export * from "./types";
+
+export const METADATA_GROUP_LABELS: Record<MetadataGroup, string> = {
+  gps: "GPS location",
+  device: "Camera & device",
+  timestamps: "Timestamps",
+  makerNotes: "Maker notes",
+};
+
+export const DEFAULT_STRIP_OPTIONS: StripOptions = {
+  gps: true,
+  device: true,
+  timestamps: true,
+  makerNotes: true,
+};
+
+const STORAGE_KEY = "metadataStripOptions";
+
+/** Whether stripping with `options` takes `field` out of the file */
+export const isStripped = (field: MetadataField, options: StripOptions) =>
+  options[field.group] ||
+  (field.removedWith?.some((group) => options[group]) ?? false);
+
+/** The photographer's last choice, or strip-everything by default */
+export const loadStripOptions = (): StripOptions => {
+  if (typeof window === "undefined") return DEFAULT_STRIP_OPTIONS;
+  try {
+    const saved = JSON.parse(localStorage.getItem(STORAGE_KEY) || "{}");
+    return { ...DEFAULT_STRIP_OPTIONS, ...saved };
+  } catch {
+    return DEFAULT_STRIP_OPTIONS;
+  }
+};
+
+export const saveStripOptions = (options: StripOptions) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(options));
+};
+
+const scanBytes = (
+  bytes: Uint8Array<ArrayBuffer>,
+  strip: StripSet
+): ScanResult | null => {
+  if (bytes[0] === 0xff && bytes[1] === 0xd8) {
+    return scanJpeg(bytes, strip);
+  }
+  if (startsWith(bytes, 1, "PNG\r\n\x1a\n")) {
+    return scanPng(bytes, strip);
+  }
+  if (startsWith(bytes, 0, "RIFF") && startsWith(bytes, 8, "WEBP")) {
+    return scanWebp(bytes, strip);
+  }
+  return null;
+};
+
+const scanFile = async (file: File, strip: StripSet) => {
+  const bytes = new Uint8Array(await file.arrayBuffer());
+  try {
+    return scanBytes(bytes, strip);
+  } catch (error) {
+    if (error instanceof MetadataError) {
+      throw new MetadataError(`${file.name}: ${error.message}`);
+    }
+    // DataView range errors from truncated files
+    throw new MetadataError(`${file.name}: could not read metadata`);
+  }
+};
+
+/** Everything the scrubber could remove from a file, for the preview */
+export const inspectMetadata = async (file: File): Promise<MetadataField[]> =>
+  (await scanFile(file, null))?.fields ?? [];
+
+/**
+ * A copy of `file` without the selected metadata groups, plus what was
+ * removed. The original is returned as-is when there was nothing to strip.
+ */
+export const stripMetadata = async (
+  file: File,
+  options: StripOptions
+): Promise<{ file: File; removed: MetadataField[] }> => {
+  const groups = new Set(
+    (Object.keys(options) as MetadataGroup[]).filter((group) => options[group])
+  );
+  if (groups.size === 0) return { file, removed: [] };
+
+  const result = await scanFile(file, groups);
+  const removed =
+    result?.fields.filter((field) => isStripped(field, options)) ?? [];
+  if (!result || removed.length === 0) return { file, removed: [] };
+
+  return {
+    file: new File([result.bytes], file.name, {
+      type: file.type,
+      lastModified: file.lastModified,
+    }),
+    removed,
+  };
+};
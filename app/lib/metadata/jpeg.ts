@@ -0,0 +1,82 @@
+import { scanTiff } from "./tiff";
+import { MetadataError, MetadataField, ScanResult, StripSet } from "./types";
+import { concatRanges, startsWith } from "./bytes";
+import { blockFields, shouldDropBlock } from "./blocks";
+
+const EXIF_HEADER = "Exif\0\0";
+const XMP_HEADERS = [
+  "http://ns.adobe.com/xap/1.0/\0",
+  "http://ns.adobe.com/xmp/extension/\0",
+];
+const IPTC_HEADER = "Photoshop 3.0\0";
+
+const APP1 = 0xe1;
+const APP13 = 0xed;
+const SOS = 0xda;
+
+/**
+ * Walk the JPEG segments up to the image data. EXIF is scrubbed in place;
+ * XMP and IPTC blocks go whole whenever anything they may hold is stripped.
+ */
+export const scanJpeg = (
+  bytes: Uint8Array<ArrayBuffer>,
+  strip: StripSet
+): ScanResult => {
+  const fields: MetadataField[] = [];
+  const kept: Array<[number, number]> = [];
+  let dropped = false;
+  let position = 2;
+  let keptFrom = 0;
+
+  while (position < bytes.length) {
+    if (bytes[position] !== 0xff) {
+      throw new MetadataError("Malformed JPEG segment");
+    }
+
+    const marker = bytes[position + 1];
+    // Standalone markers carry no length
+    if (
+      marker === 0xd8 ||
+      marker === 0x01 ||
+      (marker >= 0xd0 && marker <= 0xd7)
+    ) {
+      position += 2;
+      continue;
+    }
+    // Entropy-coded data follows; nothing after this is metadata
+    if (marker === SOS) break;
+
+    const length = (bytes[position + 2] << 8) | bytes[position + 3];
+    const dataStart = position + 4;
+    const end = position + 2 + length;
+    if (length < 2 || end > bytes.length) {
+      throw new MetadataError("JPEG segment runs past the end of the file");
+    }
+
+    let drop = false;
+    if (marker === APP1 && startsWith(bytes, dataStart, EXIF_HEADER)) {
+      const tiffStart = dataStart + EXIF_HEADER.length;
+      fields.push(...scanTiff(bytes, tiffStart, end - tiffStart, strip));
+    } else if (
+      marker === APP1 &&
+      XMP_HEADERS.some((header) => startsWith(bytes, dataStart, header))
+    ) {
+      fields.push(...blockFields("XMP metadata", length));
+      drop = shouldDropBlock(strip);
+    } else if (marker === APP13 && startsWith(bytes, dataStart, IPTC_HEADER)) {
+      fields.push(...blockFields("IPTC metadata", length));
+      drop = shouldDropBlock(strip);
+    }
+
+    if (drop) {
+      kept.push([keptFrom, position]);
+      keptFrom = end;
+      dropped = true;
+    }
+    position = end;
+  }
+
+  if (!dropped) return { fields, bytes };
+  kept.push([keptFrom, bytes.length]);
+  return { fields, bytes: concatRanges(bytes, kept) };
+};
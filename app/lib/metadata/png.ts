@@ -0,0 +1,147 @@
+import {
+  concatRanges,
+  readText,
+  readU32BE,
+  startsWith,
+  writeU32BE,
+} from "./bytes";
+import { blockFields, shouldDropBlock } from "./blocks";
+import { scanTiff } from "./tiff";
+import {
+  MetadataError,
+  MetadataField,
+  MetadataGroup,
+  ScanResult,
+  StripSet,
+} from "./types";
+
+const SIGNATURE_LENGTH = 8;
+
+const XMP_KEYWORD = "XML:com.adobe.xmp";
+
+// Text chunk keywords worth stripping; other keys (Title, Author...) stay
+const TEXT_KEYWORDS: Record<string, { name: string; group: MetadataGroup }> = {
+  "Creation Time": { name: "Created", group: "timestamps" },
+  Software: { name: "Software", group: "device" },
+  Source: { name: "Device", group: "device" },
+};
+
+let crcTable: Uint32Array | null = null;
+
+const crc32 = (bytes: Uint8Array, start: number, end: number) => {
+  if (!crcTable) {
+    crcTable = new Uint32Array(256);
+    for (let n = 0; n < 256; n++) {
+      let c = n;
+      for (let k = 0; k < 8; k++) {
+        c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+      }
+      crcTable[n] = c >>> 0;
+    }
+  }
+
+  let crc = 0xffffffff;
+  for (let i = start; i < end; i++) {
+    crc = crcTable[(crc ^ bytes[i]) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+};
+
+const formatTime = (bytes: Uint8Array, start: number) => {
+  const year = (bytes[start] << 8) | bytes[start + 1];
+  const pad = (value: number) => value.toString().padStart(2, "0");
+  return `${year}-${pad(bytes[start + 2])}-${pad(bytes[start + 3])} ${pad(
+    bytes[start + 4]
+  )}:${pad(bytes[start + 5])}:${pad(bytes[start + 6])}`;
+};
+
+/**
+ * Walk PNG chunks. eXIf is scrubbed in place (and its CRC redone); tIME,
+ * the text chunks listed above and XMP are dropped whole.
+ */
+export const scanPng = (
+  bytes: Uint8Array<ArrayBuffer>,
+  strip: StripSet
+): ScanResult => {
+  const fields: MetadataField[] = [];
+  const kept: Array<[number, number]> = [];
+  let dropped = false;
+  let position = SIGNATURE_LENGTH;
+  let keptFrom = 0;
+
+  while (position + 12 <= bytes.length) {
+    const length = readU32BE(bytes, position);
+    const typeStart = position + 4;
+    const dataStart = position + 8;
+    const end = dataStart + length + 4;
+    if (end > bytes.length) {
+      throw new MetadataError("PNG chunk runs past the end of the file");
+    }
+
+    let found: MetadataField[] = [];
+    let drop = false;
+    if (startsWith(bytes, typeStart, "eXIf")) {
+      fields.push(...scanTiff(bytes, dataStart, length, strip));
+      if (strip) {
+        writeU32BE(
+          bytes,
+          dataStart + length,
+          crc32(bytes, typeStart, dataStart + length)
+        );
+      }
+    } else if (startsWith(bytes, typeStart, "tIME") && length === 7) {
+      found = [
+        {
+          group: "timestamps",
+          name: "Modified",
+          value: formatTime(bytes, dataStart),
+        },
+      ];
+      drop = strip?.has("timestamps") ?? false;
+    } else if (
+      startsWith(bytes, typeStart, "tEXt") ||
+      startsWith(bytes, typeStart, "zTXt") ||
+      startsWith(bytes, typeStart, "iTXt")
+    ) {
+      const keyword = readText(
+        bytes,
+        dataStart,
+        dataStart + Math.min(length, 80)
+      );
+      const known = TEXT_KEYWORDS[keyword];
+      if (keyword === XMP_KEYWORD) {
+        found = blockFields("XMP metadata", length);
+        drop = shouldDropBlock(strip);
+      } else if (known) {
+        const isPlainText = startsWith(bytes, typeStart, "tEXt");
+        found = [
+          {
+            ...known,
+            value: isPlainText
+              ? readText(
+                  bytes,
+                  dataStart + keyword.length + 1,
+                  dataStart + length
+                )
+              : `${length} bytes`,
+          },
+        ];
+        drop = strip?.has(known.group) ?? false;
+      }
+    }
+
+    fields.push(...found);
+    if (drop) {
+      kept.push([keptFrom, position]);
+      keptFrom = end;
+      dropped = true;
+    }
+
+    if (startsWith(bytes, typeStart, "IEND")) break;
+    position = end;
+  }
+
+  if (!dropped) return { fields, bytes };
+  kept.push([keptFrom, bytes.length]);
+  return { fields, bytes: concatRanges(bytes, kept) };
+};
@@ -0,0 +1,367 @@
+import { MetadataError, MetadataField, MetadataGroup, StripSet } from "./types";
+
+/*
+ * EXIF is a TIFF structure: IFDs of 12-byte entries whose values either sit
+ * inline or at an offset from the TIFF header. Tags are removed in place by
+ * compacting the IFD's entry list and zeroing the removed values, so no
+ * offset anywhere else in the file has to change.
+ */
+
+interface TagInfo {
+  name: string;
+  group: MetadataGroup;
+}
+
+// Byte size of each TIFF field type
+const TYPE_SIZES: Record<number, number> = {
+  1: 1,
+  2: 1,
+  3: 2,
+  4: 4,
+  5: 8,
+  6: 1,
+  7: 1,
+  8: 2,
+  9: 4,
+  10: 8,
+  11: 4,
+  12: 8,
+};
+
+const EXIF_POINTER = 0x8769;
+const GPS_POINTER = 0x8825;
+
+// IFD0 and IFD1 (the embedded thumbnail)
+const IMAGE_TAGS: Record<number, TagInfo> = {
+  0x010f: { name: "Camera make", group: "device" },
+  0x0110: { name: "Camera model", group: "device" },
+  0x0131: { name: "Software", group: "device" },
+  0x013c: { name: "Host computer", group: "device" },
+  0x0132: { name: "Modified", group: "timestamps" },
+};
+
+const EXIF_TAGS: Record<number, TagInfo> = {
+  0xa420: { name: "Image unique ID", group: "device" },
+  0xa430: { name: "Camera owner", group: "device" },
+  0xa431: { name: "Camera serial number", group: "device" },
+  0xa432: { name: "Lens specification", group: "device" },
+  0xa433: { name: "Lens make", group: "device" },
+  0xa434: { name: "Lens model", group: "device" },
+  0xa435: { name: "Lens serial number", group: "device" },
+  0x9003: { name: "Taken", group: "timestamps" },
+  0x9004: { name: "Digitized", group: "timestamps" },
+  0x9010: { name: "Time zone", group: "timestamps" },
+  0x9011: { name: "Time zone (taken)", group: "timestamps" },
+  0x9012: { name: "Time zone (digitized)", group: "timestamps" },
+  0x9290: { name: "Sub-second time", group: "timestamps" },
+  0x9291: { name: "Sub-second time (taken)", group: "timestamps" },
+  0x9292: { name: "Sub-second time (digitized)", group: "timestamps" },
+  0x927c: { name: "Maker notes", group: "makerNotes" },
+};
+
+// Everything in the GPS IFD is location, except its clock fields
+const GPS_TAGS: Record<number, TagInfo> = {
+  0x0001: { name: "Latitude ref", group: "gps" },
+  0x0002: { name: "Latitude", group: "gps" },
+  0x0003: { name: "Longitude ref", group: "gps" },
+  0x0004: { name: "Longitude", group: "gps" },
+  0x0005: { name: "Altitude ref", group: "gps" },
+  0x0006: { name: "Altitude", group: "gps" },
+  0x0007: { name: "GPS time", group: "timestamps" },
+  0x0010: { name: "Direction ref", group: "gps" },
+  0x0011: { name: "Direction", group: "gps" },
+  0x001d: { name: "GPS date", group: "timestamps" },
+};
+
+const MAX_VALUES_SHOWN = 8;
+
+class TiffReader {
+  private view: DataView;
+  private start: number;
+  private end: number;
+  private little: boolean;
+
+  constructor(bytes: Uint8Array, start: number, length: number) {
+    this.view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+    this.start = start;
+    this.end = start + length;
+
+    const order = this.view.getUint16(start);
+    if (order !== 0x4949 && order !== 0x4d4d) {
+      throw new MetadataError("EXIF block has no TIFF header");
+    }
+    this.little = order === 0x4949;
+  }
+
+  /** Absolute position of an offset relative to the TIFF header */
+  at(offset: number, size = 1) {
+    const position = this.start + offset;
+    if (offset < 0 || position + size > this.end) {
+      throw new MetadataError("EXIF offset points outside the block");
+    }
+    return position;
+  }
+
+  u16(position: number) {
+    return this.view.getUint16(position, this.little);
+  }
+
+  u32(position: number) {
+    return this.view.getUint32(position, this.little);
+  }
+
+  i32(position: number) {
+    return this.view.getInt32(position, this.little);
+  }
+
+  setU16(position: number, value: number) {
+    this.view.setUint16(position, value, this.little);
+  }
+
+  setU32(position: number, value: number) {
+    this.view.setUint32(position, value, this.little);
+  }
+
+  zero(position: number, length: number) {
+    for (let i = 0; i < length; i++) {
+      this.view.setUint8(position + i, 0);
+    }
+  }
+
+  byte(position: number) {
+    return this.view.getUint8(position);
+  }
+
+  setByte(position: number, value: number) {
+    this.view.setUint8(position, value);
+  }
+
+  firstIfd() {
+    return this.u32(this.at(4, 4));
+  }
+}
+
+interface Entry {
+  position: number;
+  tag: number;
+  type: number;
+  count: number;
+  /** Absolute position of the value, inline or out-of-line */
+  valueAt: number;
+  valueSize: number;
+}
+
+const readEntries = (reader: TiffReader, ifdOffset: number) => {
+  const countAt = reader.at(ifdOffset, 2);
+  const count = reader.u16(countAt);
+  reader.at(ifdOffset + 2, count * 12 + 4);
+
+  const entries: Entry[] = [];
+  for (let i = 0; i < count; i++) {
+    const position = countAt + 2 + i * 12;
+    const type = reader.u16(position + 2);
+    const valueCount = reader.u32(position + 4);
+    const valueSize = (TYPE_SIZES[type] ?? 1) * valueCount;
+    const valueAt =
+      valueSize <= 4
+        ? position + 8
+        : reader.at(reader.u32(position + 8), valueSize);
+    entries.push({
+      position,
+      tag: reader.u16(position),
+      type,
+      count: valueCount,
+      valueAt,
+      valueSize,
+    });
+  }
+
+  const nextAt = countAt + 2 + count * 12;
+  return { countAt, entries, nextAt, next: reader.u32(nextAt) };
+};
+
+const formatRational = (
+  reader: TiffReader,
+  position: number,
+  signed: boolean
+) => {
+  const numerator = signed ? reader.i32(position) : reader.u32(position);
+  const denominator = signed
+    ? reader.i32(position + 4)
+    : reader.u32(position + 4);
+  if (denominator === 0) return "0";
+  return parseFloat((numerator / denominator).toFixed(4)).toString();
+};
+
+const formatValue = (reader: TiffReader, entry: Entry): string => {
+  const shown = Math.min(entry.count, MAX_VALUES_SHOWN);
+  const values: string[] = [];
+
+  switch (entry.type) {
+    case 2: {
+      let text = "";
+      for (let i = 0; i < Math.min(entry.count, 200); i++) {
+        const code = reader.byte(entry.valueAt + i);
+        if (code === 0) break;
+        text += String.fromCharCode(code);
+      }
+      return text.trim();
+    }
+    case 3:
+      for (let i = 0; i < shown; i++) {
+        values.push(reader.u16(entry.valueAt + i * 2).toString());
+      }
+      break;
+    case 4:
+      for (let i = 0; i < shown; i++) {
+        values.push(reader.u32(entry.valueAt + i * 4).toString());
+      }
+      break;
+    case 5:
+    case 10:
+      for (let i = 0; i < shown; i++) {
+        values.push(
+          formatRational(reader, entry.valueAt + i * 8, entry.type === 10)
+        );
+      }
+      break;
+    default:
+      return `${entry.valueSize} bytes`;
+  }
+
+  return values.join(", ") + (entry.count > shown ? ", ..." : "");
+};
+
+// Degrees/minutes/seconds rationals as a single decimal degree
+const formatCoordinate = (reader: TiffReader, entry: Entry) => {
+  if (entry.type !== 5 || entry.count !== 3) return formatValue(reader, entry);
+  const [degrees, minutes, seconds] = [0, 1, 2].map((i) =>
+    parseFloat(formatRational(reader, entry.valueAt + i * 8, false))
+  );
+  return `${(degrees + minutes / 60 + seconds / 3600).toFixed(5)}°`;
+};
+
+const zeroValue = (reader: TiffReader, entry: Entry) => {
+  if (entry.valueSize > 4) {
+    reader.zero(entry.valueAt, entry.valueSize);
+  }
+};
+
+/** Drop entries from an IFD, shifting the kept ones up in place */
+const compactIfd = (
+  reader: TiffReader,
+  ifd: ReturnType<typeof readEntries>,
+  remove: (entry: Entry) => boolean
+) => {
+  const kept = ifd.entries.filter((entry) => !remove(entry));
+  if (kept.length === ifd.entries.length) return;
+
+  ifd.entries.filter(remove).forEach((entry) => zeroValue(reader, entry));
+
+  // Copy kept entries into a buffer first; source and target overlap
+  const copies = kept.map((entry) => {
+    const bytes: number[] = [];
+    for (let i = 0; i < 12; i++) bytes.push(reader.byte(entry.position + i));
+    return bytes;
+  });
+
+  const blockEnd = ifd.nextAt + 4;
+  reader.zero(ifd.countAt, blockEnd - ifd.countAt);
+  reader.setU16(ifd.countAt, kept.length);
+  copies.forEach((bytes, i) =>
+    bytes.forEach((byte, j) =>
+      reader.setByte(ifd.countAt + 2 + i * 12 + j, byte)
+    )
+  );
+  reader.setU32(ifd.countAt + 2 + kept.length * 12, ifd.next);
+};
+
+/**
+ * Scan the EXIF TIFF block at `start` and, when `strip` is given, remove
+ * the selected groups in place. Returns every removable field found.
+ */
+export const scanTiff = (
+  bytes: Uint8Array,
+  start: number,
+  length: number,
+  strip: StripSet
+): MetadataField[] => {
+  const reader = new TiffReader(bytes, start, length);
+  const fields: MetadataField[] = [];
+  const shouldStrip = (group: MetadataGroup) => strip?.has(group) ?? false;
+
+  const collect = (
+    ifd: ReturnType<typeof readEntries>,
+    tags: Record<number, TagInfo>,
+    format: (entry: Entry) => string = (entry) => formatValue(reader, entry),
+    removedWith?: MetadataGroup[]
+  ) =>
+    ifd.entries.forEach((entry) => {
+      const info = tags[entry.tag];
+      if (info) {
+        fields.push({
+          group: info.group,
+          name: info.name,
+          value: format(entry),
+          ...(removedWith && { removedWith }),
+        });
+      }
+    });
+
+  const removeTags = (tags: Record<number, TagInfo>) => (entry: Entry) =>
+    Boolean(tags[entry.tag] && shouldStrip(tags[entry.tag].group));
+
+  const ifd0 = readEntries(reader, reader.firstIfd());
+  collect(ifd0, IMAGE_TAGS);
+
+  const pointer = (tag: number) =>
+    ifd0.entries.find((entry) => entry.tag === tag);
+
+  const exifPointer = pointer(EXIF_POINTER);
+  if (exifPointer) {
+    const exif = readEntries(reader, reader.u32(exifPointer.valueAt));
+    collect(exif, EXIF_TAGS);
+    compactIfd(reader, exif, removeTags(EXIF_TAGS));
+  }
+
+  let removeGpsPointer = false;
+  const gpsPointer = pointer(GPS_POINTER);
+  if (gpsPointer) {
+    const gps = readEntries(reader, reader.u32(gpsPointer.valueAt));
+    // The GPS clock goes with the rest of the IFD when location is wiped
+    collect(
+      gps,
+      GPS_TAGS,
+      (entry) =>
+        entry.tag === 0x0002 || entry.tag === 0x0004
+          ? formatCoordinate(reader, entry)
+          : formatValue(reader, entry),
+      ["gps"]
+    );
+
+    if (shouldStrip("gps")) {
+      // Wipe the whole GPS IFD and unlink it
+      gps.entries.forEach((entry) => zeroValue(reader, entry));
+      reader.zero(gps.countAt, gps.nextAt + 4 - gps.countAt);
+      removeGpsPointer = true;
+    } else {
+      compactIfd(reader, gps, removeTags(GPS_TAGS));
+    }
+  }
+
+  if (ifd0.next) {
+    const ifd1 = readEntries(reader, ifd0.next);
+    collect(ifd1, IMAGE_TAGS);
+    compactIfd(reader, ifd1, removeTags(IMAGE_TAGS));
+  }
+
+  compactIfd(
+    reader,
+    ifd0,
+    (entry) =>
+      (removeGpsPointer && entry.tag === GPS_POINTER) ||
+      removeTags(IMAGE_TAGS)(entry)
+  );
+
+  return fields;
+};
@@ -0,0 +1,30 @@
+/** Metadata that can be stripped independently before upload */
+export type MetadataGroup = "gps" | "device" | "timestamps" | "makerNotes";
+
+export type StripOptions = Record<MetadataGroup, boolean>;
+
+/** One piece of metadata found in a file, for the pre-upload preview */
+export interface MetadataField {
+  group: MetadataGroup;
+  name: string;
+  value: string;
+  /** Other groups that can't be removed without taking this along */
+  removedWith?: MetadataGroup[];
+}
+
+export class MetadataError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "MetadataError";
+  }
+}
+
+/** Result of scanning (and optionally scrubbing) one container format */
+export interface ScanResult {
+  fields: MetadataField[];
+  /** The rewritten file, or the input untouched when nothing was removed */
+  bytes: Uint8Array<ArrayBuffer>;
+}
+
+/** Groups to remove, or null to only look */
+export type StripSet = Set<MetadataGroup> | null;
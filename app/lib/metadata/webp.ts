@@ -0,0 +1,61 @@
+import { concatRanges, readU32LE, startsWith, writeU32LE } from "./bytes";
+import { blockFields, shouldDropBlock } from "./blocks";
+import { scanTiff } from "./tiff";
+import { MetadataError, MetadataField, ScanResult, StripSet } from "./types";
+
+const HEADER_LENGTH = 12;
+const XMP_FLAG = 0x04;
+
+/**
+ * Walk the RIFF chunks of a WebP. EXIF is scrubbed in place; the XMP chunk
+ * is dropped whenever anything it may hold is stripped, with the RIFF size
+ * and VP8X flags fixed.
+ */
+export const scanWebp = (
+  bytes: Uint8Array<ArrayBuffer>,
+  strip: StripSet
+): ScanResult => {
+  const fields: MetadataField[] = [];
+  let xmpRange: [number, number] | null = null;
+  let vp8xData = -1;
+  let position = HEADER_LENGTH;
+
+  while (position + 8 <= bytes.length) {
+    const length = readU32LE(bytes, position + 4);
+    const dataStart = position + 8;
+    // Chunks are padded to an even size
+    const end = dataStart + length + (length % 2);
+    if (dataStart + length > bytes.length) {
+      throw new MetadataError("WebP chunk runs past the end of the file");
+    }
+
+    if (startsWith(bytes, position, "VP8X")) {
+      vp8xData = dataStart;
+    } else if (startsWith(bytes, position, "EXIF")) {
+      // Some encoders keep the JPEG-style prefix
+      const tiffStart = startsWith(bytes, dataStart, "Exif\0\0")
+        ? dataStart + 6
+        : dataStart;
+      fields.push(
+        ...scanTiff(bytes, tiffStart, dataStart + length - tiffStart, strip)
+      );
+    } else if (startsWith(bytes, position, "XMP ")) {
+      fields.push(...blockFields("XMP metadata", length));
+      xmpRange = [position, Math.min(end, bytes.length)];
+    }
+
+    position = end;
+  }
+
+  if (!xmpRange || !shouldDropBlock(strip)) return { fields, bytes };
+
+  if (vp8xData >= 0) {
+    bytes[vp8xData] &= ~XMP_FLAG;
+  }
+  const output = concatRanges(bytes, [
+    [0, xmpRange[0]],
+    [xmpRange[1], bytes.length],
+  ]);
+  writeU32LE(output, 4, output.length - 8);
+  return { fields, bytes: output };
+};
@@ -0,0 +1,99 @@
+import {
+  asArray,
+  asRecord,
+  readNumber,
+  readOptionalString,
+  readString,
+} from "./schema";
+
+export interface SystemStats {
+  totalPhotographers: number;
+  activePhotographers: number;
+  totalClients: number;
+  activeClients: number;
+  totalGuests: number;
+  activeGuests: number;
+  totalCollections: number;
+  totalPhotos: number;
+  totalStorageBytes: number;
+}
+
+export interface PendingDeletion {
+  id: string;
+  username?: string;
+  businessName?: string;
+  clientName?: string;
+  guestName?: string;
+  originalName?: string;
+  name?: string;
+  deletedAt: string;
+  scheduledDeletionDate: string;
+  deletionReason: string;
+}
+
+export interface ScheduledDeletions {
+  photographers: PendingDeletion[];
+  clients: PendingDeletion[];
+  guests: PendingDeletion[];
+  photos: PendingDeletion[];
+  collections: PendingDeletion[];
+  total: number;
+}
+
+const STAT_KEYS: (keyof SystemStats)[] = [
+  "totalPhotographers",
+  "activePhotographers",
+  "totalClients",
+  "activeClients",
+  "totalGuests",
+  "activeGuests",
+  "totalCollections",
+  "totalPhotos",
+  "totalStorageBytes",
+];
+
+export const toSystemStats = (value: unknown, path: string): SystemStats => {
+  const raw = asRecord(value, path);
+  return STAT_KEYS.reduce(
+    (stats, key) => ({ ...stats, [key]: readNumber(raw, key, path) }),
+    {} as SystemStats
+  );
+};
+
+export const toPendingDeletion = (
+  value: unknown,
+  path: string
+): PendingDeletion => {
+  const raw = asRecord(value, path);
+  return {
+    id: readString(raw, "id", path),
+    username: readOptionalString(raw, "username", path),
+    businessName: readOptionalString(raw, "businessName", path),
+    clientName: readOptionalString(raw, "clientName", path),
+    guestName: readOptionalString(raw, "guestName", path),
+    originalName: readOptionalString(raw, "originalName", path),
+    name: readOptionalString(raw, "name", path),
+    deletedAt: readString(raw, "deletedAt", path),
+    scheduledDeletionDate: readString(raw, "scheduledDeletionDate", path),
+    deletionReason: readOptionalString(raw, "deletionReason", path) ?? "",
+  };
+};
+
+export const toScheduledDeletions = (
+  value: unknown,
+  path: string
+): ScheduledDeletions => {
+  const raw = asRecord(value, path);
+  const list = (key: string) =>
+    raw[key] === undefined
+      ? []
+      : asArray(raw[key], `${path}.${key}`, toPendingDeletion);
+  return {
+    photographers: list("photographers"),
+    clients: list("clients"),
+    guests: list("guests"),
+    photos: list("photos"),
+    collections: list("collections"),
+    total: readNumber(raw, "total", path),
+  };
+};
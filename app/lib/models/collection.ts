@@ -0,0 +1,68 @@
+import {
+  asRecord,
+  readNumber,
+  readOptionalNumber,
+  readOptionalString,
+  readString,
+} from "./schema";
+import { ThumbnailSource } from "./photo";
+
+/**
+ * A collection as seen by its photographer or the clients it is shared with.
+ * The backend calls the id `collectionId` here and `id` for admins.
+ */
+export interface Collection extends ThumbnailSource {
+  id: string;
+  name: string;
+  description: string;
+  createdAt: string;
+  /** Missing from some client listings */
+  photoCount?: number;
+  autoDeleteAt: string | null;
+  daysRemaining?: number;
+}
+
+export interface AdminCollection extends ThumbnailSource {
+  id: string;
+  name: string;
+  description: string;
+  createdAt: string;
+  photoCount: number;
+  clientCount: number;
+  photographerId: string;
+  photographerName: string;
+}
+
+export const toCollection = (value: unknown, path: string): Collection => {
+  const raw = asRecord(value, path);
+  return {
+    id: readString(raw, ["collectionId", "id"], path),
+    name: readString(raw, "name", path),
+    description: readOptionalString(raw, "description", path) ?? "",
+    createdAt: readString(raw, "createdAt", path),
+    photoCount: readOptionalNumber(raw, "photoCount", path),
+    thumbnailUrl: readOptionalString(raw, "thumbnailUrl", path),
+    thumbnailDataB64: readOptionalString(raw, "thumbnailDataB64", path),
+    autoDeleteAt: readOptionalString(raw, "autoDeleteAt", path) ?? null,
+    daysRemaining: readOptionalNumber(raw, "daysRemaining", path),
+  };
+};
+
+export const toAdminCollection = (
+  value: unknown,
+  path: string
+): AdminCollection => {
+  const raw = asRecord(value, path);
+  return {
+    id: readString(raw, ["id", "collectionId"], path),
+    name: readString(raw, "name", path),
+    description: readOptionalString(raw, "description", path) ?? "",
+    createdAt: readString(raw, "createdAt", path),
+    photoCount: readNumber(raw, "photoCount", path),
+    clientCount: readNumber(raw, "clientCount", path),
+    thumbnailUrl: readOptionalString(raw, "thumbnailUrl", path),
+    thumbnailDataB64: readOptionalString(raw, "thumbnailDataB64", path),
+    photographerId: readString(raw, "photographerId", path),
+    photographerName: readString(raw, "photographerName", path),
+  };
+};
@@ -0,0 +1,12 @@
+/**
+ * Canonical domain models. API responses are validated and normalised into
+ * these shapes by the mappers here, so components never see backend quirks.
+ */
+export * from "./schema";
+export * from "./photo";
+export * from "./collection";
+export * from "./people";
+export * from "./admin";
+export * from "./upload";
+export * from "./watermark";
+export * from "./security";
@@ -0,0 +1,142 @@
+import {
+  asRecord,
+  readBoolean,
+  readNumber,
+  readOptionalNumber,
+  readOptionalString,
+  readString,
+  SchemaError,
+} from "./schema";
+
+export type UserRole = "admin" | "photographer" | "client" | "guest";
+
+const ROLES: UserRole[] = ["admin", "photographer", "client", "guest"];
+
+/** The signed-in user as returned by `/auth/login` and `/auth/verify` */
+export interface User {
+  id: string;
+  username: string;
+  role: UserRole;
+  email?: string;
+  businessName?: string;
+  clientName?: string;
+  guestName?: string;
+  photographerId?: string;
+  clientId?: string;
+  expiresAt?: string;
+}
+
+export interface Photographer {
+  id: string;
+  username: string;
+  businessName: string;
+  email?: string;
+  isActive: boolean;
+  createdAt: string;
+  clientCount: number;
+  collectionCount: number;
+  photoCount: number;
+}
+
+/** Photographers see their own clients; admins also get ownership and counts */
+export interface Client {
+  id: string;
+  username: string;
+  clientName: string;
+  isActive: boolean;
+  createdAt: string;
+  email?: string;
+  photographerId?: string;
+  photographerName?: string;
+  guestCount?: number;
+  collectionCount?: number;
+}
+
+export interface Guest {
+  id: string;
+  username: string;
+  guestName: string;
+  isActive: boolean;
+  expiresAt: string;
+  createdAt?: string;
+  email?: string;
+  clientId?: string;
+  clientName?: string;
+  photographerId?: string;
+  photographerName?: string;
+  /** `sharedPhotoCount` for clients, `photoAccessCount` for admins */
+  photoCount: number;
+}
+
+export const toUser = (value: unknown, path: string): User => {
+  const raw = asRecord(value, path);
+  const role = readString(raw, "role", path);
+  if (!ROLES.includes(role as UserRole)) {
+    throw new SchemaError(`${path}.role`, `one of ${ROLES.join(", ")}`, role);
+  }
+  return {
+    id: readString(raw, "id", path),
+    username: readString(raw, "username", path),
+    role: role as UserRole,
+    email: readOptionalString(raw, "email", path),
+    businessName: readOptionalString(raw, "businessName", path),
+    clientName: readOptionalString(raw, "clientName", path),
+    guestName: readOptionalString(raw, "guestName", path),
+    photographerId: readOptionalString(raw, "photographerId", path),
+    clientId: readOptionalString(raw, "clientId", path),
+    expiresAt: readOptionalString(raw, "expiresAt", path),
+  };
+};
+
+export const toPhotographer = (value: unknown, path: string): Photographer => {
+  const raw = asRecord(value, path);
+  return {
+    id: readString(raw, "id", path),
+    username: readString(raw, "username", path),
+    businessName: readString(raw, "businessName", path),
+    email: readOptionalString(raw, "email", path),
+    isActive: readBoolean(raw, "isActive", path),
+    createdAt: readString(raw, "createdAt", path),
+    clientCount: readNumber(raw, "clientCount", path),
+    collectionCount: readNumber(raw, "collectionCount", path),
+    photoCount: readNumber(raw, "photoCount", path),
+  };
+};
+
+export const toClient = (value: unknown, path: string): Client => {
+  const raw = asRecord(value, path);
+  return {
+    id: readString(raw, "id", path),
+    username: readString(raw, "username", path),
+    clientName: readString(raw, "clientName", path),
+    isActive: readBoolean(raw, "isActive", path),
+    createdAt: readString(raw, "createdAt", path),
+    email: readOptionalString(raw, "email", path),
+    photographerId: readOptionalString(raw, "photographerId", path),
+    photographerName: readOptionalString(raw, "photographerName", path),
+    guestCount: readOptionalNumber(raw, "guestCount", path),
+    collectionCount: readOptionalNumber(raw, "collectionCount", path),
+  };
+};
+
+export const toGuest = (value: unknown, path: string): Guest => {
+  const raw = asRecord(value, path);
+  return {
+    id: readString(raw, "id", path),
+    username: readString(raw, "username", path),
+    guestName: readString(raw, "guestName", path),
+    isActive: readBoolean(raw, "isActive", path),
+    expiresAt: readString(raw, "expiresAt", path),
+    createdAt: readOptionalString(raw, "createdAt", path),
+    email: readOptionalString(raw, "email", path),
+    clientId: readOptionalString(raw, "clientId", path),
+    clientName: readOptionalString(raw, "clientName", path),
+    photographerId: readOptionalString(raw, "photographerId", path),
+    photographerName: readOptionalString(raw, "photographerName", path),
+    photoCount: readNumber(
+      raw,
+      ["sharedPhotoCount", "photoAccessCount"],
+      path
+    ),
+  };
+};
@@ -0,0 +1,96 @@
+import { asRecord, readNumber, readOptionalString, readString } from "./schema";
+
+/**
+ * Where a thumbnail comes from. Listings requested in URL mode carry a
+ * `thumbnailUrl`; older backends (and the fallback) inline base64 instead.
+ */
+export interface ThumbnailSource {
+  thumbnailUrl?: string;
+  thumbnailDataB64?: string;
+}
+
+/** A photo as seen by photographers, clients and guests */
+export interface Photo extends ThumbnailSource {
+  id: string;
+  shareToken: string;
+  filename: string;
+  originalName: string;
+  size: number;
+  uploadedAt: string;
+  collectionId?: string;
+  /** Section within the collection, if the photographer used any */
+  section?: string;
+  mimetype?: string;
+  /** SHA-256 of the file as selected, recorded at upload */
+  contentHash?: string;
+  /** dHash of the image, recorded at upload */
+  perceptualHash?: string;
+}
+
+/** Guests receive the full image inline with the listing */
+export interface GuestPhoto extends Photo {
+  photoDataB64: string;
+  mimetype: string;
+}
+
+/** A photo in the admin overview; admins never get share tokens */
+export interface AdminPhoto extends ThumbnailSource {
+  id: string;
+  originalName: string;
+  size: number;
+  uploadedAt: string;
+  photographerId: string;
+  photographerName: string;
+}
+
+/** UI-only selection flag carried alongside a model */
+export type Selectable<T> = T & { selected?: boolean };
+
+/** Flag the items picked in the UI; selection is kept apart from cached lists */
+export const markSelected = <T>(
+  list: T[],
+  isSelected: (item: T) => boolean
+): Selectable<T>[] =>
+  list.map((item) => ({ ...item, selected: isSelected(item) }));
+
+export const toPhoto = (value: unknown, path: string): Photo => {
+  const raw = asRecord(value, path);
+  return {
+    id: readString(raw, "id", path),
+    shareToken: readString(raw, "shareToken", path),
+    filename: readString(raw, "filename", path),
+    originalName: readString(raw, "originalName", path),
+    size: readNumber(raw, "size", path),
+    uploadedAt: readString(raw, ["uploadedAt", "createdAt"], path),
+    thumbnailUrl: readOptionalString(raw, "thumbnailUrl", path),
+    thumbnailDataB64: readOptionalString(raw, "thumbnailDataB64", path),
+    collectionId: readOptionalString(raw, "collectionId", path),
+    section: readOptionalString(raw, "section", path),
+    mimetype: readOptionalString(raw, ["mimetype", "mimeType"], path),
+    contentHash: readOptionalString(raw, "contentHash", path),
+    perceptualHash: readOptionalString(raw, "perceptualHash", path),
+  };
+};
+
+export const toGuestPhoto = (value: unknown, path: string): GuestPhoto => {
+  const raw = asRecord(value, path);
+  return {
+    ...toPhoto({ shareToken: raw.id, ...raw }, path),
+    photoDataB64: readString(raw, "photoDataB64", path),
+    mimetype: readString(raw, ["mimetype", "mimeType"], path),
+  };
+};
+
+export const toAdminPhoto = (value: unknown, path: string): AdminPhoto => {
+  const raw = asRecord(value, path);
+  return {
+    id: readString(raw, "id", path),
+    originalName: readString(raw, "originalName", path),
+    size: readNumber(raw, "size", path),
+    uploadedAt: readString(raw, ["uploadedAt", "createdAt"], path),
+    thumbnailUrl: readOptionalString(raw, "thumbnailUrl", path),
+    thumbnailDataB64: readOptionalString(raw, "thumbnailDataB64", path),
+    photographerId: readString(raw, "photographerId", path),
+    photographerName: readString(raw, "photographerName", path),
+  };
+};
@@ -0,0 +1,128 @@
+/**
+ * Minimal runtime validation for API payloads. Each reader takes the value
+ * and a dotted path so a failure names exactly which field broke.
+ */
+
+export type RawRecord = Record<string, unknown>;
+
+export type Mapper<T> = (value: unknown, path: string) => T;
+
+export class SchemaError extends Error {
+  path: string;
+
+  constructor(path: string, expected: string, received: unknown) {
+    super(
+      `Unexpected API response: ${path} should be ${expected}, got ${describe(
+        received
+      )}`
+    );
+    this.name = "SchemaError";
+    this.path = path;
+  }
+}
+
+const describe = (value: unknown) => {
+  if (value === null) return "null";
+  if (Array.isArray(value)) return "array";
+  return typeof value;
+};
+
+export const asRecord = (value: unknown, path: string): RawRecord => {
+  if (typeof value !== "object" || value === null || Array.isArray(value)) {
+    throw new SchemaError(path, "an object", value);
+  }
+  return value as RawRecord;
+};
+
+export const asArray = <T>(value: unknown, path: string, map: Mapper<T>) => {
+  if (!Array.isArray(value)) {
+    throw new SchemaError(path, "an array", value);
+  }
+  return value.map((item, index) => map(item, `${path}[${index}]`));
+};
+
+/** Read the first of `keys` that is present, for fields the backend names inconsistently */
+const pick = (raw: RawRecord, keys: string | string[]) => {
+  const candidates = Array.isArray(keys) ? keys : [keys];
+  const key = candidates.find((k) => raw[k] !== undefined) ?? candidates[0];
+  return { key, value: raw[key] };
+};
+
+export const readString = (
+  raw: RawRecord,
+  keys: string | string[],
+  path: string
+): string => {
+  const { key, value } = pick(raw, keys);
+  if (typeof value !== "string") {
+    throw new SchemaError(`${path}.${key}`, "a string", value);
+  }
+  return value;
+};
+
+export const readOptionalString = (
+  raw: RawRecord,
+  keys: string | string[],
+  path: string
+): string | undefined => {
+  const { key, value } = pick(raw, keys);
+  if (value === undefined || value === null || value === "") return undefined;
+  if (typeof value !== "string") {
+    throw new SchemaError(`${path}.${key}`, "a string", value);
+  }
+  return value;
+};
+
+export const readNumber = (
+  raw: RawRecord,
+  keys: string | string[],
+  path: string
+): number => {
+  const { key, value } = pick(raw, keys);
+  if (typeof value !== "number" || Number.isNaN(value)) {
+    throw new SchemaError(`${path}.${key}`, "a number", value);
+  }
+  return value;
+};
+
+export const readOptionalNumber = (
+  raw: RawRecord,
+  keys: string | string[],
+  path: string
+): number | undefined => {
+  const { key, value } = pick(raw, keys);
+  if (value === undefined || value === null) return undefined;
+  if (typeof value !== "number" || Number.isNaN(value)) {
+    throw new SchemaError(`${path}.${key}`, "a number", value);
+  }
+  return value;
+};
+
+export const readBoolean = (
+  raw: RawRecord,
+  keys: string | string[],
+  path: string
+): boolean => {
+  const { key, value } = pick(raw, keys);
+  if (typeof value !== "boolean") {
+    throw new SchemaError(`${path}.${key}`, "a boolean", value);
+  }
+  return value;
+};
+
+export const readOneOf = <T extends string>(
+  raw: RawRecord,
+  keys: string | string[],
+  allowed: readonly T[],
+  path: string
+): T => {
+  const { key, value } = pick(raw, keys);
+  if (typeof value !== "string" || !allowed.includes(value as T)) {
+    throw new SchemaError(
+      `${path}.${key}`,
+      `one of ${allowed.join(", ")}`,
+      value
+    );
+  }
+  return value as T;
+};
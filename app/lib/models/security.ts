@@ -0,0 +1,79 @@
+import {
+  asRecord,
+  readBoolean,
+  readNumber,
+  readOptionalString,
+  readString,
+  SchemaError,
+} from "./schema";
+
+/** Whether an account has TOTP two-factor authentication switched on */
+export interface TwoFactorStatus {
+  enabled: boolean;
+  /** Unused recovery codes left; 0 while two-factor is off */
+  recoveryCodesRemaining: number;
+}
+
+/** A fresh TOTP secret, not active until a code from it is confirmed */
+export interface TwoFactorSetup {
+  secret: string;
+  /** `otpauth://` URI for the authenticator app's QR scanner */
+  otpauthUrl: string;
+}
+
+/** A signed-in browser or device, as listed on the sessions page */
+export interface Session {
+  id: string;
+  /** e.g. "iPhone", "Windows PC" */
+  device?: string;
+  /** e.g. "Safari 17" */
+  browser?: string;
+  /** Coarse location looked up from the IP, e.g. "Sofia, BG" */
+  ipRegion?: string;
+  createdAt: string;
+  lastSeenAt: string;
+  /** The session making this request */
+  current: boolean;
+}
+
+export const toTwoFactorStatus = (
+  value: unknown,
+  path: string
+): TwoFactorStatus => {
+  const raw = asRecord(value, path);
+  return {
+    enabled: readBoolean(raw, "enabled", path),
+    recoveryCodesRemaining: readNumber(raw, "recoveryCodesRemaining", path),
+  };
+};
+
+export const toTwoFactorSetup = (
+  value: unknown,
+  path: string
+): TwoFactorSetup => {
+  const raw = asRecord(value, path);
+  return {
+    secret: readString(raw, "secret", path),
+    otpauthUrl: readString(raw, ["otpauthUrl", "otpauthUri"], path),
+  };
+};
+
+export const toRecoveryCode = (value: unknown, path: string): string => {
+  if (typeof value !== "string") {
+    throw new SchemaError(path, "a string", value);
+  }
+  return value;
+};
+
+export const toSession = (value: unknown, path: string): Session => {
+  const raw = asRecord(value, path);
+  return {
+    id: readString(raw, "id", path),
+    device: readOptionalString(raw, "device", path),
+    browser: readOptionalString(raw, "browser", path),
+    ipRegion: readOptionalString(raw, ["ipRegion", "location"], path),
+    createdAt: readString(raw, "createdAt", path),
+    lastSeenAt: readString(raw, ["lastSeenAt", "lastActiveAt"], path),
+    current: readBoolean(raw, ["current", "isCurrent"], path),
+  };
+};
@@ -0,0 +1,24 @@
+import { asRecord, readNumber, readOptionalNumber, readString } from "./schema";
+
+/** Server-side state of a chunked upload session */
+export interface UploadSession {
+  id: string;
+  /** Bytes stored so far; the next chunk must start here */
+  offset: number;
+  size: number;
+  /** Chunk size the server prefers, if it has one */
+  chunkSize?: number;
+}
+
+export const toUploadSession = (
+  value: unknown,
+  path: string
+): UploadSession => {
+  const raw = asRecord(value, path);
+  return {
+    id: readString(raw, ["uploadId", "id"], path),
+    offset: readNumber(raw, ["offset", "receivedBytes"], path),
+    size: readNumber(raw, "size", path),
+    chunkSize: readOptionalNumber(raw, "chunkSize", path),
+  };
+};
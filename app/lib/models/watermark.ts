@@ -0,0 +1,67 @@
+import {
+  asRecord,
+  readBoolean,
+  readNumber,
+  readOneOf,
+  readOptionalString,
+  readString,
+} from "./schema";
+
+export const WATERMARK_POSITIONS = [
+  "top-left",
+  "top",
+  "top-right",
+  "left",
+  "center",
+  "right",
+  "bottom-left",
+  "bottom",
+  "bottom-right",
+] as const;
+
+export type WatermarkPosition = (typeof WATERMARK_POSITIONS)[number];
+
+export type WatermarkKind = "text" | "logo";
+
+/** How a collection's client-facing previews are watermarked */
+export interface Watermark {
+  enabled: boolean;
+  kind: WatermarkKind;
+  text: string;
+  /** PNG data URL, downscaled when the photographer picks it */
+  logo?: string;
+  position: WatermarkPosition;
+  /** 0-1 */
+  opacity: number;
+  /** Width of the mark as a fraction of the photo's width */
+  scale: number;
+  /** Repeat the mark across the whole photo; ignores `position` */
+  tiled: boolean;
+}
+
+/** Collections without a saved watermark get this in the designer */
+export const DEFAULT_WATERMARK: Watermark = {
+  enabled: false,
+  kind: "text",
+  text: "PROOF",
+  position: "bottom-right",
+  opacity: 0.4,
+  scale: 0.25,
+  tiled: false,
+};
+
+/** The backend sends null for collections that never had one */
+export const toWatermark = (value: unknown, path: string): Watermark | null => {
+  if (value === null || value === undefined) return null;
+  const raw = asRecord(value, path);
+  return {
+    enabled: readBoolean(raw, "enabled", path),
+    kind: readOneOf(raw, "kind", ["text", "logo"], path),
+    text: readString(raw, "text", path),
+    logo: readOptionalString(raw, "logo", path),
+    position: readOneOf(raw, "position", WATERMARK_POSITIONS, path),
+    opacity: readNumber(raw, "opacity", path),
+    scale: readNumber(raw, "scale", path),
+    tiled: readBoolean(raw, "tiled", path),
+  };
+};
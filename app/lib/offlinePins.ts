@@ -0,0 +1,284 @@
+import { ApiError, PhotoViewerRole, thumbnailsApi } from "./api";
+import { Collection, Photo } from "./models";
+
+// Kept apart from the thumbnail cache so pins survive its eviction rules
+const CACHE_NAME = "offline-pins-v1";
+const PREFIX = "/offline-pins";
+
+/** What's stored for a collection kept for offline viewing */
+export interface PinnedCollection {
+  collection: Collection;
+  photos: Photo[];
+  pinnedAt: string;
+}
+
+export interface PinProgress {
+  done: number;
+  total: number;
+}
+
+// Share token -> collection id of every pinned photo, so full-size loads
+// can tell synchronously whether to keep a copy
+const pinnedTokens = new Map<string, string>();
+const pinnedIds = new Set<string>();
+const listeners = new Set<() => void>();
+let loaded: Promise<unknown> | null = null;
+
+// Cache keys have to be URLs; none of these are ever fetched
+const pinUrl = (path: string) =>
+  new URL(`${PREFIX}${path}`, window.location.origin).toString();
+const manifestUrl = (collectionId: string) =>
+  pinUrl(`/collections/${encodeURIComponent(collectionId)}`);
+const thumbnailUrl = (url: string) =>
+  pinUrl(`/thumbnails/${encodeURIComponent(url)}`);
+const fullSizeUrl = (role: PhotoViewerRole, shareToken: string) =>
+  pinUrl(`/photos/${role}/${encodeURIComponent(shareToken)}`);
+
+// Cache Storage is missing on plain-HTTP origins other than localhost
+const openPins = async () => {
+  if (typeof caches === "undefined") return null;
+  try {
+    return await caches.open(CACHE_NAME);
+  } catch {
+    return null;
+  }
+};
+
+const notify = () => listeners.forEach((listener) => listener());
+
+const expiresAt = ({ autoDeleteAt }: Collection) =>
+  autoDeleteAt ? Date.parse(autoDeleteAt) : null;
+
+const isExpired = (collection: Collection, now = Date.now()) => {
+  const expiry = expiresAt(collection);
+  return expiry !== null && expiry <= now;
+};
+
+const track = ({ collection, photos }: PinnedCollection) => {
+  pinnedIds.add(collection.id);
+  photos.forEach((photo) => pinnedTokens.set(photo.shareToken, collection.id));
+};
+
+const untrack = (collectionId: string) => {
+  pinnedIds.delete(collectionId);
+  pinnedTokens.forEach((id, token) => {
+    if (id === collectionId) pinnedTokens.delete(token);
+  });
+};
+
+const readManifest = async (cache: Cache, key: RequestInfo) => {
+  const response = await cache.match(key);
+  return response ? ((await response.json()) as PinnedCollection) : undefined;
+};
+
+const removePhotos = (cache: Cache, photos: Photo[]) =>
+  Promise.all(
+    photos.flatMap((photo) => [
+      photo.thumbnailUrl
+        ? cache.delete(thumbnailUrl(photo.thumbnailUrl))
+        : Promise.resolve(false),
+      cache.delete(fullSizeUrl("client", photo.shareToken)),
+    ])
+  );
+
+const removePin = async (cache: Cache, pin: PinnedCollection) => {
+  await removePhotos(cache, pin.photos);
+  await cache.delete(manifestUrl(pin.collection.id));
+  untrack(pin.collection.id);
+};
+
+/**
+ * Every pin still within its collection's lifetime. Pins whose
+ * `autoDeleteAt` has passed are deleted on the way, so the privacy expiry
+ * holds on the device too.
+ */
+export const loadPins = async (): Promise<PinnedCollection[]> => {
+  const cache = await openPins();
+  if (!cache) return [];
+
+  const manifests = (await cache.keys()).filter((request) =>
+    request.url.startsWith(pinUrl("/collections/"))
+  );
+  const pins: PinnedCollection[] = [];
+  for (const request of manifests) {
+    const pin = await readManifest(cache, request);
+    if (!pin) continue;
+    if (isExpired(pin.collection)) {
+      console.log(`🧹 Removing expired offline copy of ${pin.collection.name}`);
+      await removePin(cache, pin);
+    } else {
+      track(pin);
+      pins.push(pin);
+    }
+  }
+  notify();
+  return pins;
+};
+
+// Lookups wait for the first pass so expired pins are never served
+const ensureLoaded = () => (loaded ??= loadPins());
+
+/**
+ * Purge expired pins; resolves with when the next one expires (ms since
+ * the epoch), or null if none do
+ */
+export const purgeExpiredPins = async () => {
+  const pins = await (loaded = loadPins());
+  const expiries = pins
+    .map((pin) => expiresAt(pin.collection))
+    .filter((expiry): expiry is number => expiry !== null);
+  return expiries.length > 0 ? Math.min(...expiries) : null;
+};
+
+export const getPin = async (collectionId: string) => {
+  await ensureLoaded();
+  const cache = await openPins();
+  const pin = cache && (await readManifest(cache, manifestUrl(collectionId)));
+  if (!pin || !cache) return undefined;
+  if (isExpired(pin.collection)) {
+    await removePin(cache, pin);
+    notify();
+    return undefined;
+  }
+  return pin;
+};
+
+export const isPinned = (collectionId: string) => pinnedIds.has(collectionId);
+
+export const subscribeToPins = (listener: () => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+/**
+ * Keep a collection's listing and thumbnails for offline viewing; full-size
+ * images are added as they're viewed. Pinning again refreshes the copy.
+ */
+export const pinCollection = async (
+  collection: Collection,
+  photos: Photo[],
+  onProgress?: (progress: PinProgress) => void
+) => {
+  if (isExpired(collection)) return;
+  const cache = await openPins();
+  if (!cache) throw new Error("Offline storage isn't available here");
+
+  // Photos dropped from the collection since the last pin go too
+  const previous = await readManifest(cache, manifestUrl(collection.id));
+  if (previous) {
+    const kept = new Set(photos.map((photo) => photo.shareToken));
+    await removePhotos(
+      cache,
+      previous.photos.filter((photo) => !kept.has(photo.shareToken))
+    );
+    untrack(collection.id);
+  }
+
+  const pin: PinnedCollection = {
+    collection,
+    photos,
+    pinnedAt: new Date().toISOString(),
+  };
+  await cache.put(
+    manifestUrl(collection.id),
+    new Response(JSON.stringify(pin), {
+      headers: { "Content-Type": "application/json" },
+    })
+  );
+  track(pin);
+  notify();
+
+  const thumbnails = photos
+    .map((photo) => photo.thumbnailUrl)
+    .filter((url): url is string => Boolean(url));
+  let done = 0;
+  onProgress?.({ done, total: thumbnails.length });
+  for (const url of thumbnails) {
+    const key = thumbnailUrl(url);
+    if (!(await cache.match(key))) {
+      const blob = await thumbnailsApi.getThumbnail(url);
+      await cache.put(
+        key,
+        new Response(blob, { headers: { "Content-Type": blob.type } })
+      );
+    }
+    onProgress?.({ done: ++done, total: thumbnails.length });
+  }
+  console.log(`📌 Pinned ${collection.name} for offline viewing`);
+};
+
+export const unpinCollection = async (collectionId: string) => {
+  const cache = await openPins();
+  const pin = cache && (await readManifest(cache, manifestUrl(collectionId)));
+  if (cache && pin) await removePin(cache, pin);
+  untrack(collectionId);
+  notify();
+};
+
+/** Forget every pin (e.g. on logout) */
+export const clearPins = async () => {
+  pinnedIds.clear();
+  pinnedTokens.clear();
+  loaded = null;
+  notify();
+  if (typeof caches !== "undefined") {
+    await caches.delete(CACHE_NAME);
+  }
+};
+
+export const readPinnedThumbnail = async (url: string) => {
+  await ensureLoaded();
+  const response = await (await openPins())?.match(thumbnailUrl(url));
+  return response?.blob();
+};
+
+export const readPinnedFullSize = async (
+  role: PhotoViewerRole,
+  shareToken: string
+) => {
+  await ensureLoaded();
+  if (!pinnedTokens.has(shareToken)) return undefined;
+  const response = await (
+    await openPins()
+  )?.match(fullSizeUrl(role, shareToken));
+  return response?.blob();
+};
+
+/** Keep a viewed full-size image if its collection is pinned */
+export const keepFullSize = async (
+  role: PhotoViewerRole,
+  shareToken: string,
+  blob: Blob
+) => {
+  if (role !== "client" || !pinnedTokens.has(shareToken)) return;
+  const cache = await openPins();
+  await cache?.put(
+    fullSizeUrl(role, shareToken),
+    new Response(blob, { headers: { "Content-Type": blob.type } })
+  );
+};
+
+/**
+ * Run `request`, answering from the offline copy instead when the network
+ * is unreachable and `fallback` has something
+ */
+export const withOfflineFallback = async <T>(
+  request: () => Promise<T>,
+  fallback: () => Promise<T | undefined>
+) => {
+  try {
+    return await request();
+  } catch (error) {
+    // No status means the request never got an answer
+    if (error instanceof ApiError && error.status === null) {
+      const offline = await fallback();
+      if (offline !== undefined) {
+        console.log("📴 Offline, showing the saved copy");
+        return offline;
+      }
+    }
+    throw error;
+  }
+};
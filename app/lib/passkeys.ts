@@ -0,0 +1,97 @@
+import {
+  PasskeyAssertion,
+  PasskeyAuthenticationOptions,
+  PasskeyCredentialDescriptor,
+  PasskeyRegistrationCredential,
+  PasskeyRegistrationOptions,
+} from "./api";
+
+// WebAuthn works in raw bytes; the API carries them as base64url strings
+const toBytes = (value: string) => {
+  const base64 = value.replace(/-/g, "+").replace(/_/g, "/");
+  const padded = base64 + "=".repeat((4 - (base64.length % 4)) % 4);
+  return Uint8Array.from(atob(padded), (char) => char.charCodeAt(0));
+};
+
+const toBase64Url = (buffer: ArrayBuffer) =>
+  btoa(String.fromCharCode(...new Uint8Array(buffer)))
+    .replace(/\+/g, "-")
+    .replace(/\//g, "_")
+    .replace(/=+$/, "");
+
+const toDescriptors = (descriptors?: PasskeyCredentialDescriptor[]) =>
+  descriptors?.map((descriptor) => ({
+    ...descriptor,
+    id: toBytes(descriptor.id),
+  }));
+
+/** Whether this browser can create and use passkeys at all */
+export const isPasskeySupported = () =>
+  typeof window !== "undefined" &&
+  typeof window.PublicKeyCredential !== "undefined" &&
+  typeof navigator.credentials?.create === "function";
+
+/**
+ * Whether `error` is the browser reporting that the user dismissed the
+ * passkey prompt (or it timed out), which needs no error message
+ */
+export const isPasskeyCancelled = (error: unknown) =>
+  error instanceof DOMException &&
+  (error.name === "NotAllowedError" || error.name === "AbortError");
+
+/** Ask the authenticator for a new passkey; resolves with what to register */
+export const createPasskey = async (
+  options: PasskeyRegistrationOptions
+): Promise<PasskeyRegistrationCredential> => {
+  const credential = (await navigator.credentials.create({
+    publicKey: {
+      ...options,
+      challenge: toBytes(options.challenge),
+      user: { ...options.user, id: toBytes(options.user.id) },
+      excludeCredentials: toDescriptors(options.excludeCredentials),
+    },
+  })) as PublicKeyCredential | null;
+  if (!credential) throw new Error("No passkey was created");
+
+  const response = credential.response as AuthenticatorAttestationResponse;
+  return {
+    id: credential.id,
+    rawId: toBase64Url(credential.rawId),
+    type: "public-key",
+    response: {
+      clientDataJSON: toBase64Url(response.clientDataJSON),
+      attestationObject: toBase64Url(response.attestationObject),
+      // Missing from older Safari
+      transports: response.getTransports?.(),
+    },
+  };
+};
+
+/** Sign the server's challenge with one of the user's passkeys */
+export const getPasskey = async (
+  options: PasskeyAuthenticationOptions
+): Promise<PasskeyAssertion> => {
+  const credential = (await navigator.credentials.get({
+    publicKey: {
+      ...options,
+      challenge: toBytes(options.challenge),
+      allowCredentials: toDescriptors(options.allowCredentials),
+    },
+  })) as PublicKeyCredential | null;
+  if (!credential) throw new Error("No passkey was selected");
+
+  const response = credential.response as AuthenticatorAssertionResponse;
+  return {
+    id: credential.id,
+    rawId: toBase64Url(credential.rawId),
+    type: "public-key",
+    response: {
+      clientDataJSON: toBase64Url(response.clientDataJSON),
+      authenticatorData: toBase64Url(response.authenticatorData),
+      signature: toBase64Url(response.signature),
+      userHandle: response.userHandle
+        ? toBase64Url(response.userHandle)
+        : undefined,
+    },
+  };
+};
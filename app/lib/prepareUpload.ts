@@ -0,0 +1,117 @@
+import { formatFileSize } from "./format";
+import {
+  convertHeic,
+  createRendition,
+  dHash,
+  FORMAT_MIME_TYPES,
+  ImagingError,
+  RenditionSettings,
+  sha256Hex,
+  sniffFormat,
+  toStamp,
+  WEB_FORMATS,
+} from "./imaging";
+import { Watermark } from "./models";
+import { StripOptions, stripMetadata } from "./metadata";
+
+/** One selected file, processed and ready for the chunked uploader */
+export interface PreparedUpload {
+  /** The file as the photographer selected it, or its JPEG conversion */
+  source: File;
+  /** Metadata-stripped original, unless only the rendition goes up */
+  original?: File;
+  rendition?: File;
+  /** Watermarked copy clients see while the original is held back */
+  preview?: File;
+  /** Thumbnail rendered alongside the rendition */
+  thumbnail?: Blob;
+  /** SHA-256 of `source` */
+  contentHash: string;
+  /** dHash of the image; missing if the browser can't decode it */
+  perceptualHash?: string;
+}
+
+/**
+ * `file` in a format browsers can display, with a MIME type that matches
+ * its bytes. HEIC is converted to JPEG; anything else unsupported throws.
+ */
+export const normalizeFormat = async (file: File): Promise<File> => {
+  const format = await sniffFormat(file);
+  if (format === "heic") return convertHeic(file);
+  if (!format || !WEB_FORMATS.includes(format)) {
+    throw new ImagingError(
+      `${file.name}: ${
+        format ? format.toUpperCase() : "this file type"
+      } isn't supported; use JPEG, PNG, GIF, WebP, AVIF or HEIC`
+    );
+  }
+
+  // Browsers report an empty or generic type for some files
+  const type = FORMAT_MIME_TYPES[format];
+  if (file.type === type) return file;
+  return new File([file], file.name, {
+    type,
+    lastModified: file.lastModified,
+  });
+};
+
+/**
+ * Run one file through the pre-upload pipeline: fix up its format, strip
+ * metadata, build the web rendition and watermarked preview if asked for,
+ * and hash it for duplicate detection.
+ */
+export const prepareUpload = async (
+  selected: File,
+  stripOptions: StripOptions,
+  renditionSettings: RenditionSettings,
+  watermark?: Watermark | null
+): Promise<PreparedUpload> => {
+  const { mode } = renditionSettings;
+  const file = await normalizeFormat(selected);
+  const { file: stripped, removed } = await stripMetadata(file, stripOptions);
+  if (removed.length > 0) {
+    console.log(
+      `🧹 Removed ${removed.length} metadata field(s) from ${file.name}`
+    );
+  }
+
+  const prepared: PreparedUpload = {
+    source: file,
+    contentHash: await sha256Hex(file),
+  };
+  // A watermarked collection still needs the original for final delivery
+  if (mode !== "rendition" || watermark?.enabled) {
+    prepared.original = stripped;
+  }
+
+  if (mode !== "original") {
+    const rendition = await createRendition(stripped, renditionSettings);
+    console.log(
+      `🖼️ ${file.name}: ${formatFileSize(file.size)} → ${formatFileSize(
+        rendition.file.size
+      )} (${rendition.width}×${rendition.height})`
+    );
+    prepared.rendition = rendition.file;
+    prepared.thumbnail = rendition.thumbnail;
+  }
+
+  if (watermark?.enabled) {
+    const preview = await createRendition(
+      stripped,
+      renditionSettings,
+      await toStamp(watermark)
+    );
+    prepared.preview = preview.file;
+  }
+
+  try {
+    prepared.perceptualHash = await dHash(prepared.thumbnail ?? stripped);
+  } catch (error) {
+    console.warn(
+      `Could not compute a perceptual hash for ${file.name}:`,
+      error
+    );
+  }
+
+  return prepared;
+};
@@ -0,0 +1,277 @@
+export type Fetcher<T> = () => Promise<T>;
+export type Updater<T> = (previous: T | undefined) => T | undefined;
+
+export interface QueryOptions {
+  /** Labels for invalidation, e.g. `"photos"` or `collection:{id}` */
+  tags?: string[];
+  /** How long fetched data counts as fresh, in milliseconds */
+  staleTime?: number;
+}
+
+/** What a subscriber sees of one key; a new object after every change */
+export interface QuerySnapshot<T> {
+  data: T | undefined;
+  error: unknown;
+  isFetching: boolean;
+  updatedAt: number;
+}
+
+/** An optimistic update still waiting on the server */
+export interface OptimisticUpdate {
+  /** Put back what the update replaced */
+  rollback: () => void;
+  /** Keep the update; fetched data is trusted again */
+  commit: () => void;
+}
+
+export interface Mutation<R> {
+  /**
+   * Applies the expected outcome through `setData` before the request;
+   * every key it touches is restored if the request fails.
+   */
+  optimistic?: () => void;
+  request: () => Promise<R>;
+  /** Tags to refetch once the request settles, whichever way it went */
+  invalidates?: string[];
+}
+
+interface Entry {
+  key: string;
+  snapshot: QuerySnapshot<unknown>;
+  stale: boolean;
+  promise?: Promise<unknown>;
+  fetcher?: Fetcher<unknown>;
+  tags: Set<string>;
+  listeners: Set<() => void>;
+}
+
+const DEFAULT_STALE_TIME = 30 * 1000;
+
+/**
+ * Keyed store of server state shared by every dashboard. Concurrent
+ * fetches of one key share a request, cached data keeps showing while it
+ * revalidates, and tags let a change refetch everything it affects.
+ */
+class QueryCache {
+  private entries = new Map<string, Entry>();
+  // Previous data of keys written during an optimistic update
+  private recording: Map<string, unknown> | null = null;
+  // Optimistic updates re-applied over fetches that land before they settle
+  private pending = new Set<() => void>();
+  // While re-applying, writes to other keys are skipped
+  private scope: string | null = null;
+
+  snapshot<T>(key: string) {
+    return this.entry(key).snapshot as QuerySnapshot<T>;
+  }
+
+  getData<T>(key: string) {
+    return this.snapshot<T>(key).data;
+  }
+
+  subscribe(key: string, listener: () => void) {
+    const entry = this.entry(key);
+    entry.listeners.add(listener);
+    return () => {
+      entry.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Resolves with the cached data while it's fresh; otherwise fetches it,
+   * joining a request that's already on its way.
+   */
+  fetch<T>(
+    key: string,
+    fetcher: Fetcher<T>,
+    { tags = [], staleTime = DEFAULT_STALE_TIME }: QueryOptions = {},
+    force = false
+  ): Promise<T> {
+    const entry = this.entry(key);
+    entry.fetcher = fetcher;
+    tags.forEach((tag) => entry.tags.add(tag));
+
+    if (entry.promise && !force) return entry.promise as Promise<T>;
+    const { data, updatedAt } = entry.snapshot;
+    if (
+      !force &&
+      !entry.stale &&
+      data !== undefined &&
+      Date.now() - updatedAt < staleTime
+    ) {
+      return Promise.resolve(data as T);
+    }
+
+    // A forced refetch supersedes one already running; the older response
+    // is passed on to its callers but never cached
+    const promise: Promise<T> = fetcher().then(
+      (data) => {
+        if (entry.promise !== promise) return data;
+        entry.promise = undefined;
+        entry.stale = false;
+        this.publish(entry, {
+          data,
+          error: undefined,
+          isFetching: false,
+          updatedAt: Date.now(),
+        });
+        this.reapply(entry.key);
+        return entry.snapshot.data as T;
+      },
+      (error) => {
+        if (entry.promise !== promise) throw error;
+        entry.promise = undefined;
+        this.publish(entry, { ...entry.snapshot, error, isFetching: false });
+        throw error;
+      }
+    );
+    entry.promise = promise;
+    this.publish(entry, { ...entry.snapshot, isFetching: true });
+    return promise;
+  }
+
+  /** Replace or patch cached data, e.g. from an SSE event */
+  setData<T>(key: string, updater: T | Updater<T>) {
+    if (this.scope !== null && key !== this.scope) return;
+    const entry = this.entry(key);
+    const previous = entry.snapshot.data as T | undefined;
+    if (this.recording && !this.recording.has(key)) {
+      this.recording.set(key, previous);
+    }
+
+    const data =
+      typeof updater === "function"
+        ? (updater as Updater<T>)(previous)
+        : updater;
+    if (data === previous) return;
+    this.publish(entry, { ...entry.snapshot, data, updatedAt: Date.now() });
+  }
+
+  /** Flag entries as out of date without fetching; used next time they're read */
+  markStale(tag: string) {
+    this.tagged(tag).forEach((entry) => {
+      entry.stale = true;
+    });
+  }
+
+  /** Flag entries as out of date and refetch the ones on screen */
+  invalidate(tag: string) {
+    this.tagged(tag).forEach((entry) => this.revalidate(entry));
+  }
+
+  invalidateAll() {
+    this.entries.forEach((entry) => this.revalidate(entry));
+  }
+
+  /**
+   * Apply `update`, which writes through `setData`, and keep applying it to
+   * whatever is fetched until it's committed or rolled back. `update` must
+   * work on whatever data it's given, not assume it runs once.
+   */
+  optimistic(update: () => void): OptimisticUpdate {
+    const previous = new Map<string, unknown>();
+    this.recording = previous;
+    try {
+      update();
+    } finally {
+      this.recording = null;
+    }
+    this.pending.add(update);
+
+    return {
+      rollback: () => {
+        this.pending.delete(update);
+        previous.forEach((data, key) => this.setData(key, data));
+      },
+      commit: () => {
+        this.pending.delete(update);
+      },
+    };
+  }
+
+  /** Run a request with an optimistic update, rolling it back on failure */
+  async mutate<R>({
+    optimistic,
+    request,
+    invalidates = [],
+  }: Mutation<R>): Promise<R> {
+    const update = optimistic && this.optimistic(optimistic);
+
+    try {
+      const result = await request();
+      update?.commit();
+      return result;
+    } catch (error) {
+      update?.rollback();
+      throw error;
+    } finally {
+      invalidates.forEach((tag) => this.invalidate(tag));
+    }
+  }
+
+  /** Drop everything, e.g. when the user signs out */
+  clear() {
+    this.pending.clear();
+    this.entries.forEach((entry) => {
+      entry.stale = true;
+      entry.promise = undefined;
+      this.publish(entry, {
+        data: undefined,
+        error: undefined,
+        isFetching: false,
+        updatedAt: 0,
+      });
+    });
+  }
+
+  private entry(key: string) {
+    let entry = this.entries.get(key);
+    if (!entry) {
+      entry = {
+        key,
+        snapshot: {
+          data: undefined,
+          error: undefined,
+          isFetching: false,
+          updatedAt: 0,
+        },
+        stale: true,
+        tags: new Set(),
+        listeners: new Set(),
+      };
+      this.entries.set(key, entry);
+    }
+    return entry;
+  }
+
+  private tagged(tag: string) {
+    return Array.from(this.entries.values()).filter((entry) =>
+      entry.tags.has(tag)
+    );
+  }
+
+  private revalidate(entry: Entry) {
+    entry.stale = true;
+    if (entry.listeners.size === 0 || !entry.fetcher) return;
+    this.fetch(entry.key, entry.fetcher, {}, true).catch((error) =>
+      console.error(`Failed to refetch ${entry.key}:`, error)
+    );
+  }
+
+  private reapply(key: string) {
+    if (this.pending.size === 0) return;
+    this.scope = key;
+    try {
+      this.pending.forEach((update) => update());
+    } finally {
+      this.scope = null;
+    }
+  }
+
+  private publish(entry: Entry, snapshot: QuerySnapshot<unknown>) {
+    entry.snapshot = snapshot;
+    entry.listeners.forEach((listener) => listener());
+  }
+}
+
+export const queryCache = new QueryCache();
@@ -0,0 +1,11 @@
+export { queryCache } from "./cache";
+export type {
+  Fetcher,
+  Mutation,
+  OptimisticUpdate,
+  QueryOptions,
+  QuerySnapshot,
+  Updater,
+} from "./cache";
+export { deferMutation, UNDO_WINDOW } from "./undo";
+export type { DeferredMutation, PendingMutation } from "./undo";
@@ -0,0 +1,106 @@
+import { Mutation, queryCache } from "./cache";
+
+/** How long a change can be taken back before it's sent */
+export const UNDO_WINDOW = 6 * 1000;
+
+export interface DeferredMutation<R> extends Mutation<R> {
+  /**
+   * The same change sent in a way that survives the page unloading, e.g.
+   * a keepalive fetch. Without one, leaving the page asks the user to stay
+   * until the request has gone out.
+   */
+  sendOnUnload?: () => void;
+}
+
+export interface PendingMutation<R> {
+  /**
+   * The response, or null if there never was one: the change was undone
+   * before it was sent, or went out as the page unloaded
+   */
+  settled: Promise<R | null>;
+  /** Take the change back; false once the request has gone out */
+  undo: () => boolean;
+}
+
+interface Waiting {
+  flush: () => void;
+  unload?: () => void;
+}
+
+const waiting = new Set<Waiting>();
+
+// Requests still waiting when the page goes are sent in a form that
+// survives it. Ones that can't be are sent as soon as the user tries to
+// leave, and the browser asks them to stay while they go out
+if (typeof window !== "undefined") {
+  window.addEventListener("beforeunload", (event) => {
+    const unsendable = Array.from(waiting).filter(({ unload }) => !unload);
+    if (unsendable.length === 0) return;
+    unsendable.forEach(({ flush }) => flush());
+    event.preventDefault();
+    event.returnValue = "";
+  });
+  window.addEventListener("pagehide", () =>
+    waiting.forEach(({ unload }) => unload?.())
+  );
+}
+
+/**
+ * Like `queryCache.mutate`, but the request waits out an undo window.
+ * Undoing within it rolls the optimistic update back and nothing reaches
+ * the server; a request that fails later is rolled back the same way.
+ */
+export const deferMutation = <R>(
+  { optimistic, request, invalidates = [], sendOnUnload }: DeferredMutation<R>,
+  delay = UNDO_WINDOW
+): PendingMutation<R> => {
+  const update = optimistic && queryCache.optimistic(optimistic);
+  let settle!: (result: Promise<R | null>) => void;
+  const settled = new Promise<R | null>((resolve) => {
+    settle = resolve;
+  });
+
+  const entry: Waiting = {
+    flush: () => {
+      clearTimeout(timer);
+      waiting.delete(entry);
+      settle(
+        queryCache.mutate({ request, invalidates }).then(
+          (result) => {
+            update?.commit();
+            return result;
+          },
+          (error) => {
+            update?.rollback();
+            throw error;
+          }
+        )
+      );
+    },
+  };
+  if (sendOnUnload) {
+    entry.unload = () => {
+      clearTimeout(timer);
+      waiting.delete(entry);
+      sendOnUnload();
+      update?.commit();
+      // In case the page comes back from the back/forward cache
+      invalidates.forEach((tag) => queryCache.markStale(tag));
+      settle(Promise.resolve(null));
+    };
+  }
+  const timer = setTimeout(entry.flush, delay);
+  waiting.add(entry);
+
+  return {
+    settled,
+    undo: () => {
+      if (!waiting.has(entry)) return false;
+      clearTimeout(timer);
+      waiting.delete(entry);
+      update?.rollback();
+      settle(Promise.resolve(null));
+      return true;
+    },
+  };
+};
@@ -0,0 +1,85 @@
+import { parseEvent, RealtimeEvent } from "./events";
+
+export interface RealtimeListener {
+  onEvent?: (event: RealtimeEvent) => void;
+  /**
+   * Events may have been missed (a skipped id, a dropped connection, or
+   * one we couldn't parse); cached lists should be refetched.
+   */
+  onGap?: (reason: string) => void;
+  onConnected?: () => void;
+}
+
+/**
+ * Fan-out point between the SSE connection and everything that caches
+ * server state. Tracks event ids so subscribers hear about gaps.
+ */
+class RealtimeBus {
+  private listeners = new Set<RealtimeListener>();
+  private lastId: number | null = null;
+  private connections = 0;
+
+  /** Where a new connection should resume from, if the server sends ids */
+  get lastEventId() {
+    return this.lastId === null ? undefined : String(this.lastId);
+  }
+
+  subscribe(listener: RealtimeListener) {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /** Feed one raw message; `id` is the SSE event id, if the server sent one */
+  receive(data: string, id?: string) {
+    const previousId = this.lastId;
+    const sequence = id ? Number(id) : NaN;
+    if (!Number.isNaN(sequence)) {
+      const expected = this.lastId === null ? sequence : this.lastId + 1;
+      this.lastId = sequence;
+      if (sequence !== expected) {
+        this.gap(`expected event ${expected}, got ${sequence}`);
+      }
+    }
+
+    let event: ReturnType<typeof parseEvent>;
+    try {
+      event = parseEvent(JSON.parse(data));
+    } catch (error) {
+      console.error("Failed to parse SSE event:", error);
+      this.gap("unreadable event");
+      return;
+    }
+
+    if (event.type === "ping") return;
+    if (event.type === "connected") {
+      this.connected(event.resumed, previousId !== null);
+      return;
+    }
+    console.log("📡 SSE event received:", event.type);
+    this.listeners.forEach((listener) => listener.onEvent?.(event));
+  }
+
+  // Only a reconnection the server resumed can skip the reconciliation;
+  // any replayed event that doesn't follow on still shows up as a gap.
+  // A tab that takes over the connection has only heard relayed events,
+  // so having seen any counts as a reconnect too
+  private connected(resumed: boolean, hadEvents: boolean) {
+    const isReconnect = this.connections++ > 0 || hadEvents;
+    if (isReconnect && !(resumed && this.lastId !== null)) {
+      this.lastId = null;
+      this.gap("connection was interrupted");
+    } else if (isReconnect) {
+      console.log(`🔁 Replaying events after ${this.lastId}`);
+    }
+    this.listeners.forEach((listener) => listener.onConnected?.());
+  }
+
+  private gap(reason: string) {
+    console.warn(`⚠️ Possible missed events (${reason}), refetching`);
+    this.listeners.forEach((listener) => listener.onGap?.(reason));
+  }
+}
+
+export const realtimeBus = new RealtimeBus();
@@ -0,0 +1,300 @@
+import { API_BASE_URL } from "../axios";
+import { realtimeBus } from "./bus";
+
+const BASE_DELAY = 1000;
+const MAX_DELAY = 60 * 1000;
+
+// Names shared by every tab of the app
+const LEADER_LOCK = "realtime-leader";
+const CHANNEL_NAME = "realtime";
+
+/**
+ * `idle` while nothing on the page needs live updates; `degraded` while
+ * the connection is down and being retried, or paused in a hidden tab.
+ */
+export type ConnectionState =
+  | "idle"
+  | "connecting"
+  | "live"
+  | "degraded"
+  | "offline";
+
+type StateListener = (state: ConnectionState) => void;
+
+/** What tabs tell each other over the BroadcastChannel */
+type TabMessage =
+  | { kind: "event"; data: string; id: string }
+  | { kind: "state"; state: ConnectionState }
+  /** A new follower asking the leader for its state */
+  | { kind: "hello" }
+  /** A new leader asking followers which of them are visible */
+  | { kind: "roll-call" }
+  /** A follower shown or hidden; a paused leader reconnects for a visible one */
+  | { kind: "visibility"; tab: string; visible: boolean };
+
+const canShareAcrossTabs = () =>
+  typeof BroadcastChannel !== "undefined" &&
+  typeof navigator !== "undefined" &&
+  "locks" in navigator;
+
+/**
+ * The one EventSource to `/events`, shared by every tab. Tabs elect a
+ * leader through a Web Lock; the leader owns the connection and relays
+ * each message over a BroadcastChannel. When the leader closes, its lock
+ * is released and the next tab in line takes over.
+ *
+ * The leader reconnects for as long as anything needs it, with jittered
+ * backoff, and resumes from the last event id so the server can replay
+ * what was missed. Attempts are paused while the browser is offline or
+ * no tab is visible.
+ */
+class RealtimeConnection {
+  private source: EventSource | null = null;
+  private retryTimer: ReturnType<typeof setTimeout> | null = null;
+  private attempts = 0;
+  private users = 0;
+  private channel: BroadcastChannel | null = null;
+  private isLeader = false;
+  private readonly tabId = `${Date.now()}-${Math.random()
+    .toString(36)
+    .slice(2, 10)}`;
+  // Followers last reported visible; only the leader keeps track
+  private visibleFollowers = new Set<string>();
+  // Cancels a lock request still waiting in line
+  private candidacy: AbortController | null = null;
+  // Resolving this releases the leader lock
+  private abdicate: (() => void) | null = null;
+  private currentState: ConnectionState = "idle";
+  private stateListeners = new Set<StateListener>();
+
+  get state() {
+    return this.currentState;
+  }
+
+  onStateChange(listener: StateListener) {
+    this.stateListeners.add(listener);
+    return () => {
+      this.stateListeners.delete(listener);
+    };
+  }
+
+  /** Keep the connection open until the returned release is called */
+  retain() {
+    if (this.users++ === 0) this.join();
+    let released = false;
+    return () => {
+      if (released) return;
+      released = true;
+      if (--this.users === 0) this.leave();
+    };
+  }
+
+  private join() {
+    this.setState("connecting");
+    if (!canShareAcrossTabs()) {
+      this.lead();
+      return;
+    }
+
+    this.channel = new BroadcastChannel(CHANNEL_NAME);
+    this.channel.onmessage = (event: MessageEvent<TabMessage>) =>
+      this.handleTabMessage(event.data);
+    document.addEventListener("visibilitychange", this.reportVisibility);
+    this.post({ kind: "hello" });
+    this.reportVisibility();
+
+    this.candidacy = new AbortController();
+    navigator.locks
+      .request(LEADER_LOCK, { signal: this.candidacy.signal }, () => {
+        this.candidacy = null;
+        this.lead();
+        // Hold the lock until this tab stops needing the connection
+        return new Promise<void>((resolve) => {
+          this.abdicate = resolve;
+        });
+      })
+      .catch((error) => {
+        // Aborted because this tab left before its turn came
+        if ((error as Error).name !== "AbortError") {
+          console.error("❌ Realtime leader election failed:", error);
+        }
+      });
+  }
+
+  private leave() {
+    if (!this.isLeader) {
+      this.post({ kind: "visibility", tab: this.tabId, visible: false });
+    }
+    this.candidacy?.abort();
+    this.candidacy = null;
+
+    if (this.isLeader) {
+      this.isLeader = false;
+      window.removeEventListener("online", this.resume);
+      window.removeEventListener("offline", this.handleOffline);
+      document.removeEventListener("visibilitychange", this.resume);
+      this.clearRetry();
+      this.close();
+      this.attempts = 0;
+      this.visibleFollowers.clear();
+    }
+    this.abdicate?.();
+    this.abdicate = null;
+
+    document.removeEventListener("visibilitychange", this.reportVisibility);
+    this.channel?.close();
+    this.channel = null;
+    this.setState("idle");
+  }
+
+  private lead() {
+    console.log("👑 This tab now owns the realtime connection");
+    this.isLeader = true;
+    this.setState("connecting");
+    window.addEventListener("online", this.resume);
+    window.addEventListener("offline", this.handleOffline);
+    document.addEventListener("visibilitychange", this.resume);
+    this.post({ kind: "roll-call" });
+    this.open();
+  }
+
+  private handleTabMessage(message: TabMessage) {
+    if (this.isLeader) {
+      if (message.kind === "visibility") {
+        this.trackFollower(message.tab, message.visible);
+      }
+      if (message.kind === "hello")
+        this.post({ kind: "state", state: this.state });
+    } else if (message.kind === "event") {
+      realtimeBus.receive(message.data, message.id);
+    } else if (message.kind === "state") {
+      this.setState(message.state);
+    } else if (message.kind === "roll-call") {
+      this.reportVisibility();
+    }
+  }
+
+  private trackFollower(tab: string, visible: boolean) {
+    if (visible) {
+      this.visibleFollowers.add(tab);
+      this.resume();
+    } else {
+      this.visibleFollowers.delete(tab);
+    }
+  }
+
+  private post(message: TabMessage) {
+    this.channel?.postMessage(message);
+  }
+
+  // Followers only mirror the leader; the leader tells them what changed
+  private setState(state: ConnectionState) {
+    if (state === this.currentState) return;
+    this.currentState = state;
+    this.stateListeners.forEach((listener) => listener(state));
+    if (this.isLeader) this.post({ kind: "state", state });
+  }
+
+  private reportVisibility = () => {
+    if (this.isLeader) return;
+    this.post({
+      kind: "visibility",
+      tab: this.tabId,
+      visible: document.visibilityState === "visible",
+    });
+  };
+
+  // A hidden leader still connects, and keeps retrying, for a visible
+  // follower
+  private isAnyTabVisible() {
+    return (
+      document.visibilityState === "visible" || this.visibleFollowers.size > 0
+    );
+  }
+
+  private open = () => {
+    this.retryTimer = null;
+    if (this.source || !this.isLeader) return;
+    if (!navigator.onLine || !this.isAnyTabVisible()) {
+      console.log("⏸️ SSE paused until a tab is visible and online");
+      this.setState(navigator.onLine ? "degraded" : "offline");
+      return;
+    }
+
+    if (this.currentState === "offline") this.setState("connecting");
+
+    // EventSource can't set headers, so Last-Event-ID goes in the query
+    const url = new URL(`${API_BASE_URL}/events`, window.location.href);
+    const lastEventId = realtimeBus.lastEventId;
+    if (lastEventId) url.searchParams.set("lastEventId", lastEventId);
+
+    console.log(
+      lastEventId
+        ? `📡 Resuming SSE after event ${lastEventId}...`
+        : "📡 Connecting to SSE..."
+    );
+    const source = new EventSource(url.toString(), { withCredentials: true });
+
+    source.onopen = () => {
+      console.log("✅ SSE connection established");
+      this.attempts = 0;
+      this.setState("live");
+    };
+
+    source.onmessage = (event) => {
+      realtimeBus.receive(event.data, event.lastEventId);
+      this.post({ kind: "event", data: event.data, id: event.lastEventId });
+    };
+
+    source.onerror = (error) => {
+      console.error("❌ SSE error:", error);
+      this.close();
+      this.setState(navigator.onLine ? "degraded" : "offline");
+      this.scheduleRetry();
+    };
+
+    this.source = source;
+  };
+
+  private close() {
+    if (!this.source) return;
+    console.log("📡 Disconnecting SSE...");
+    this.source.close();
+    this.source = null;
+  }
+
+  private clearRetry() {
+    if (this.retryTimer) clearTimeout(this.retryTimer);
+    this.retryTimer = null;
+  }
+
+  private scheduleRetry() {
+    if (this.retryTimer || !this.isLeader) return;
+    // Full jitter, so tabs dropped by the same outage don't return in step
+    const ceiling = Math.min(MAX_DELAY, BASE_DELAY * 2 ** this.attempts);
+    const delay = Math.round(Math.random() * ceiling);
+    this.attempts++;
+    console.log(
+      `🔄 Reconnecting in ${(delay / 1000).toFixed(1)}s (attempt ${
+        this.attempts
+      })...`
+    );
+    this.retryTimer = setTimeout(this.open, delay);
+  }
+
+  // Visible or online again: reconnect now rather than wait out the backoff
+  private resume = () => {
+    if (this.source || !this.isLeader) return;
+    this.clearRetry();
+    this.attempts = 0;
+    this.open();
+  };
+
+  private handleOffline = () => {
+    this.clearRetry();
+    this.close();
+    this.setState("offline");
+  };
+}
+
+export const realtimeConnection = new RealtimeConnection();
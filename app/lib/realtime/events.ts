@@ -0,0 +1,143 @@
+/**
+ * Schema of the `/events` stream. Every event names exactly what changed,
+ * so cached lists can be patched in place instead of refetched.
+ */
+import {
+  asRecord,
+  Client,
+  Collection,
+  Photo,
+  RawRecord,
+  readOptionalNumber,
+  readOptionalString,
+  readString,
+  SchemaError,
+  toClient,
+  toCollection,
+  toPhoto,
+} from "../models";
+
+interface Event<Type extends string, Data> {
+  type: Type;
+  data: Data;
+  timestamp?: number;
+}
+
+interface PhotoRemoval {
+  photoId: string;
+  collectionId?: string;
+}
+
+export type RealtimeEvent =
+  | Event<"photo.created", { photo: Photo }>
+  | Event<"photo.updated", { photo: Photo }>
+  | Event<"photo.deleted", PhotoRemoval>
+  | Event<"photo.expired", PhotoRemoval>
+  | Event<"collection.created", { collection: Collection }>
+  | Event<"collection.updated", { collection: Collection }>
+  | Event<"collection.deleted", { collectionId: string }>
+  | Event<"collection.expired", { collectionId: string }>
+  | Event<"collection.shared", { collection: Collection; clientId: string }>
+  | Event<"client.created", { client: Client }>
+  | Event<"client.updated", { client: Client }>
+  | Event<"client.deleted", { clientId: string }>
+  | Event<"guest.created", { guestId: string }>
+  | Event<"guest.deleted", { guestId: string }>;
+
+export type RealtimeEventType = RealtimeEvent["type"];
+
+/** Stream housekeeping that never reaches subscribers */
+type ControlEvent =
+  | {
+      type: "connected";
+      /** The server replayed everything after the requested event id */
+      resumed: boolean;
+    }
+  | { type: "ping" };
+
+type Payload<T extends RealtimeEventType> = Extract<
+  RealtimeEvent,
+  { type: T }
+>["data"];
+
+const photoRemoval = (raw: RawRecord, path: string): PhotoRemoval => ({
+  photoId: readString(raw, ["photoId", "id"], path),
+  collectionId: readOptionalString(raw, "collectionId", path),
+});
+
+const collectionId = (raw: RawRecord, path: string) => ({
+  collectionId: readString(raw, ["collectionId", "id"], path),
+});
+
+const PAYLOADS: {
+  [T in RealtimeEventType]: (raw: RawRecord, path: string) => Payload<T>;
+} = {
+  "photo.created": (raw, path) => ({
+    photo: toPhoto(raw.photo, `${path}.photo`),
+  }),
+  "photo.updated": (raw, path) => ({
+    photo: toPhoto(raw.photo, `${path}.photo`),
+  }),
+  "photo.deleted": photoRemoval,
+  "photo.expired": photoRemoval,
+  "collection.created": (raw, path) => ({
+    collection: toCollection(raw.collection, `${path}.collection`),
+  }),
+  "collection.updated": (raw, path) => ({
+    collection: toCollection(raw.collection, `${path}.collection`),
+  }),
+  "collection.deleted": collectionId,
+  "collection.expired": collectionId,
+  "collection.shared": (raw, path) => ({
+    collection: toCollection(raw.collection, `${path}.collection`),
+    clientId: readString(raw, "clientId", path),
+  }),
+  "client.created": (raw, path) => ({
+    client: toClient(raw.client, `${path}.client`),
+  }),
+  "client.updated": (raw, path) => ({
+    client: toClient(raw.client, `${path}.client`),
+  }),
+  "client.deleted": (raw, path) => ({
+    clientId: readString(raw, ["clientId", "id"], path),
+  }),
+  "guest.created": (raw, path) => ({
+    guestId: readString(raw, ["guestId", "id"], path),
+  }),
+  "guest.deleted": (raw, path) => ({
+    guestId: readString(raw, ["guestId", "id"], path),
+  }),
+};
+
+const isEventType = (type: string): type is RealtimeEventType =>
+  Object.prototype.hasOwnProperty.call(PAYLOADS, type);
+
+/**
+ * Validate one message from the stream. Throws a SchemaError for unknown
+ * types and malformed payloads, since either means a change we can't apply.
+ */
+export const parseEvent = (
+  value: unknown,
+  path = "event"
+): RealtimeEvent | ControlEvent => {
+  const raw = asRecord(value, path);
+  const type = readString(raw, "type", path);
+  if (type === "ping") return { type };
+  if (type === "connected") {
+    const data = raw.data === undefined ? {} : asRecord(raw.data, path);
+    return { type, resumed: data.resumed === true };
+  }
+  if (!isEventType(type)) {
+    throw new SchemaError(`${path}.type`, "a known event type", type);
+  }
+
+  const data = PAYLOADS[type](
+    asRecord(raw.data, `${path}.data`),
+    `${path}.data`
+  );
+  return {
+    type,
+    data,
+    timestamp: readOptionalNumber(raw, "timestamp", path),
+  } as RealtimeEvent;
+};
@@ -0,0 +1,7 @@
+export * from "./events";
+export * from "./patch";
+export { realtimeBus } from "./bus";
+export type { RealtimeListener } from "./bus";
+export * from "./reducers";
+export { realtimeConnection } from "./connection";
+export type { ConnectionState } from "./connection";
@@ -0,0 +1,41 @@
+/**
+ * Pure helpers for applying realtime changes to cached lists. Existing
+ * items are merged rather than replaced so client-side fields such as
+ * `selected` survive an update.
+ */
+
+interface Identified {
+  id: string;
+}
+
+/** Insert `item`, or merge it into the entry with the same id */
+export const upsertById = <T extends Identified>(
+  list: T[],
+  item: Partial<T> & Identified,
+  /** Where new items go; listings are newest-first by default */
+  at: "start" | "end" = "start"
+): T[] => {
+  if (list.some((existing) => existing.id === item.id)) {
+    return list.map((existing) =>
+      existing.id === item.id ? { ...existing, ...item } : existing
+    );
+  }
+  return at === "start" ? [item as T, ...list] : [...list, item as T];
+};
+
+/** Merge `item` into the entry with the same id, if there is one */
+export const updateById = <T extends Identified>(
+  list: T[],
+  item: Partial<T> & Identified
+): T[] =>
+  list.some((existing) => existing.id === item.id)
+    ? upsertById(list, item)
+    : list;
+
+export const removeById = <T extends Identified>(list: T[], id: string) =>
+  list.some((item) => item.id === id)
+    ? list.filter((item) => item.id !== id)
+    : list;
+
+export const removeWhere = <T>(list: T[], predicate: (item: T) => boolean) =>
+  list.some(predicate) ? list.filter((item) => !predicate(item)) : list;
@@ -0,0 +1,73 @@
+/**
+ * How each kind of cached list reacts to realtime events. Events that
+ * don't concern a list return it unchanged (same reference), so React
+ * skips the re-render.
+ */
+import { Client, Collection, Photo, Selectable } from "../models";
+import { RealtimeEvent } from "./events";
+import { removeById, removeWhere, upsertById } from "./patch";
+
+/**
+ * `accepts` scopes the list, e.g. to one collection; an update that moves
+ * a photo out of scope removes it.
+ */
+export const applyPhotoEvent = (
+  list: Selectable<Photo>[],
+  event: RealtimeEvent,
+  accepts: (photo: Photo) => boolean = () => true
+): Selectable<Photo>[] => {
+  switch (event.type) {
+    case "photo.created":
+      return accepts(event.data.photo)
+        ? upsertById(list, event.data.photo)
+        : list;
+    case "photo.updated":
+      return accepts(event.data.photo)
+        ? upsertById(list, event.data.photo)
+        : removeById(list, event.data.photo.id);
+    case "photo.deleted":
+    case "photo.expired":
+      return removeById(list, event.data.photoId);
+    // Photos go with their collection
+    case "collection.deleted":
+    case "collection.expired":
+      return removeWhere(
+        list,
+        (photo) => photo.collectionId === event.data.collectionId
+      );
+    default:
+      return list;
+  }
+};
+
+export const applyCollectionEvent = (
+  list: Collection[],
+  event: RealtimeEvent
+): Collection[] => {
+  switch (event.type) {
+    case "collection.created":
+    case "collection.updated":
+    case "collection.shared":
+      return upsertById(list, event.data.collection, "end");
+    case "collection.deleted":
+    case "collection.expired":
+      return removeById(list, event.data.collectionId);
+    default:
+      return list;
+  }
+};
+
+export const applyClientEvent = (
+  list: Client[],
+  event: RealtimeEvent
+): Client[] => {
+  switch (event.type) {
+    case "client.created":
+    case "client.updated":
+      return upsertById(list, event.data.client, "end");
+    case "client.deleted":
+      return removeById(list, event.data.clientId);
+    default:
+      return list;
+  }
+};
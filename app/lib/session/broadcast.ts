@@ -0,0 +1,74 @@
+import { User } from "../models";
+
+// Shared by every tab of the app
+const CHANNEL_NAME = "auth";
+// Fallback for browsers without BroadcastChannel; writes fire `storage`
+// events in the other tabs
+const STORAGE_KEY = "auth-broadcast";
+
+/** What tabs tell each other about the signed-in user */
+export type AuthMessage =
+  | { kind: "login"; user: User }
+  | { kind: "logout" }
+  /** The session's end moved, in ms since the epoch; null if unknown */
+  | { kind: "expiry"; expiresAt: number | null };
+
+type AuthListener = (message: AuthMessage) => void;
+
+/**
+ * Keeps every tab's idea of who is signed in the same. Messages are only
+ * delivered to the other tabs, never back to the one that posted them.
+ */
+class AuthBroadcast {
+  private channel: BroadcastChannel | null = null;
+  private listeners = new Set<AuthListener>();
+  private started = false;
+
+  private start() {
+    if (this.started || typeof window === "undefined") return;
+    this.started = true;
+
+    if (typeof BroadcastChannel !== "undefined") {
+      this.channel = new BroadcastChannel(CHANNEL_NAME);
+      this.channel.onmessage = (event: MessageEvent<AuthMessage>) =>
+        this.deliver(event.data);
+      return;
+    }
+
+    window.addEventListener("storage", (event) => {
+      if (event.key !== STORAGE_KEY || !event.newValue) return;
+      try {
+        this.deliver(JSON.parse(event.newValue).message as AuthMessage);
+      } catch (error) {
+        console.error("Failed to read auth broadcast:", error);
+      }
+    });
+  }
+
+  private deliver(message: AuthMessage) {
+    this.listeners.forEach((listener) => listener(message));
+  }
+
+  post(message: AuthMessage) {
+    this.start();
+    if (this.channel) {
+      this.channel.postMessage(message);
+    } else if (typeof window !== "undefined") {
+      // The nonce makes repeats of the same message still count as changes
+      localStorage.setItem(
+        STORAGE_KEY,
+        JSON.stringify({ message, nonce: Math.random() })
+      );
+    }
+  }
+
+  subscribe(listener: AuthListener) {
+    this.start();
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+}
+
+export const authBroadcast = new AuthBroadcast();
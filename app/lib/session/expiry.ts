@@ -0,0 +1,54 @@
+import { authBroadcast } from "./broadcast";
+
+// The backend has to list it in Access-Control-Expose-Headers
+export const SESSION_EXPIRY_HEADER = "x-session-expires-at";
+
+type ExpiryListener = (expiresAt: number | null) => void;
+
+/**
+ * When the current session ends, as last reported by the backend. All tabs
+ * share the cookie, so an update in one is passed on to the rest.
+ */
+class SessionExpiry {
+  private current: number | null = null;
+  private listeners = new Set<ExpiryListener>();
+
+  constructor() {
+    authBroadcast.subscribe((message) => {
+      if (message.kind === "expiry") this.apply(message.expiresAt);
+      if (message.kind === "logout") this.apply(null);
+    });
+  }
+
+  /** Ms since the epoch, or null when unknown or signed out */
+  get expiresAt() {
+    return this.current;
+  }
+
+  /** Record a value from the expiry header; ignores anything unreadable */
+  update(header: unknown) {
+    if (typeof header !== "string") return;
+    const expiresAt = Date.parse(header);
+    if (Number.isNaN(expiresAt) || expiresAt === this.current) return;
+    this.apply(expiresAt);
+    authBroadcast.post({ kind: "expiry", expiresAt });
+  }
+
+  clear() {
+    this.apply(null);
+  }
+
+  subscribe(listener: ExpiryListener) {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private apply(expiresAt: number | null) {
+    this.current = expiresAt;
+    this.listeners.forEach((listener) => listener(expiresAt));
+  }
+}
+
+export const sessionExpiry = new SessionExpiry();
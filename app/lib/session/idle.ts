@@ -0,0 +1,239 @@
+import { UserRole } from "../models";
+
+export interface IdleTimeouts {
+  /** Inactivity before the page is hidden behind the lock screen */
+  lockAfter: number;
+  /** Inactivity before signing out; counted from the last activity */
+  logoutAfter: number;
+}
+
+export type IdleState = "active" | "locked" | "expired";
+
+type IdleListener = (state: IdleState) => void;
+
+const MINUTE = 60 * 1000;
+
+// A setting in minutes, or the default when it's missing or not a number
+const minutes = (setting: string | undefined, fallback: number) => {
+  const value = Number(setting);
+  return (setting && value > 0 ? value : fallback) * MINUTE;
+};
+
+// Each role's pair in minutes, e.g. NEXT_PUBLIC_IDLE_LOCK_ADMIN=5 and
+// NEXT_PUBLIC_IDLE_LOGOUT_ADMIN=10. Next only inlines variables it sees
+// spelled out, hence no loop over the roles
+const timeouts = (
+  lock: string | undefined,
+  logout: string | undefined,
+  defaults: [number, number]
+): IdleTimeouts => {
+  const lockAfter = minutes(lock, defaults[0]);
+  // Signing out before the lock would skip it
+  const logoutAfter = Math.max(minutes(logout, defaults[1]), lockAfter);
+  return { lockAfter, logoutAfter };
+};
+
+/**
+ * Per-role timeouts, set through the environment; admins can do the most
+ * damage, so their defaults are the shortest
+ */
+export const IDLE_TIMEOUTS: Record<UserRole, IdleTimeouts> = {
+  admin: timeouts(
+    process.env.NEXT_PUBLIC_IDLE_LOCK_ADMIN,
+    process.env.NEXT_PUBLIC_IDLE_LOGOUT_ADMIN,
+    [5, 10]
+  ),
+  photographer: timeouts(
+    process.env.NEXT_PUBLIC_IDLE_LOCK_PHOTOGRAPHER,
+    process.env.NEXT_PUBLIC_IDLE_LOGOUT_PHOTOGRAPHER,
+    [15, 30]
+  ),
+  client: timeouts(
+    process.env.NEXT_PUBLIC_IDLE_LOCK_CLIENT,
+    process.env.NEXT_PUBLIC_IDLE_LOGOUT_CLIENT,
+    [10, 20]
+  ),
+  guest: timeouts(
+    process.env.NEXT_PUBLIC_IDLE_LOCK_GUEST,
+    process.env.NEXT_PUBLIC_IDLE_LOGOUT_GUEST,
+    [10, 20]
+  ),
+};
+
+const ACTIVITY_EVENTS = [
+  "mousemove",
+  "mousedown",
+  "keydown",
+  "touchstart",
+  "wheel",
+] as const;
+
+// Last activity in any tab, so working in one keeps the others unlocked
+const STORAGE_KEY = "idle-last-activity";
+// Last moment any tab held off the sign-out, e.g. for a running upload
+const HOLD_KEY = "idle-last-hold";
+// How often activity is written through to the other tabs
+const SHARE_INTERVAL = 5 * 1000;
+const CHECK_INTERVAL = 1000;
+
+/**
+ * Watches for mouse, keyboard and touch input across every tab of the app
+ * and reports when the user has been away long enough to lock, then to
+ * sign out. Deadlines are measured against the clock on each check, so a
+ * computer waking from sleep is judged by how long it actually slept.
+ * Work still going on in the background, such as an upload, holds off the
+ * sign-out but not the lock.
+ */
+class IdleMonitor {
+  private timeouts: IdleTimeouts | null = null;
+  private lastActivity = 0;
+  private lastShared = 0;
+  private holds = 0;
+  private lastHoldShared = 0;
+  private lockedAt: number | null = null;
+  private currentState: IdleState = "active";
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private listeners = new Set<IdleListener>();
+
+  get state() {
+    return this.currentState;
+  }
+
+  /** When the user will be signed out, in ms since the epoch */
+  get logoutAt() {
+    if (!this.timeouts || this.holds > 0) return null;
+    return (
+      Math.max(this.lastSeen(), this.lastHeld()) + this.timeouts.logoutAfter
+    );
+  }
+
+  start(timeouts: IdleTimeouts) {
+    this.stop();
+    this.timeouts = timeouts;
+    // A reload carries on from the last activity, so it can't skip the lock
+    const shared = this.readShared();
+    this.lastActivity = shared ?? Date.now();
+    if (shared === null) this.share(true);
+    this.setState("active");
+    this.check();
+
+    ACTIVITY_EVENTS.forEach((type) =>
+      window.addEventListener(type, this.onActivity, { passive: true })
+    );
+    document.addEventListener("visibilitychange", this.check);
+    this.timer = setInterval(this.check, CHECK_INTERVAL);
+  }
+
+  stop() {
+    if (!this.timeouts) return;
+    ACTIVITY_EVENTS.forEach((type) =>
+      window.removeEventListener(type, this.onActivity)
+    );
+    document.removeEventListener("visibilitychange", this.check);
+    if (this.timer) clearInterval(this.timer);
+    this.timer = null;
+    this.timeouts = null;
+    this.lockedAt = null;
+    // The next sign-in starts with a clean slate
+    localStorage.removeItem(STORAGE_KEY);
+    localStorage.removeItem(HOLD_KEY);
+    this.setState("active");
+  }
+
+  /** The user confirmed they're back; activity alone never unlocks */
+  unlock() {
+    if (this.currentState !== "locked") return;
+    this.lockedAt = null;
+    this.lastActivity = Date.now();
+    this.share(true);
+    this.setState("active");
+  }
+
+  /**
+   * Keep the user signed in, in every tab, until the returned release is
+   * called; the sign-out countdown starts over from then
+   */
+  hold() {
+    this.holds++;
+    this.shareHold(true);
+    let released = false;
+    return () => {
+      if (released) return;
+      released = true;
+      this.shareHold(true);
+      this.holds--;
+    };
+  }
+
+  subscribe(listener: IdleListener) {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private onActivity = () => {
+    if (this.currentState !== "active") return;
+    this.lastActivity = Date.now();
+    this.share(false);
+  };
+
+  private share(force: boolean) {
+    if (!force && this.lastActivity - this.lastShared < SHARE_INTERVAL) return;
+    this.lastShared = this.lastActivity;
+    localStorage.setItem(STORAGE_KEY, String(this.lastActivity));
+  }
+
+  private shareHold(force: boolean) {
+    const now = Date.now();
+    if (!force && now - this.lastHoldShared < SHARE_INTERVAL) return;
+    this.lastHoldShared = now;
+    localStorage.setItem(HOLD_KEY, String(now));
+  }
+
+  private lastHeld() {
+    if (this.holds > 0) return Date.now();
+    const shared = Number(localStorage.getItem(HOLD_KEY) ?? NaN);
+    return Number.isNaN(shared) ? 0 : shared;
+  }
+
+  private readShared() {
+    const shared = Number(localStorage.getItem(STORAGE_KEY) ?? NaN);
+    return Number.isNaN(shared) ? null : shared;
+  }
+
+  private lastSeen() {
+    return Math.max(this.lastActivity, this.readShared() ?? 0);
+  }
+
+  private check = () => {
+    if (!this.timeouts || this.currentState === "expired") return;
+    if (this.holds > 0) this.shareHold(false);
+    const lastSeen = this.lastSeen();
+    const idleFor = Date.now() - lastSeen;
+    const unheldFor = Date.now() - Math.max(lastSeen, this.lastHeld());
+
+    if (unheldFor >= this.timeouts.logoutAfter) {
+      this.setState("expired");
+    } else if (this.currentState === "locked") {
+      // Unlocked, or used, in another tab since this one locked
+      if (this.lockedAt !== null && lastSeen > this.lockedAt) {
+        this.lockedAt = null;
+        this.lastActivity = lastSeen;
+        this.setState("active");
+      }
+    } else if (idleFor >= this.timeouts.lockAfter) {
+      this.lockedAt = Date.now();
+      this.setState("locked");
+    }
+  };
+
+  private setState(state: IdleState) {
+    if (state === this.currentState) return;
+    this.currentState = state;
+    console.log(`💤 Idle state: ${state}`);
+    this.listeners.forEach((listener) => listener(state));
+  }
+}
+
+export const idleMonitor = new IdleMonitor();
@@ -0,0 +1,6 @@
+export { authBroadcast } from "./broadcast";
+export type { AuthMessage } from "./broadcast";
+export { reauthGate } from "./reauth";
+export { sessionExpiry, SESSION_EXPIRY_HEADER } from "./expiry";
+export { idleMonitor, IDLE_TIMEOUTS } from "./idle";
+export type { IdleState, IdleTimeouts } from "./idle";
@@ -0,0 +1,67 @@
+type PendingListener = (pending: boolean) => void;
+
+/**
+ * Holds API requests whose session couldn't be refreshed until the user
+ * signs in again, so the page they were on survives the expiry. Every
+ * request that hits the expiry waits on the same prompt.
+ */
+class ReauthGate {
+  private waiting: Promise<void> | null = null;
+  private settle: {
+    resolve: () => void;
+    reject: (reason: unknown) => void;
+  } | null = null;
+  private listeners = new Set<PendingListener>();
+
+  get pending() {
+    return this.waiting !== null;
+  }
+
+  /** Resolves once signed in again; rejects if the user signs out instead */
+  request() {
+    if (!this.waiting) {
+      this.waiting = new Promise<void>((resolve, reject) => {
+        this.settle = { resolve, reject };
+      });
+      // Rejections are for the requests waiting on it to handle
+      this.waiting.catch(() => undefined);
+      console.log("🔒 Session expired, asking to sign in again");
+      this.notify();
+    }
+    return this.waiting;
+  }
+
+  /** Signed in again: retry everything that was held */
+  resolve() {
+    const settle = this.finish();
+    settle?.resolve();
+  }
+
+  /** Gave up: fail everything that was held with `reason` */
+  reject(reason: unknown) {
+    const settle = this.finish();
+    settle?.reject(reason);
+  }
+
+  subscribe(listener: PendingListener) {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private finish() {
+    const settle = this.settle;
+    if (!settle) return null;
+    this.waiting = null;
+    this.settle = null;
+    this.notify();
+    return settle;
+  }
+
+  private notify() {
+    this.listeners.forEach((listener) => listener(this.pending));
+  }
+}
+
+export const reauthGate = new ReauthGate();
@@ -0,0 +1,192 @@
+import { API_BASE_URL, thumbnailsApi } from "./api";
+import { thumbnailCache } from "./imageCache";
+import { Collection, Photo, ThumbnailSource } from "./models";
+import { mimeTypeOfBase64 } from "./imaging/format";
+import { readPinnedThumbnail } from "./offlinePins";
+
+// Bump the version to drop everything cached by older builds
+const CACHE_NAME = "photo-thumbnails-v1";
+
+// Limits on what's kept on disk; the oldest entries go first
+const MAX_ENTRIES = 2000;
+const MAX_AGE = 14 * 24 * 60 * 60 * 1000;
+// Puts between sweeps over the whole cache
+const PRUNE_EVERY = 100;
+
+// Written alongside each cached thumbnail
+const CACHED_AT = "X-Cached-At";
+const COLLECTION_ID = "X-Collection-Id";
+const EXPIRES_AT = "X-Expires-At";
+const SOURCE_URL = "X-Thumbnail-Url";
+
+const inFlight = new Map<string, Promise<string>>();
+// Collection each thumbnail URL belongs to, as far as listings have said
+const owners = new Map<string, Collection>();
+let putsSincePrune = 0;
+
+// Same joining rule axios uses for relative URLs under baseURL
+const absoluteUrl = (url: string) =>
+  /^https?:\/\//.test(url)
+    ? url
+    : `${API_BASE_URL.replace(/\/+$/, "")}/${url.replace(/^\/+/, "")}`;
+
+// Cache Storage is missing on plain-HTTP origins other than localhost
+const openCache = async () => {
+  if (typeof caches === "undefined") return null;
+  try {
+    return await caches.open(CACHE_NAME);
+  } catch {
+    return null;
+  }
+};
+
+// Entries from before the headers were written count as stale
+const isStale = (response: Response, now = Date.now()) => {
+  const cachedAt = Number(response.headers.get(CACHED_AT));
+  const expiresAt = Date.parse(response.headers.get(EXPIRES_AT) ?? "");
+  return (
+    !cachedAt ||
+    now - cachedAt > MAX_AGE ||
+    (!isNaN(expiresAt) && expiresAt <= now)
+  );
+};
+
+const fetchThumbnail = async (url: string) => {
+  const key = absoluteUrl(url);
+  const cache = await openCache();
+
+  const cached = await cache?.match(key);
+  if (cached && !isStale(cached)) return cached.blob();
+
+  // Collections kept for offline viewing have their own copy
+  const pinned = await readPinnedThumbnail(url);
+  if (pinned) return pinned;
+
+  const blob = await thumbnailsApi.getThumbnail(url);
+  const owner = owners.get(url);
+  const headers: Record<string, string> = {
+    "Content-Type": blob.type,
+    [CACHED_AT]: String(Date.now()),
+    [SOURCE_URL]: url,
+  };
+  if (owner) headers[COLLECTION_ID] = owner.id;
+  if (owner?.autoDeleteAt) headers[EXPIRES_AT] = owner.autoDeleteAt;
+  cache
+    ?.put(key, new Response(blob, { headers }))
+    .catch((error) => console.warn("Failed to cache thumbnail:", error));
+  if (++putsSincePrune >= PRUNE_EVERY) {
+    pruneThumbnails().catch((error) =>
+      console.warn("Failed to prune thumbnails:", error)
+    );
+  }
+  return blob;
+};
+
+/**
+ * Note which collection a listing's thumbnails belong to, so the cached
+ * copies go when it expires or is no longer shared
+ */
+export const assignThumbnails = (collection: Collection, photos: Photo[]) =>
+  photos.forEach((photo) => {
+    if (photo.thumbnailUrl) owners.set(photo.thumbnailUrl, collection);
+  });
+
+/**
+ * Drop cached thumbnails that are too old, whose collection has expired,
+ * or, given the current listing, whose collection has left it; then the
+ * oldest, down to the size limit.
+ */
+export const pruneThumbnails = async (listed?: Collection[]) => {
+  putsSincePrune = 0;
+  const cache = await openCache();
+  if (!cache) return;
+
+  const now = Date.now();
+  const listedIds = listed && new Set(listed.map(({ id }) => id));
+  const kept: Array<{
+    request: Request;
+    url: string | null;
+    cachedAt: number;
+  }> = [];
+  const evict = async (request: Request, url: string | null) => {
+    await cache.delete(request);
+    if (url) thumbnailCache.delete(url);
+  };
+
+  for (const request of await cache.keys()) {
+    const response = await cache.match(request);
+    if (!response) continue;
+    const url = response.headers.get(SOURCE_URL);
+    const collectionId = response.headers.get(COLLECTION_ID);
+    if (
+      isStale(response, now) ||
+      (listedIds && collectionId && !listedIds.has(collectionId))
+    ) {
+      await evict(request, url);
+    } else {
+      kept.push({
+        request,
+        url,
+        cachedAt: Number(response.headers.get(CACHED_AT)),
+      });
+    }
+  }
+
+  if (kept.length <= MAX_ENTRIES) return;
+  kept.sort((a, b) => a.cachedAt - b.cachedAt);
+  for (const { request, url } of kept.slice(0, kept.length - MAX_ENTRIES)) {
+    await evict(request, url);
+  }
+};
+
+export const hasThumbnail = (source: ThumbnailSource) =>
+  Boolean(source.thumbnailUrl || source.thumbnailDataB64);
+
+/**
+ * Best src available without a request: a cached object URL, otherwise the
+ * inline base64 fallback if the backend sent one.
+ */
+export const peekThumbnail = ({
+  thumbnailUrl,
+  thumbnailDataB64,
+}: ThumbnailSource) =>
+  (thumbnailUrl && thumbnailCache.peek(thumbnailUrl)) ||
+  (thumbnailDataB64
+    ? `data:${mimeTypeOfBase64(thumbnailDataB64)};base64,${thumbnailDataB64}`
+    : undefined);
+
+/**
+ * Object URL for a thumbnail, from memory, Cache Storage or the network,
+ * in that order. Concurrent requests for the same URL share one fetch.
+ */
+export const loadThumbnail = (url: string): Promise<string> => {
+  const cached = thumbnailCache.get(url);
+  if (cached) return Promise.resolve(cached);
+
+  const pending = inFlight.get(url);
+  if (pending) return pending;
+
+  const request = fetchThumbnail(url)
+    .then((blob) => thumbnailCache.set(url, blob))
+    .finally(() => inFlight.delete(url));
+
+  inFlight.set(url, request);
+  return request;
+};
+
+/**
+ * Use a thumbnail generated in the browser (e.g. during upload) for `url`,
+ * so a freshly uploaded photo shows up without a round trip.
+ */
+export const seedThumbnail = (url: string, blob: Blob) => {
+  if (!thumbnailCache.has(url)) thumbnailCache.set(url, blob);
+};
+
+/** Forget every thumbnail, in memory and on disk (e.g. on logout) */
+export const clearThumbnails = async () => {
+  thumbnailCache.clear();
+  owners.clear();
+  if (typeof caches !== "undefined") {
+    await caches.delete(CACHE_NAME);
+  }
+};
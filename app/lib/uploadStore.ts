@@ -0,0 +1,153 @@
+/**
+ * IndexedDB persistence for chunked uploads, so an interrupted session can
+ * be resumed after a reload. Metadata and file bytes live in separate
+ * stores: progress updates rewrite the small record, never the file.
+ */
+
+import { UploadVariant } from "./api";
+
+const DB_NAME = "photo-uploads";
+const DB_VERSION = 1;
+const SESSIONS = "sessions";
+const FILES = "files";
+
+export interface StoredUpload {
+  /** Local id, stable across reloads */
+  id: string;
+  /** User who queued it; only they may resume it */
+  ownerId?: string;
+  /** Server session id, once the session has been opened */
+  uploadId: string | null;
+  name: string;
+  size: number;
+  type: string;
+  collectionId?: string;
+  expiryMinutes?: number;
+  clientIds?: string[];
+  variant?: UploadVariant;
+  /**
+   * False for the extra copies uploaded alongside the file that stands for
+   * the photo, so the photo is only announced once
+   */
+  primary?: boolean;
+  section?: string;
+  contentHash?: string;
+  perceptualHash?: string;
+  /** Last offset the server confirmed */
+  offset: number;
+  createdAt: number;
+}
+
+let dbPromise: Promise<IDBDatabase | null> | null = null;
+
+const promisify = <T>(request: IDBRequest<T>) =>
+  new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+// Resolves to null where IndexedDB is unavailable (SSR, private modes)
+const openDb = () => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve) => {
+      if (typeof indexedDB === "undefined") {
+        resolve(null);
+        return;
+      }
+
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(SESSIONS, { keyPath: "id" });
+        request.result.createObjectStore(FILES);
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        console.warn("IndexedDB unavailable, uploads won't survive a reload");
+        resolve(null);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+const withStore = async <T>(
+  store: string,
+  mode: IDBTransactionMode,
+  run: (objectStore: IDBObjectStore) => IDBRequest<T>
+): Promise<T | undefined> => {
+  const db = await openDb();
+  if (!db) return undefined;
+  return promisify(run(db.transaction(store, mode).objectStore(store)));
+};
+
+/** Persist a new upload together with its file */
+export const saveUpload = async (upload: StoredUpload, file: Blob) => {
+  try {
+    await withStore(FILES, "readwrite", (store) => store.put(file, upload.id));
+    await withStore(SESSIONS, "readwrite", (store) => store.put(upload));
+  } catch (error) {
+    // Usually a quota error on very large shoots; the upload still runs
+    console.warn(`Could not persist upload ${upload.name}:`, error);
+  }
+};
+
+/** Update progress and session id; the stored file is left alone */
+export const updateUpload = async (upload: StoredUpload) => {
+  try {
+    await withStore(SESSIONS, "readwrite", (store) => store.put(upload));
+  } catch (error) {
+    console.warn(`Could not update upload ${upload.name}:`, error);
+  }
+};
+
+export const removeUpload = async (id: string) => {
+  try {
+    await withStore(SESSIONS, "readwrite", (store) => store.delete(id));
+    await withStore(FILES, "readwrite", (store) => store.delete(id));
+  } catch (error) {
+    console.warn(`Could not remove upload ${id}:`, error);
+  }
+};
+
+/** Forget every stored upload, e.g. on sign-out */
+export const clearUploads = async () => {
+  try {
+    await withStore(SESSIONS, "readwrite", (store) => store.clear());
+    await withStore(FILES, "readwrite", (store) => store.clear());
+  } catch (error) {
+    console.warn("Could not clear stored uploads:", error);
+  }
+};
+
+/**
+ * Every upload `ownerId` left over from a previous page, oldest first.
+ * Other users' uploads, and ones saved before owners were recorded, stay
+ * where they are.
+ */
+export const loadUploads = async (ownerId: string) => {
+  try {
+    const sessions = (
+      (await withStore<StoredUpload[]>(SESSIONS, "readonly", (store) =>
+        store.getAll()
+      )) ?? []
+    ).filter((upload) => upload.ownerId === ownerId);
+
+    const restored: { upload: StoredUpload; file: Blob }[] = [];
+    for (const upload of sessions) {
+      const file = await withStore<Blob>(FILES, "readonly", (store) =>
+        store.get(upload.id)
+      );
+      if (file) {
+        restored.push({ upload, file });
+      } else {
+        // The file never made it to disk, nothing to resume from
+        await removeUpload(upload.id);
+      }
+    }
+
+    return restored.sort((a, b) => a.upload.createdAt - b.upload.createdAt);
+  } catch (error) {
+    console.warn("Could not restore uploads:", error);
+    return [];
+  }
+};
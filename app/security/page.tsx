@@ -0,0 +1,453 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { useRouter } from "next/navigation";
+import { toDataURL } from "qrcode";
+import { useAuth } from "../context/AuthContext";
+import { authApi, getErrorMessage } from "../lib/api";
+import { saveBlob } from "../lib/download";
+import { TwoFactorSetup, TwoFactorStatus } from "../lib/models";
+
+// The accounts that can delete other people's photos
+const TWO_FACTOR_ROLES = ["admin", "photographer"];
+
+type Step = "overview" | "enrol" | "recovery-codes" | "regenerate" | "disable";
+
+const inputClass =
+  "appearance-none relative block w-full px-3 py-2 border border-gray-300 dark:border-gray-600 placeholder-gray-500 dark:placeholder-gray-400 text-gray-900 dark:text-gray-100 bg-white dark:bg-gray-700 rounded-md focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 focus:z-10 sm:text-sm";
+const primaryButtonClass =
+  "w-full flex justify-center py-2 px-4 border border-transparent text-sm font-medium rounded-md text-white bg-indigo-600 hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500 disabled:bg-gray-400 disabled:cursor-not-allowed transition duration-200";
+const secondaryButtonClass =
+  "w-full py-2 px-4 border border-gray-300 dark:border-gray-600 text-sm rounded-md text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700 disabled:opacity-50 transition duration-200";
+
+export default function Security() {
+  const router = useRouter();
+  const { user, isLoading } = useAuth();
+  const [status, setStatus] = useState<TwoFactorStatus | null>(null);
+  const [step, setStep] = useState<Step>("overview");
+  const [setup, setSetup] = useState<TwoFactorSetup | null>(null);
+  const [qrCode, setQrCode] = useState("");
+  const [recoveryCodes, setRecoveryCodes] = useState<string[]>([]);
+  const [code, setCode] = useState("");
+  const [password, setPassword] = useState("");
+  const [error, setError] = useState("");
+  const [success, setSuccess] = useState("");
+  const [loading, setLoading] = useState(false);
+
+  const allowed = !!user && TWO_FACTOR_ROLES.includes(user.role);
+
+  useEffect(() => {
+    if (!isLoading && !allowed) {
+      router.push("/");
+    }
+  }, [allowed, isLoading, router]);
+
+  useEffect(() => {
+    if (!allowed) return;
+    authApi
+      .getTwoFactorStatus()
+      .then((data) => setStatus(data.twoFactor))
+      .catch((error) =>
+        setError(getErrorMessage(error, "Failed to load security settings"))
+      );
+  }, [allowed]);
+
+  const goTo = (next: Step) => {
+    setStep(next);
+    setCode("");
+    setPassword("");
+    setError("");
+    setSuccess("");
+  };
+
+  const startEnrolment = async () => {
+    goTo("enrol");
+    setLoading(true);
+    try {
+      const { setup } = await authApi.startTwoFactorSetup();
+      setSetup(setup);
+      setQrCode(await toDataURL(setup.otpauthUrl, { width: 200, margin: 1 }));
+    } catch (error) {
+      setError(getErrorMessage(error, "Failed to start two-factor setup"));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const showRecoveryCodes = (codes: string[]) => {
+    setRecoveryCodes(codes);
+    setStatus({ enabled: true, recoveryCodesRemaining: codes.length });
+    goTo("recovery-codes");
+  };
+
+  const handleEnable = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError("");
+
+    if (!/^\d{6}$/.test(code.trim())) {
+      setError("Enter the 6-digit code from your authenticator app");
+      return;
+    }
+
+    setLoading(true);
+    try {
+      const data = await authApi.enableTwoFactor({ code: code.trim() });
+      console.log("🔐 Two-factor authentication enabled");
+      setSetup(null);
+      setQrCode("");
+      showRecoveryCodes(data.recoveryCodes);
+    } catch (error) {
+      setError(getErrorMessage(error, "That code didn't work. Try again."));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleRegenerate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError("");
+
+    if (!/^\d{6}$/.test(code.trim())) {
+      setError("Enter the 6-digit code from your authenticator app");
+      return;
+    }
+
+    setLoading(true);
+    try {
+      const data = await authApi.regenerateRecoveryCodes({
+        code: code.trim(),
+      });
+      showRecoveryCodes(data.recoveryCodes);
+    } catch (error) {
+      setError(getErrorMessage(error, "Failed to regenerate recovery codes"));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleDisable = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError("");
+
+    if (!password || !code.trim()) {
+      setError("Enter your password and a current code");
+      return;
+    }
+
+    setLoading(true);
+    try {
+      await authApi.disableTwoFactor({ password, code: code.trim() });
+      console.log("🔓 Two-factor authentication disabled");
+      setStatus({ enabled: false, recoveryCodesRemaining: 0 });
+      goTo("overview");
+      setSuccess("Two-factor authentication is off");
+    } catch (error) {
+      setError(
+        getErrorMessage(error, "Failed to disable two-factor authentication")
+      );
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const copyRecoveryCodes = async () => {
+    try {
+      await navigator.clipboard.writeText(recoveryCodes.join("\n"));
+      setSuccess("Recovery codes copied");
+    } catch {
+      setError("Couldn't copy, please write the codes down instead");
+    }
+  };
+
+  const downloadRecoveryCodes = () => {
+    const blob = new Blob(
+      [
+        `Stoyanography Share recovery codes for ${user?.username}\n`,
+        "Each code can be used once to sign in without your authenticator app.\n\n",
+        recoveryCodes.join("\n"),
+        "\n",
+      ],
+      { type: "text/plain" }
+    );
+    saveBlob(blob, "stoyanography-recovery-codes.txt");
+  };
+
+  if (isLoading || !allowed) {
+    return (
+      <div className="min-h-screen bg-gray-100 dark:bg-gray-900 flex items-center justify-center">
+        <div className="text-gray-600 dark:text-gray-400">Loading...</div>
+      </div>
+    );
+  }
+
+  const codeInput = (
+    <div>
+      <label
+        htmlFor="code"
+        className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2"
+      >
+        Authentication Code
+      </label>
+      <input
+        id="code"
+        name="code"
+        type="text"
+        inputMode="numeric"
+        autoComplete="one-time-code"
+        maxLength={6}
+        value={code}
+        onChange={(e) => setCode(e.target.value)}
+        className={`${inputClass} font-mono tracking-widest`}
+        placeholder="123456"
+      />
+    </div>
+  );
+
+  return (
+    <div className="min-h-screen bg-gray-100 dark:bg-gray-900 flex items-center justify-center py-12 px-4 sm:px-6 lg:px-8">
+      <div className="max-w-md w-full">
+        <div className="bg-white dark:bg-gray-800 shadow-md rounded-lg p-8">
+          <div className="mb-6 text-center">
+            <h2 className="text-3xl font-bold text-gray-900 dark:text-gray-100">
+              🔐 Security
+            </h2>
+            <p className="mt-2 text-sm text-gray-600 dark:text-gray-400">
+              Two-factor authentication asks for a code from your phone whenever
+              you sign in.
+            </p>
+          </div>
+
+          <div className="space-y-6">
+            {error && (
+              <div className="bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 text-red-700 dark:text-red-400 px-4 py-3 rounded-md text-sm">
+                {error}
+              </div>
+            )}
+
+            {success && (
+              <div className="bg-green-50 dark:bg-green-900/20 border border-green-200 dark:border-green-800 text-green-700 dark:text-green-400 px-4 py-3 rounded-md text-sm">
+                {success}
+              </div>
+            )}
+
+            {step === "overview" && (
+              <>
+                {status === null ? (
+                  <p className="text-center text-sm text-gray-600 dark:text-gray-400">
+                    Loading...
+                  </p>
+                ) : status.enabled ? (
+                  <>
+                    <div className="flex items-center justify-between p-4 rounded-md bg-green-50 dark:bg-green-900/20">
+                      <span className="text-sm font-medium text-green-800 dark:text-green-400">
+                        ✓ Two-factor authentication is on
+                      </span>
+                      <span className="text-xs text-green-700 dark:text-green-400">
+                        {status.recoveryCodesRemaining} recovery codes left
+                      </span>
+                    </div>
+                    {status.recoveryCodesRemaining <= 3 && (
+                      <p className="text-sm text-yellow-700 dark:text-yellow-400">
+                        ⚠️ You&apos;re running low on recovery codes. Generate a
+                        new set so you can&apos;t get locked out.
+                      </p>
+                    )}
+                    <button
+                      onClick={() => goTo("regenerate")}
+                      className={primaryButtonClass}
+                    >
+                      Regenerate Recovery Codes
+                    </button>
+                    <button
+                      onClick={() => goTo("disable")}
+                      className={secondaryButtonClass}
+                    >
+                      Turn Off Two-Factor Authentication
+                    </button>
+                  </>
+                ) : (
+                  <>
+                    <div className="p-4 rounded-md bg-yellow-50 dark:bg-yellow-900/20 text-sm text-yellow-800 dark:text-yellow-400">
+                      ⚠️ Two-factor authentication is off. Anyone with your
+                      password can sign in as you.
+                    </div>
+                    <button
+                      onClick={startEnrolment}
+                      className={primaryButtonClass}
+                    >
+                      Set Up Two-Factor Authentication
+                    </button>
+                  </>
+                )}
+              </>
+            )}
+
+            {step === "enrol" && (
+              <form onSubmit={handleEnable} className="space-y-6">
+                <ol className="text-sm text-gray-700 dark:text-gray-300 list-decimal list-inside space-y-1">
+                  <li>
+                    Scan this QR code with an authenticator app such as Google
+                    Authenticator, 1Password or Authy.
+                  </li>
+                  <li>Enter the 6-digit code the app shows to confirm.</li>
+                </ol>
+
+                {setup && qrCode ? (
+                  <div className="text-center space-y-2">
+                    <img
+                      src={qrCode}
+                      alt="QR code for your authenticator app"
+                      width={200}
+                      height={200}
+                      className="mx-auto rounded bg-white p-2"
+                    />
+                    <p className="text-xs text-gray-500 dark:text-gray-400">
+                      Can&apos;t scan it? Enter this key instead:
+                    </p>
+                    <code className="block text-sm font-mono break-all text-gray-900 dark:text-gray-100">
+                      {setup.secret}
+                    </code>
+                  </div>
+                ) : (
+                  loading && (
+                    <p className="text-center text-sm text-gray-600 dark:text-gray-400">
+                      Generating your key...
+                    </p>
+                  )
+                )}
+
+                {codeInput}
+
+                <button
+                  type="submit"
+                  disabled={loading || !setup}
+                  className={primaryButtonClass}
+                >
+                  {loading && setup ? "Verifying..." : "Verify and Turn On"}
+                </button>
+                <button
+                  type="button"
+                  onClick={() => goTo("overview")}
+                  className={secondaryButtonClass}
+                >
+                  Cancel
+                </button>
+              </form>
+            )}
+
+            {step === "recovery-codes" && (
+              <div className="space-y-6">
+                <p className="text-sm text-gray-700 dark:text-gray-300">
+                  Save these recovery codes somewhere safe. Each one signs you
+                  in once if you lose your phone.{" "}
+                  <strong>They won&apos;t be shown again.</strong>
+                </p>
+                <ul className="grid grid-cols-2 gap-2 p-4 rounded-md bg-gray-50 dark:bg-gray-900 font-mono text-sm text-gray-900 dark:text-gray-100">
+                  {recoveryCodes.map((recoveryCode) => (
+                    <li key={recoveryCode}>{recoveryCode}</li>
+                  ))}
+                </ul>
+                <div className="flex gap-3">
+                  <button
+                    onClick={copyRecoveryCodes}
+                    className={secondaryButtonClass}
+                  >
+                    📋 Copy
+                  </button>
+                  <button
+                    onClick={downloadRecoveryCodes}
+                    className={secondaryButtonClass}
+                  >
+                    ⬇️ Download
+                  </button>
+                </div>
+                <button
+                  onClick={() => {
+                    setRecoveryCodes([]);
+                    goTo("overview");
+                  }}
+                  className={primaryButtonClass}
+                >
+                  I&apos;ve Saved My Codes
+                </button>
+              </div>
+            )}
+
+            {step === "regenerate" && (
+              <form onSubmit={handleRegenerate} className="space-y-6">
+                <p className="text-sm text-gray-700 dark:text-gray-300">
+                  Your current recovery codes will stop working as soon as new
+                  ones are generated.
+                </p>
+                {codeInput}
+                <button
+                  type="submit"
+                  disabled={loading}
+                  className={primaryButtonClass}
+                >
+                  {loading ? "Generating..." : "Generate New Codes"}
+                </button>
+                <button
+                  type="button"
+                  onClick={() => goTo("overview")}
+                  className={secondaryButtonClass}
+                >
+                  Cancel
+                </button>
+              </form>
+            )}
+
+            {step === "disable" && (
+              <form onSubmit={handleDisable} className="space-y-6">
+                <div>
+                  <label
+                    htmlFor="password"
+                    className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2"
+                  >
+                    Password
+                  </label>
+                  <input
+                    id="password"
+                    name="password"
+                    type="password"
+                    autoComplete="current-password"
+                    value={password}
+                    onChange={(e) => setPassword(e.target.value)}
+                    className={inputClass}
+                    placeholder="Enter your password"
+                  />
+                </div>
+                {codeInput}
+                <button
+                  type="submit"
+                  disabled={loading}
+                  className="w-full flex justify-center py-2 px-4 border border-transparent text-sm font-medium rounded-md text-white bg-red-600 hover:bg-red-700 disabled:bg-gray-400 disabled:cursor-not-allowed transition duration-200"
+                >
+                  {loading ? "Turning Off..." : "Turn Off Two-Factor"}
+                </button>
+                <button
+                  type="button"
+                  onClick={() => goTo("overview")}
+                  className={secondaryButtonClass}
+                >
+                  Cancel
+                </button>
+              </form>
+            )}
+
+            {step !== "recovery-codes" && (
+              <div className="text-center">
+                <button
+                  onClick={() => router.push("/")}
+                  className="text-sm text-indigo-600 dark:text-indigo-400 hover:text-indigo-700"
+                >
+                  ← Back to dashboard
+                </button>
+              </div>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
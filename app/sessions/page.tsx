@@ -0,0 +1,219 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { useRouter } from "next/navigation";
+import { useAuth } from "../context/AuthContext";
+import { useQuery } from "../hooks/useQuery";
+import { authApi, getErrorMessage } from "../lib/api";
+import { Session } from "../lib/models";
+import { queryCache } from "../lib/query";
+import { removeById } from "../lib/realtime";
+
+const SESSIONS_KEY = "auth/sessions";
+
+const fetchSessions = async () => (await authApi.listSessions()).sessions;
+
+const formatLastSeen = (lastSeenAt: string) => {
+  const minutes = Math.floor((Date.now() - Date.parse(lastSeenAt)) / 60000);
+  if (minutes < 2) return "Active now";
+  if (minutes < 60) return `${minutes} minutes ago`;
+  const hours = Math.floor(minutes / 60);
+  if (hours < 24) return `${hours} hour${hours === 1 ? "" : "s"} ago`;
+  return new Date(lastSeenAt).toLocaleDateString();
+};
+
+const deviceIcon = (device?: string) =>
+  /phone|android|ios|mobile/i.test(device ?? "")
+    ? "📱"
+    : /ipad|tablet/i.test(device ?? "")
+    ? "📲"
+    : "💻";
+
+export default function Sessions() {
+  const router = useRouter();
+  const { user, isLoading } = useAuth();
+  const [error, setError] = useState("");
+  const [success, setSuccess] = useState("");
+  const [revoking, setRevoking] = useState<string | null>(null);
+
+  const sessionsQuery = useQuery(SESSIONS_KEY, fetchSessions, {
+    enabled: !!user,
+    tags: ["sessions"],
+  });
+  const sessions = sessionsQuery.data ?? [];
+  const others = sessions.filter((session) => !session.current);
+  const loadError = sessionsQuery.error
+    ? getErrorMessage(sessionsQuery.error, "Failed to load sessions")
+    : "";
+
+  useEffect(() => {
+    if (!isLoading && !user) {
+      router.push("/");
+    }
+  }, [user, isLoading, router]);
+
+  const revokeSession = async (session: Session) => {
+    setError("");
+    setSuccess("");
+    setRevoking(session.id);
+    try {
+      await queryCache.mutate({
+        optimistic: () =>
+          queryCache.setData<Session[]>(
+            SESSIONS_KEY,
+            (prev) => prev && removeById(prev, session.id)
+          ),
+        request: () => authApi.revokeSession(session.id),
+        invalidates: ["sessions"],
+      });
+      setSuccess(`Signed out ${session.device ?? "the device"}`);
+    } catch (error) {
+      setError(getErrorMessage(error, "Failed to sign out that session"));
+    } finally {
+      setRevoking(null);
+    }
+  };
+
+  const revokeOthers = async () => {
+    if (
+      !window.confirm(
+        "Sign out of every other browser and device? You'll stay signed in here."
+      )
+    ) {
+      return;
+    }
+
+    setError("");
+    setSuccess("");
+    setRevoking("others");
+    try {
+      const data = await queryCache.mutate({
+        optimistic: () =>
+          queryCache.setData<Session[]>(
+            SESSIONS_KEY,
+            (prev) => prev && prev.filter((session) => session.current)
+          ),
+        request: () => authApi.revokeOtherSessions(),
+        invalidates: ["sessions"],
+      });
+      const count = data.revoked ?? others.length;
+      setSuccess(`Signed out ${count} other session${count === 1 ? "" : "s"}`);
+    } catch (error) {
+      setError(getErrorMessage(error, "Failed to sign out other sessions"));
+    } finally {
+      setRevoking(null);
+    }
+  };
+
+  if (isLoading || !user) {
+    return (
+      <div className="min-h-screen bg-gray-100 dark:bg-gray-900 flex items-center justify-center">
+        <div className="text-gray-600 dark:text-gray-400">Loading...</div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-100 dark:bg-gray-900 py-12 px-4 sm:px-6 lg:px-8">
+      <div className="max-w-2xl mx-auto">
+        <div className="bg-white dark:bg-gray-800 shadow-md rounded-lg p-8">
+          <div className="mb-6 flex items-start justify-between gap-4">
+            <div>
+              <h2 className="text-3xl font-bold text-gray-900 dark:text-gray-100">
+                💻 Sessions
+              </h2>
+              <p className="mt-2 text-sm text-gray-600 dark:text-gray-400">
+                Browsers and devices signed in to your account. Sign out any you
+                don&apos;t recognise.
+              </p>
+            </div>
+            <button
+              onClick={() => router.push("/")}
+              className="text-sm text-indigo-600 dark:text-indigo-400 hover:text-indigo-700 whitespace-nowrap"
+            >
+              ← Back to dashboard
+            </button>
+          </div>
+
+          <div className="space-y-6">
+            {(error || loadError) && (
+              <div className="bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 text-red-700 dark:text-red-400 px-4 py-3 rounded-md text-sm">
+                {error || loadError}
+              </div>
+            )}
+
+            {success && (
+              <div className="bg-green-50 dark:bg-green-900/20 border border-green-200 dark:border-green-800 text-green-700 dark:text-green-400 px-4 py-3 rounded-md text-sm">
+                {success}
+              </div>
+            )}
+
+            {sessionsQuery.isLoading ? (
+              <p className="text-center text-sm text-gray-600 dark:text-gray-400">
+                Loading...
+              </p>
+            ) : (
+              <ul className="divide-y divide-gray-200 dark:divide-gray-700">
+                {sessions.map((session) => (
+                  <li
+                    key={session.id}
+                    className="py-4 flex items-center justify-between gap-4"
+                  >
+                    <div className="flex items-center gap-3 min-w-0">
+                      <span className="text-2xl">
+                        {deviceIcon(session.device)}
+                      </span>
+                      <div className="min-w-0">
+                        <div className="text-sm font-medium text-gray-900 dark:text-gray-100 truncate">
+                          {session.device ?? "Unknown device"}
+                          {" · "}
+                          {session.browser ?? "Unknown browser"}
+                          {session.current && (
+                            <span className="ml-2 inline-flex px-2 py-0.5 text-xs font-semibold rounded-full bg-green-100 text-green-800">
+                              This device
+                            </span>
+                          )}
+                        </div>
+                        <div className="text-xs text-gray-500 dark:text-gray-400">
+                          {session.ipRegion ?? "Unknown location"}
+                          {" · "}
+                          {session.current
+                            ? "Active now"
+                            : formatLastSeen(session.lastSeenAt)}
+                          {" · "}
+                          Signed in{" "}
+                          {new Date(session.createdAt).toLocaleDateString()}
+                        </div>
+                      </div>
+                    </div>
+                    {!session.current && (
+                      <button
+                        onClick={() => revokeSession(session)}
+                        disabled={revoking !== null}
+                        className="text-sm text-red-600 hover:text-red-900 font-medium disabled:opacity-50"
+                      >
+                        {revoking === session.id ? "Signing out..." : "Revoke"}
+                      </button>
+                    )}
+                  </li>
+                ))}
+              </ul>
+            )}
+
+            {others.length > 0 && (
+              <button
+                onClick={revokeOthers}
+                disabled={revoking !== null}
+                className="w-full flex justify-center py-2 px-4 border border-transparent text-sm font-medium rounded-md text-white bg-red-600 hover:bg-red-700 disabled:bg-gray-400 disabled:cursor-not-allowed transition duration-200"
+              >
+                {revoking === "others"
+                  ? "Signing Out..."
+                  : "Sign Out Everywhere Else"}
+              </button>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,107 +0,0 @@
-import axios from "axios";
-
-const API_BASE_URL =
-  process.env.NEXT_PUBLIC_API_BASE_URL || "http://localhost:6002/api";
-
-// Create axios instance
-const axiosInstance = axios.create({
-  baseURL: API_BASE_URL,
-  withCredentials: true, // Important for cookies
-});
-
-// Track if we're currently refreshing to prevent multiple refresh calls
-let isRefreshing = false;
-let failedQueue: any[] = [];
-
-const processQueue = (error: any, token: string | null = null) => {
-  failedQueue.forEach((prom) => {
-    if (error) {
-      prom.reject(error);
-    } else {
-      prom.resolve(token);
-    }
-  });
-
-  failedQueue = [];
-};
-
-// Response interceptor to handle 401 errors and refresh token
-axiosInstance.interceptors.response.use(
-  (response) => {
-    return response;
-  },
-  async (error) => {
-    const originalRequest = error.config;
-
-    // Don't try to refresh on login, logout, or refresh endpoints
-    const skipRefreshUrls = [
-      "/auth/login",
-      "/auth/logout",
-      "/auth/refresh",
-      "/auth/register",
-    ];
-    const shouldSkipRefresh = skipRefreshUrls.some((url) =>
-      originalRequest.url?.includes(url)
-    );
-
-    // If error is 401 or 403 (unauthorized/forbidden) and we haven't retried yet
-    if (
-      (error.response?.status === 401 || error.response?.status === 403) &&
-      !originalRequest._retry &&
-      !shouldSkipRefresh
-    ) {
-      if (isRefreshing) {
-        // If already refreshing, queue this request
-        return new Promise((resolve, reject) => {
-          failedQueue.push({ resolve, reject });
-        })
-          .then(() => {
-            return axiosInstance(originalRequest);
-          })
-          .catch((err) => {
-            return Promise.reject(err);
-          });
-      }
-
-      originalRequest._retry = true;
-      isRefreshing = true;
-
-      try {
-        // Try to refresh the token
-        await axios.post(
-          `${API_BASE_URL}/auth/refresh`,
-          {},
-          { withCredentials: true }
-        );
-
-        // Token refreshed successfully
-        processQueue(null, "refreshed");
-        isRefreshing = false;
-
-        // Retry the original request
-        return axiosInstance(originalRequest);
-      } catch (refreshError) {
-        // Refresh failed - user needs to login again
-        processQueue(refreshError, null);
-        isRefreshing = false;
-
-        // Don't redirect if we're already on verify endpoint (initial load)
-        // Let the AuthContext handle it
-        if (!originalRequest.url?.includes("/auth/verify")) {
-          // Clear local storage and redirect to login
-          if (typeof window !== "undefined") {
-            localStorage.removeItem("user");
-            localStorage.removeItem("mustChangePassword");
-            window.location.href = "/";
-          }
-        }
-
-        return Promise.reject(refreshError);
-      }
-    }
-
-    return Promise.reject(error);
-  }
-);
-
-export default axiosInstance;
@@ -0,0 +1,75 @@
+/*
+ * App-shell service worker. Pages and build assets are cached so the app
+ * opens offline; API traffic is never touched here. Collections kept for
+ * offline viewing live in their own cache, managed by the page
+ * (app/lib/offlinePins.ts).
+ */
+
+// Bump the version to drop the shell cached by older builds
+const SHELL_CACHE = "app-shell-v1";
+const SHELL_URLS = ["/", "/login", "/manifest.webmanifest", "/favicon.ico"];
+
+self.addEventListener("install", (event) => {
+  event.waitUntil(
+    caches
+      .open(SHELL_CACHE)
+      .then((cache) => cache.addAll(SHELL_URLS))
+      .then(() => self.skipWaiting())
+  );
+});
+
+self.addEventListener("activate", (event) => {
+  event.waitUntil(
+    caches
+      .keys()
+      .then((names) =>
+        Promise.all(
+          names
+            .filter(
+              (name) => name.startsWith("app-shell-") && name !== SHELL_CACHE
+            )
+            .map((name) => caches.delete(name))
+        )
+      )
+      .then(() => self.clients.claim())
+  );
+});
+
+const putInShell = (request, response) => {
+  if (response.ok) {
+    const copy = response.clone();
+    caches.open(SHELL_CACHE).then((cache) => cache.put(request, copy));
+  }
+  return response;
+};
+
+self.addEventListener("fetch", (event) => {
+  const { request } = event;
+  const url = new URL(request.url);
+  if (request.method !== "GET" || url.origin !== self.location.origin) return;
+
+  // Pages: network first so deploys show up, the cached shell when offline
+  if (request.mode === "navigate") {
+    event.respondWith(
+      fetch(request)
+        .then((response) => putInShell(request, response))
+        .catch(() =>
+          caches.match(request).then((cached) => cached || caches.match("/"))
+        )
+    );
+    return;
+  }
+
+  // Build assets have hashed names, so a cached copy is always current
+  if (url.pathname.startsWith("/_next/static/")) {
+    event.respondWith(
+      caches
+        .match(request)
+        .then(
+          (cached) =>
+            cached ||
+            fetch(request).then((response) => putInShell(request, response))
+        )
+    );
+  }
+});